@@ -0,0 +1,25 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+const loginCard: FigmaNode = {
+  id: '1:0',
+  name: 'Login Card',
+  type: 'FRAME',
+  absoluteBoundingBox: { x: 0, y: 0, width: 300, height: 200 },
+  children: []
+} as FigmaNode;
+
+describe('angular file names', () => {
+  it.each(['PascalCase', 'kebab-case'] as const)('are kebab-case with files: %s, with a PascalCase class', fileNaming => {
+    const [component] = new DesignToCode({ framework: 'angular', fileNaming, tailwind: false, tests: true }).processDesign([loginCard]);
+
+    expect(component.filename).toBe('login-card.component.ts');
+    expect(component.files.map(file => file.filename)).toEqual([
+      'login-card.component.html',
+      'login-card.component.scss',
+      'login-card.component.spec.ts'
+    ]);
+    expect(component.code).toContain("templateUrl: './login-card.component.html'");
+    expect(component.code).toContain("styleUrl: './login-card.component.scss'");
+    expect(component.code).toContain('export class LoginCardComponent');
+  });
+});
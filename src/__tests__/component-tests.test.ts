@@ -0,0 +1,52 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+function text(id: string, characters: string, runs?: Pick<FigmaNode, 'characterStyleOverrides' | 'styleOverrideTable'>): FigmaNode {
+  return {
+    id,
+    name: 'Title',
+    type: 'TEXT',
+    characters,
+    style: { fontSize: 32, fontWeight: 700 },
+    absoluteBoundingBox: { x: 0, y: 0, width: 280, height: 40 },
+    ...runs
+  } as FigmaNode;
+}
+
+function card(...children: FigmaNode[]): FigmaNode {
+  return {
+    id: '1:0',
+    name: 'Card',
+    type: 'FRAME',
+    absoluteBoundingBox: { x: 0, y: 0, width: 300, height: 100 },
+    children
+  } as FigmaNode;
+}
+
+/** `Hello` in bold and ` world` in regular weight */
+const mixedWeights = {
+  characterStyleOverrides: [0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1],
+  styleOverrideTable: { 1: { fontWeight: 400 } }
+};
+
+function generatedTest(node: FigmaNode): string {
+  const [component] = new DesignToCode({ tests: true }).processDesign([node]);
+  return component.files.find(file => file.filename === 'Card.test.tsx')!.code;
+}
+
+describe('text tests', () => {
+  it('find plain text by its string', () => {
+    expect(generatedTest(card(text('1:1', 'Hello  world')))).toContain("expect(screen.getAllByText('Hello world')).not.toHaveLength(0);");
+  });
+
+  it('find text split across style runs by its text content', () => {
+    expect(generatedTest(card(text('1:1', 'Hello world', mixedWeights)))).toContain(
+      "expect(screen.getAllByText((_, element) => element?.textContent?.replace(/\\s+/g, ' ').trim() === 'Hello world')).not.toHaveLength(0);"
+    );
+  });
+
+  it('find text by its string when another layer shows it whole', () => {
+    const code = generatedTest(card(text('1:1', 'Hello world', mixedWeights), text('1:2', 'Hello world')));
+    expect(code).toContain("expect(screen.getAllByText('Hello world')).not.toHaveLength(0);");
+    expect(code).not.toContain('textContent');
+  });
+});
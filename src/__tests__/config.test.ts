@@ -0,0 +1,115 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig, resolveSettings } from '../config';
+
+describe('loadConfig', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'd2c-config-'));
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const write = (file: string, content: unknown) => {
+    const target = path.join(root, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, typeof content === 'string' ? content : JSON.stringify(content));
+    return target;
+  };
+
+  it('finds the config in the working directory or above it', () => {
+    const file = write('design-to-code.config.json', { framework: 'vue', output: 'src/components' });
+    fs.mkdirSync(path.join(root, 'packages', 'app'), { recursive: true });
+
+    expect(loadConfig(undefined, path.join(root, 'packages', 'app'))).toEqual({
+      file,
+      config: { framework: 'vue', output: 'src/components' },
+      generators: []
+    });
+  });
+
+  it('is empty without a config file', () => {
+    expect(loadConfig(undefined, root)).toEqual({ config: {}, generators: [] });
+  });
+
+  it('runs TypeScript configs', () => {
+    write('design-to-code.config.ts', [
+      "const config: { framework: string; layout: 'folders' } = { framework: 'svelte', layout: 'folders' };",
+      'export default config;'
+    ].join('\n'));
+
+    expect(loadConfig(undefined, root).config).toEqual({ framework: 'svelte', layout: 'folders' });
+  });
+
+  it('reports a config file given but missing', () => {
+    expect(() => loadConfig('missing.json', root)).toThrow(`Config file not found: ${path.join(root, 'missing.json')}`);
+  });
+
+  it('reports every invalid option at once, suggesting known ones', () => {
+    const file = write('design-to-code.config.json', {
+      framwork: 'react',
+      styling: 'sass',
+      naming: { files: 'snake_case' },
+      include: [{ type: 'frame' }],
+      overrides: { '1:2': { name: 'login card' } }
+    });
+
+    expect(() => loadConfig(file)).toThrow([
+      `Invalid config ${file}:`,
+      "  - unknown option 'framwork', did you mean 'framework'?",
+      "  - styling must be one of tailwind, stylesheet, inline (got 'sass')",
+      "  - naming.files must be one of PascalCase, kebab-case (got 'snake_case')",
+      "  - include[0].type must be a Figma node type such as FRAME or COMPONENT (got 'frame')",
+      `  - overrides["1:2"].name must be a PascalCase identifier such as LoginCard (got 'login card')`
+    ].join('\n'));
+  });
+
+  it('loads generators from modules and accepts them as the framework', () => {
+    write('generators/outline.js', "module.exports = { name: 'outline', extension: () => 'txt', generate: () => [] };");
+    write('design-to-code.config.json', { framework: 'outline', generators: ['./generators/outline'] });
+
+    const loaded = loadConfig(undefined, root);
+    expect(loaded.generators.map(generator => generator.name)).toEqual(['outline']);
+  });
+
+  it('rejects generator modules that aren\'t generators', () => {
+    write('generators/broken.js', "module.exports = { name: 'broken' };");
+    const file = write('design-to-code.config.json', { generators: ['./generators/broken'] });
+
+    expect(() => loadConfig(file)).toThrow(`${file}: generator './generators/broken' must provide a name, extension() and generate()`);
+  });
+});
+
+describe('resolveSettings', () => {
+  const file = path.join(path.sep, 'project', 'design-to-code.config.json');
+
+  it('takes flags over the config and the config over the defaults', () => {
+    const settings = resolveSettings({ file, config: { framework: 'vue', tests: true, tokens: true }, generators: [] }, { tokens: false, stories: true });
+
+    expect(settings).toMatchObject({
+      framework: 'vue',
+      tests: true,
+      tokens: false,
+      stories: true,
+      styling: 'stylesheet',
+      typescript: true,
+      output: './components'
+    });
+  });
+
+  it('resolves the config\'s output against the config file\'s directory', () => {
+    expect(resolveSettings({ file, config: { output: 'src/ui' }, generators: [] }, {}).output).toBe(path.join(path.sep, 'project', 'src', 'ui'));
+    expect(resolveSettings({ file, config: { output: 'src/ui' }, generators: [] }, { output: 'out' }).output).toBe('out');
+  });
+
+  it('drops the config\'s dialect when a flag picks another framework', () => {
+    const loaded = { file, config: { framework: 'vue', dialect: 'options' }, generators: [] };
+
+    expect(resolveSettings(loaded, {}).dialect).toBe('options');
+    expect(resolveSettings(loaded, { framework: 'svelte' }).dialect).toBeUndefined();
+    expect(resolveSettings(loaded, { framework: 'vue' }).dialect).toBe('options');
+  });
+});
@@ -0,0 +1,43 @@
+import { convertFigmaToCode } from '../converter';
+import type { FigmaFile } from '../figma-client';
+import type { FigmaNode } from '../index';
+
+function figmaFile(...names: string[]): FigmaFile {
+  const nodes = names.map((name, i) => ({
+    id: `1:${i}`,
+    name,
+    type: 'FRAME',
+    absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 40 },
+    children: []
+  }) as FigmaNode);
+  return { id: 'AbC123', name: 'App', nodes, componentCount: 0, frameCount: nodes.length };
+}
+
+describe('convertFigmaToCode index', () => {
+  it('re-exports default-exported components by their identifier', async () => {
+    const { index } = await convertFigmaToCode(figmaFile('Login Card', 'Button/Primary'), 'react');
+    expect(index).toBe([
+      '// react Components',
+      "export { default as LoginCard } from './LoginCard';",
+      "export { default as ButtonPrimary } from './button/Primary';",
+      ''
+    ].join('\n'));
+  });
+
+  it('imports single-file components with their extension', async () => {
+    const { index } = await convertFigmaToCode(figmaFile('Login Card'), 'vue');
+    expect(index).toContain("export { default as LoginCard } from './LoginCard.vue';");
+  });
+
+  it('re-exports Angular component classes from their kebab-case files', async () => {
+    const { index, components } = await convertFigmaToCode(figmaFile('Login Card'), 'angular');
+    expect(Object.keys(components)).toContain('login-card.component.ts');
+    expect(index).toContain("export { LoginCardComponent } from './login-card.component';");
+  });
+
+  it('writes no index for HTML pages', async () => {
+    const { index, components } = await convertFigmaToCode(figmaFile('Login Card'), 'html');
+    expect(Object.keys(components)).toContain('LoginCard.html');
+    expect(index).toBeUndefined();
+  });
+});
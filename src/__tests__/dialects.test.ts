@@ -0,0 +1,93 @@
+import DesignToCode, { FigmaNode, generatorDialect, getGenerator } from '../index';
+
+function sizeVariant(id: string, size: string, width: number): FigmaNode {
+  return {
+    id,
+    name: `Size=${size}`,
+    type: 'COMPONENT',
+    absoluteBoundingBox: { x: 0, y: 0, width, height: 40 },
+    children: [
+      {
+        id: `${id}:label`,
+        name: 'Label',
+        type: 'TEXT',
+        characters: 'Click',
+        componentPropertyReferences: { characters: 'Label#1:0' },
+        absoluteBoundingBox: { x: 0, y: 0, width: 80, height: 40 }
+      }
+    ]
+  } as FigmaNode;
+}
+
+/** A button in two sizes with a text property */
+const button = {
+  id: '2:0',
+  name: 'Button',
+  type: 'COMPONENT_SET',
+  componentPropertyDefinitions: {
+    'Size': { type: 'VARIANT', defaultValue: 'Small', variantOptions: ['Small', 'Large'] },
+    'Label#1:0': { type: 'TEXT', defaultValue: 'Click' }
+  },
+  children: [sizeVariant('2:1', 'Small', 80), sizeVariant('2:2', 'Large', 120)]
+} as FigmaNode;
+
+function generate(framework: string, dialect?: string): string {
+  return new DesignToCode({ framework, dialect, tailwind: true }).processDesign([button])[0].code;
+}
+
+describe('dialects', () => {
+  it('default to the current syntax, and reject ones a target lacks', () => {
+    expect(generatorDialect(getGenerator('vue'))).toBe('setup');
+    expect(generatorDialect(getGenerator('svelte'))).toBe('runes');
+    expect(generatorDialect(getGenerator('react'))).toBeUndefined();
+    expect(() => generatorDialect(getGenerator('vue'), 'runes')).toThrow("Unknown dialect 'runes' for vue. Available: setup, options");
+  });
+});
+
+describe('vue', () => {
+  it('declares typed props with defaults in <script setup>', () => {
+    const code = generate('vue');
+
+    expect(code).toContain('<script setup lang="ts">');
+    expect(code).toContain([
+      'interface Props {',
+      "  size?: 'Small' | 'Large';",
+      '  label?: string;',
+      '}',
+      '',
+      'withDefaults(defineProps<Props>(), {',
+      "  size: 'Small',",
+      "  label: 'Click'",
+      '});'
+    ].join('\n'));
+    expect(code).not.toContain('export default');
+  });
+
+  it('declares props as options with the options dialect', () => {
+    const code = generate('vue', 'options');
+
+    expect(code).toContain('<script lang="ts">');
+    expect(code).toContain("type: String as PropType<'Small' | 'Large'>,\n      default: 'Small'");
+    expect(code).toContain("name: 'Button'");
+  });
+});
+
+describe('svelte', () => {
+  it('reads props with $props() and renders children as a snippet', () => {
+    const code = generate('svelte');
+
+    expect(code).toContain("import type { Snippet } from 'svelte';");
+    expect(code).toMatch(/let \{\s*size = 'Small',\s*label = 'Click',\s*children,\s*class: className = ''\s*\}: Props = \$props\(\);/);
+    expect(code).toContain('{@render children?.()}');
+    expect(code).not.toContain('export let');
+  });
+
+  it('exports props and renders a slot with the legacy dialect', () => {
+    const code = generate('svelte', 'legacy');
+
+    expect(code).toContain("export let size: 'Small' | 'Large' = 'Small';");
+    expect(code).toContain("export let label: string = 'Click';");
+    expect(code).toContain('<slot></slot>');
+    expect(code).not.toContain('$props()');
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  extractFileId,
+  extractNodeIds,
+  fetchFigmaFile,
+  fetchFigmaNodes,
+  fetchFigmaPages,
+  fetchFigmaVariables,
+  fetchFigmaVersion,
+  FigmaApiError,
+  figmaAssetSource,
+  FigmaTransport
+} from '../figma-client';
+
+type Reply = unknown | FigmaApiError;
+
+/**
+ * A transport answering each URL, matched by its start, with the queued
+ * replies in turn; errors in the queue are thrown
+ */
+function fakeTransport(routes: Record<string, Reply[]>, files: Record<string, Reply[]> = {}) {
+  const requests: string[] = [];
+  const reply = (table: Record<string, Reply[]>, url: string) => {
+    requests.push(url);
+    const key = Object.keys(table).find(prefix => url.startsWith(prefix));
+    if (!key || table[key].length === 0) throw new Error(`Unexpected request: ${url}`);
+    const next = table[key].length > 1 ? table[key].shift() : table[key][0];
+    if (next instanceof Error) throw next;
+    return next;
+  };
+  const transport: FigmaTransport = {
+    getJSON: async url => reply(routes, url),
+    download: async url => reply(files, url) as Buffer
+  };
+  return { transport, requests };
+}
+
+const FILE = 'https://api.figma.com/v1/files/AbC123';
+const document = { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [] };
+
+describe('extractFileId', () => {
+  it('reads the key of design, file and proto URLs', () => {
+    expect(extractFileId('https://www.figma.com/design/AbC123/App?node-id=1-2')).toBe('AbC123');
+    expect(extractFileId('https://www.figma.com/file/AbC123/App')).toBe('AbC123');
+    expect(extractFileId('https://www.figma.com/proto/AbC123/App?starting-point-node-id=1%3A2')).toBe('AbC123');
+  });
+
+  it('resolves branch URLs to the branch key', () => {
+    expect(extractFileId('https://www.figma.com/design/AbC123/branch/XyZ789/App')).toBe('XyZ789');
+  });
+
+  it('takes anything else as the key', () => {
+    expect(extractFileId('AbC123')).toBe('AbC123');
+  });
+});
+
+describe('extractNodeIds', () => {
+  it('turns the node-id parameter into node ids', () => {
+    expect(extractNodeIds('https://www.figma.com/design/AbC123/App?node-id=1-23%2C4-5')).toEqual(['1:23', '4:5']);
+    expect(extractNodeIds('https://www.figma.com/design/AbC123/App')).toEqual([]);
+  });
+});
+
+describe('requests', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('fetches a file with path geometry', async () => {
+    const { transport, requests } = fakeTransport({
+      [FILE]: [{ name: 'App', document, version: '42', lastModified: '2024-01-01T00:00:00Z' }]
+    });
+    const file = await fetchFigmaFile('https://www.figma.com/design/AbC123/App', 'token', transport);
+
+    expect(requests).toEqual([`${FILE}?geometry=paths`]);
+    expect(file).toMatchObject({ id: 'AbC123', name: 'App', version: '42', raw: document });
+  });
+
+  it('backs off exponentially while rate limited or unavailable', async () => {
+    const { transport, requests } = fakeTransport({
+      [FILE]: [
+        new FigmaApiError('Rate limited', 429),
+        new FigmaApiError('Bad gateway', 502),
+        { version: '42', lastModified: '2024-01-01T00:00:00Z' }
+      ]
+    });
+    const version = fetchFigmaVersion('AbC123', 'token', transport);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(requests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(requests).toHaveLength(2);
+    // The second retry waits twice as long
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(requests).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(version).resolves.toEqual({ version: '42', lastModified: '2024-01-01T00:00:00Z' });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const { transport, requests } = fakeTransport({
+      [FILE]: [new FigmaApiError('Rate limited', 429, 5), { version: '1', lastModified: 'now' }]
+    });
+    const version = fetchFigmaVersion('AbC123', 'token', transport);
+
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(requests).toHaveLength(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(version).resolves.toEqual({ version: '1', lastModified: 'now' });
+  });
+
+  it('gives up on rate limits after four retries', async () => {
+    const { transport, requests } = fakeTransport({ [FILE]: [new FigmaApiError('Rate limited', 429)] });
+    const version = fetchFigmaVersion('AbC123', 'token', transport);
+    const failure = expect(version).rejects.toThrow('Figma rate limit exceeded after 4 retries');
+
+    await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000 + 8000);
+    await failure;
+    expect(requests).toHaveLength(5);
+  });
+
+  it.each([
+    [400, 'Figma rejected the request: Bad ids. Check the node ids and parameters.'],
+    [401, 'Invalid Figma token. Check your API credentials.'],
+    [403, 'Access to this Figma file was denied.'],
+    [404, 'Figma file not found. Check the file ID or URL.'],
+    [418, 'Figma API request failed (HTTP 418): Bad ids']
+  ])('explains HTTP %i without retrying', async (status, message) => {
+    const { transport, requests } = fakeTransport({ [FILE]: [new FigmaApiError('Bad ids', status)] });
+    const error = await fetchFigmaVersion('AbC123', 'token', transport).catch(e => e);
+
+    expect(error).toBeInstanceOf(FigmaApiError);
+    expect(error.status).toBe(status);
+    expect(error.message).toContain(message);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('explains a server error that outlasts the retries', async () => {
+    const { transport } = fakeTransport({ [FILE]: [new FigmaApiError('Down', 503)] });
+    const version = fetchFigmaVersion('AbC123', 'token', transport);
+    const failure = expect(version).rejects.toThrow('The Figma API is unavailable (HTTP 503). Try again later.');
+
+    await jest.advanceTimersByTimeAsync(15000);
+    await failure;
+  });
+
+  it('explains requests that got no response', async () => {
+    const { transport } = fakeTransport({ [FILE]: [new FigmaApiError('ENOTFOUND')] });
+    await expect(fetchFigmaVersion('AbC123', 'token', transport)).rejects.toThrow('Could not reach the Figma API: ENOTFOUND');
+  });
+});
+
+describe('pulling part of a file', () => {
+  const frame = (id: string, name: string) => ({ id, name, type: 'FRAME', children: [] });
+
+  it('gathers the requested nodes under one document, with their styles', async () => {
+    const { transport, requests } = fakeTransport({
+      [`${FILE}/nodes`]: [{
+        name: 'App',
+        version: '42',
+        nodes: {
+          '1:2': { document: frame('1:2', 'Login'), styles: { 'S:1': { key: 'a', name: 'Brand', styleType: 'FILL' } } },
+          '4:5': { document: frame('4:5', 'Signup') }
+        }
+      }]
+    });
+    const file = await fetchFigmaNodes('https://www.figma.com/design/AbC123/App?node-id=1-2', ['1:2', '4:5'], 'token', transport);
+
+    expect(requests).toEqual([`${FILE}/nodes?ids=1%3A2%2C4%3A5&geometry=paths`]);
+    expect(file.raw.children.map((node: { name: string }) => node.name)).toEqual(['Login', 'Signup']);
+    expect(file).toMatchObject({ name: 'App', version: '42', frameCount: 2, styles: { 'S:1': { name: 'Brand' } } });
+  });
+
+  it('names the nodes the file doesn\'t have', async () => {
+    const { transport } = fakeTransport({ [`${FILE}/nodes`]: [{ name: 'App', nodes: { '1:2': { document: frame('1:2', 'Login') }, '9:9': null } }] });
+    await expect(fetchFigmaNodes('AbC123', ['1:2', '9:9'], 'token', transport)).rejects.toThrow('Nodes not found in the Figma file: 9:9');
+  });
+
+  it('lists pages without their contents', async () => {
+    const { transport, requests } = fakeTransport({
+      [FILE]: [{ document: { ...document, children: [{ id: '0:1', name: 'Home', type: 'CANVAS' }, { id: '0:2', name: 'Settings', type: 'CANVAS' }] } }]
+    });
+
+    expect(await fetchFigmaPages('AbC123', 'token', transport)).toEqual([{ id: '0:1', name: 'Home' }, { id: '0:2', name: 'Settings' }]);
+    expect(requests).toEqual([`${FILE}?depth=1`]);
+  });
+
+  it('reads local variables from the response\'s meta', async () => {
+    const meta = { variables: { 'V:1': { id: 'V:1', name: 'primary' } }, variableCollections: { 'C:1': { id: 'C:1', name: 'Brand' } } };
+    const { transport } = fakeTransport({ [`${FILE}/variables/local`]: [{ meta }] });
+
+    expect(await fetchFigmaVariables('AbC123', 'token', transport)).toEqual(meta);
+  });
+
+  it('explains that variables need an Enterprise plan when access is denied', async () => {
+    const { transport } = fakeTransport({ [`${FILE}/variables/local`]: [new FigmaApiError('Forbidden', 403)] });
+    await expect(fetchFigmaVariables('AbC123', 'token', transport))
+      .rejects.toThrow('Figma Variables require an Enterprise plan and the file_variables:read scope.');
+  });
+});
+
+describe('figmaAssetSource', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('downloads the image fills the file links to', async () => {
+    const png = Buffer.from('png');
+    const { transport, requests } = fakeTransport(
+      { [`${FILE}/images`]: [{ meta: { images: { ref1: 'https://cdn/ref1', ref2: null } } }] },
+      { 'https://cdn/ref1': [png] }
+    );
+    const images = await figmaAssetSource('AbC123', 'token', transport).imageFills(['ref1', 'ref2', 'ref3']);
+
+    expect(Array.from(images)).toEqual([['ref1', png]]);
+    expect(requests).toEqual([`${FILE}/images`, 'https://cdn/ref1']);
+  });
+
+  it('renders nodes and retries failed downloads', async () => {
+    const svg = Buffer.from('<svg/>');
+    const { transport, requests } = fakeTransport(
+      { 'https://api.figma.com/v1/images/AbC123': [{ images: { '1:2': 'https://cdn/1-2', '1:3': null } }] },
+      { 'https://cdn/1-2': [new FigmaApiError('Unavailable', 503), svg] }
+    );
+    const rendering = figmaAssetSource('AbC123', 'token', transport).renderNodes(['1:2', '1:3'], 'svg', 1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    const rendered = await rendering;
+    expect(Array.from(rendered)).toEqual([['1:2', svg]]);
+    expect(requests[0]).toBe('https://api.figma.com/v1/images/AbC123?ids=1%3A2%2C1%3A3&format=svg&scale=1');
+    expect(requests.filter(url => url === 'https://cdn/1-2')).toHaveLength(2);
+  });
+
+  it('reports nodes Figma could not render', async () => {
+    const { transport } = fakeTransport({ 'https://api.figma.com/v1/images/AbC123': [{ err: 'Invalid node' }] });
+    await expect(figmaAssetSource('AbC123', 'token', transport).renderNodes(['1:2'], 'png', 2))
+      .rejects.toThrow('Figma could not render 1:2: Invalid node');
+  });
+});
@@ -0,0 +1,63 @@
+import DesignToCode, { FigmaNode, generatorNames, getGenerator, registerGenerator } from '../index';
+import type { ComponentIR } from '../ir';
+
+const loginCard: FigmaNode = {
+  id: '1:0',
+  name: 'Login Card',
+  type: 'FRAME',
+  absoluteBoundingBox: { x: 0, y: 0, width: 300, height: 200 },
+  children: [
+    { id: '1:1', name: 'Title', type: 'TEXT', characters: 'Welcome', style: { fontSize: 20 }, absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 20 } }
+  ]
+} as FigmaNode;
+
+describe('built-in targets', () => {
+  it.each([
+    ['react', 'LoginCard.tsx'],
+    ['vue', 'LoginCard.vue'],
+    ['svelte', 'LoginCard.svelte'],
+    ['angular', 'login-card.component.ts'],
+    ['solid', 'LoginCard.tsx'],
+    ['lit', 'LoginCard.ts'],
+    ['html', 'LoginCard.html']
+  ])('%s generates the same layers to %s', (framework, filename) => {
+    const [component] = new DesignToCode({ framework, tailwind: false }).processDesign([loginCard]);
+
+    expect(component.filename).toBe(filename);
+    expect([component.code, ...component.files.map(file => file.code)].join('\n')).toContain('Welcome');
+  });
+
+  it('are listed by name', () => {
+    expect(generatorNames()).toEqual(expect.arrayContaining(['react', 'vue', 'svelte', 'angular', 'solid', 'lit', 'html']));
+  });
+
+  it('explain unknown names', () => {
+    expect(() => getGenerator('qwik')).toThrow(/^Unknown framework 'qwik'\. Available: react, vue/);
+  });
+});
+
+describe('custom targets', () => {
+  const irs: ComponentIR[] = [];
+
+  registerGenerator({
+    name: 'outline',
+    extension: () => 'txt',
+    generate(ir, options) {
+      irs.push(ir);
+      return [
+        { filename: ir.filename, code: `${ir.name} (${options.styling})\n` },
+        { filename: ir.filename.replace(/\.txt$/, '.css'), code: ir.rules.map(rule => rule.selector).join('\n') }
+      ];
+    }
+  });
+
+  it('are selected by name and get the component IR', () => {
+    const [component] = new DesignToCode({ framework: 'outline', tailwind: false }).processDesign([loginCard]);
+
+    expect(generatorNames()).toContain('outline');
+    expect(component.filename).toBe('LoginCard.txt');
+    expect(component.code).toBe('LoginCard (stylesheet)\n');
+    expect(component.files).toEqual([{ filename: 'LoginCard.css', code: '.login-card\n.title' }]);
+    expect(irs[irs.length - 1]).toMatchObject({ name: 'LoginCard', testId: 'login-card', node: loginCard });
+  });
+});
@@ -0,0 +1,86 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+const box = (x: number, y: number, width: number, height: number) => ({ x, y, width, height });
+
+function instance(id: string, name: string, componentId: string, bounds: ReturnType<typeof box>, props: Partial<FigmaNode> = {}): FigmaNode {
+  return { id, name, type: 'INSTANCE', componentId, absoluteBoundingBox: bounds, children: [], ...props } as FigmaNode;
+}
+
+function page(...children: FigmaNode[]): FigmaNode {
+  return { id: '4:0', name: 'Page', type: 'FRAME', absoluteBoundingBox: box(0, 0, 400, 300), children } as FigmaNode;
+}
+
+const card = { id: '3:0', name: 'Card', type: 'COMPONENT', absoluteBoundingBox: box(0, 0, 100, 50), children: [] } as FigmaNode;
+
+function sizeVariant(id: string, size: string): FigmaNode {
+  return {
+    id,
+    name: `Size=${size}`,
+    type: 'COMPONENT',
+    absoluteBoundingBox: box(0, 0, 80, 40),
+    children: [
+      { id: `${id}:label`, name: 'Label', type: 'TEXT', characters: 'Click', componentPropertyReferences: { characters: 'Label#1:0' }, absoluteBoundingBox: box(0, 0, 80, 40) }
+    ]
+  } as FigmaNode;
+}
+
+const button = {
+  id: '2:0',
+  name: 'Button',
+  type: 'COMPONENT_SET',
+  componentPropertyDefinitions: {
+    'Size': { type: 'VARIANT', defaultValue: 'Small', variantOptions: ['Small', 'Large'] },
+    'Label#1:0': { type: 'TEXT', defaultValue: 'Click' }
+  },
+  children: [sizeVariant('2:1', 'Small'), sizeVariant('2:2', 'Large')]
+} as FigmaNode;
+
+describe('instances', () => {
+  it('render as their main component, imported once', () => {
+    const [, { code }] = new DesignToCode({ framework: 'react', tailwind: false }).processDesign([
+      card,
+      page(instance('4:1', 'Card', '3:0', box(10, 10, 100, 50)), instance('4:2', 'Card wide', '3:0', box(10, 100, 300, 50)))
+    ]);
+
+    expect(code.match(/import Card from '\.\/Card';/g)).toHaveLength(1);
+    expect(code).toContain('<Card className={styles.pageCard} />');
+    expect(code).toContain('<Card className={styles.pageCardWide} />');
+  });
+
+  it('are placed in their parent, keeping only a size that differs from the main component\'s', () => {
+    const [, { files }] = new DesignToCode({ framework: 'react', tailwind: false }).processDesign([
+      card,
+      page(instance('4:1', 'Card', '3:0', box(10, 10, 100, 50)), instance('4:2', 'Card wide', '3:0', box(10, 100, 300, 50)))
+    ]);
+    const stylesheet = files.find(file => file.filename === 'Page.module.css')!.code;
+
+    expect(stylesheet).toMatch(/\.pageCard \{\s*position: absolute;\s*left: 10px;\s*top: 10px;\s*\}/);
+    expect(stylesheet).toMatch(/\.pageCardWide \{\s*width: 300px;\s*height: 50px;/);
+  });
+
+  it('pass the variant and the properties they set', () => {
+    const [, { code }] = new DesignToCode({ framework: 'react', tailwind: false }).processDesign([
+      button,
+      page(instance('4:1', 'Buy', '2:2', box(0, 0, 80, 40), {
+        componentProperties: {
+          'Size': { type: 'VARIANT', value: 'Large' },
+          'Label#1:0': { type: 'TEXT', value: 'Buy now' }
+        }
+      }))
+    ]);
+
+    expect(code).toContain("import Button from './Button';");
+    expect(code).toContain('<Button className={styles.pageBuy} size="Large" label="Buy now" />');
+  });
+
+  it('render their own layers when their main component isn\'t generated', () => {
+    const [{ code }] = new DesignToCode({ framework: 'vue', tailwind: false }).processDesign([
+      page(instance('4:3', 'Avatar', '9:9', box(200, 10, 32, 32), {
+        children: [{ id: '4:4', name: 'Initials', type: 'TEXT', characters: 'AB', absoluteBoundingBox: box(200, 10, 32, 32) } as FigmaNode]
+      }))
+    ]);
+
+    expect(code).toMatch(/<div class="avatar">\s*<p class="initials">\s*AB\s*<\/p>\s*<\/div>/);
+    expect(code).not.toMatch(/^import /m);
+  });
+});
@@ -0,0 +1,150 @@
+import { extractLayoutStyles } from '../layout';
+import type { FigmaNode } from '../index';
+
+function frame(props: Partial<FigmaNode>, children: FigmaNode[] = []): FigmaNode {
+  return {
+    id: '1:0',
+    name: 'Frame',
+    type: 'FRAME',
+    absoluteBoundingBox: { x: 0, y: 0, width: 400, height: 200 },
+    ...props,
+    children
+  } as FigmaNode;
+}
+
+describe('auto layout', () => {
+  it('lays out rows as flexbox with gap, padding and alignment', () => {
+    const row = frame({
+      layoutMode: 'HORIZONTAL',
+      itemSpacing: 8,
+      paddingTop: 16,
+      paddingBottom: 16,
+      paddingLeft: 24,
+      paddingRight: 24,
+      primaryAxisAlignItems: 'SPACE_BETWEEN',
+      counterAxisAlignItems: 'CENTER'
+    });
+
+    expect(extractLayoutStyles(row)).toEqual({
+      'width': '400px',
+      'height': '200px',
+      'display': 'flex',
+      'flex-direction': 'row',
+      'justify-content': 'space-between',
+      'align-items': 'center',
+      'padding': '16px 24px',
+      'box-sizing': 'border-box'
+    });
+  });
+
+  it('wraps with the counter axis spacing as the row gap', () => {
+    const css = extractLayoutStyles(frame({ layoutMode: 'HORIZONTAL', layoutWrap: 'WRAP', itemSpacing: 8, counterAxisSpacing: 12 }));
+
+    expect(css['flex-wrap']).toBe('wrap');
+    expect(css['gap']).toBe('12px 8px');
+  });
+
+  it('leaves out the size a frame hugs its content along', () => {
+    const css = extractLayoutStyles(frame({ layoutMode: 'VERTICAL', primaryAxisSizingMode: 'AUTO', counterAxisSizingMode: 'FIXED' }));
+
+    expect(css['width']).toBe('400px');
+    expect(css).not.toHaveProperty('height');
+    expect(css['flex-direction']).toBe('column');
+  });
+
+  it('grows children that fill the main axis and stretches those that fill the other', () => {
+    const child = frame({ id: '1:1', layoutGrow: 1, layoutAlign: 'STRETCH' });
+    const column = frame({ layoutMode: 'VERTICAL' }, [child]);
+
+    expect(extractLayoutStyles(child, column)).toEqual({
+      'flex': '1 1 0',
+      'min-height': '0',
+      'align-self': 'stretch'
+    });
+  });
+
+  it('keeps fixed-size children from shrinking', () => {
+    const child = frame({ id: '1:1', layoutSizingHorizontal: 'FIXED', layoutSizingVertical: 'FIXED' });
+    const row = frame({ layoutMode: 'HORIZONTAL' }, [child]);
+
+    expect(extractLayoutStyles(child, row)).toEqual({ 'width': '400px', 'height': '200px', 'flex-shrink': '0' });
+  });
+
+  it('lays out grids with their tracks and places children in cells', () => {
+    const cell = frame({ id: '1:1', layoutSizingHorizontal: 'FILL', layoutSizingVertical: 'HUG', gridColumnAnchorIndex: 1, gridColumnSpan: 2, gridRowAnchorIndex: 0 });
+    const grid = frame({ layoutMode: 'GRID', gridColumnCount: 3, gridRowCount: 2, gridRowGap: 16, gridColumnGap: 8 }, [cell]);
+
+    expect(extractLayoutStyles(grid)).toMatchObject({
+      'display': 'grid',
+      'grid-template-columns': 'repeat(3, minmax(0, 1fr))',
+      'grid-template-rows': 'repeat(2, auto)',
+      'gap': '16px 8px'
+    });
+    expect(extractLayoutStyles(cell, grid)).toEqual({ 'grid-column': '2 / span 2', 'grid-row': '1 / span 1' });
+  });
+});
+
+describe('constraints', () => {
+  const parent = frame({ absoluteBoundingBox: { x: 100, y: 100, width: 400, height: 200 } });
+
+  function placed(constraints: FigmaNode['constraints'], box = { x: 120, y: 130, width: 100, height: 40 }): Record<string, string> {
+    return extractLayoutStyles(frame({ id: '1:1', constraints, absoluteBoundingBox: box }), parent);
+  }
+
+  it('position children of frames without auto layout, and the frame relative to them', () => {
+    const child = frame({ id: '1:1', absoluteBoundingBox: { x: 120, y: 130, width: 100, height: 40 } });
+
+    expect(extractLayoutStyles({ ...parent, children: [child] })).toEqual({
+      'width': '400px',
+      'height': '200px',
+      'position': 'relative'
+    });
+    expect(placed({ horizontal: 'LEFT', vertical: 'TOP' })).toEqual({
+      'width': '100px',
+      'height': '40px',
+      'position': 'absolute',
+      'left': '20px',
+      'top': '30px'
+    });
+  });
+
+  it('anchor right and bottom constraints to those edges', () => {
+    expect(placed({ horizontal: 'RIGHT', vertical: 'BOTTOM' })).toMatchObject({ right: '280px', bottom: '130px' });
+  });
+
+  it('stretch between both edges without a fixed size', () => {
+    const css = placed({ horizontal: 'LEFT_RIGHT', vertical: 'TOP' });
+
+    expect(css).toMatchObject({ left: '20px', right: '280px' });
+    expect(css).not.toHaveProperty('width');
+  });
+
+  it('center on the parent, offset from its middle', () => {
+    expect(placed({ horizontal: 'CENTER', vertical: 'CENTER' }, { x: 250, y: 180, width: 100, height: 40 })).toMatchObject({
+      left: '50%',
+      top: '50%',
+      transform: 'translate(-50%, -50%)'
+    });
+    expect(placed({ horizontal: 'CENTER', vertical: 'TOP' })).toMatchObject({
+      left: 'calc(50% - 130px)',
+      transform: 'translateX(-50%)'
+    });
+  });
+
+  it('scale with the parent as percentages', () => {
+    expect(placed({ horizontal: 'SCALE', vertical: 'SCALE' })).toMatchObject({
+      left: '5%',
+      width: '25%',
+      top: '15%',
+      height: '20%'
+    });
+  });
+
+  it('apply to auto layout children positioned absolutely', () => {
+    const badge = frame({ id: '1:1', layoutPositioning: 'ABSOLUTE', constraints: { horizontal: 'RIGHT', vertical: 'TOP' }, absoluteBoundingBox: { x: 480, y: 90, width: 30, height: 20 } });
+    const row = frame({ layoutMode: 'HORIZONTAL', absoluteBoundingBox: { x: 100, y: 100, width: 400, height: 200 } }, [badge]);
+
+    expect(extractLayoutStyles(row)['position']).toBe('relative');
+    expect(extractLayoutStyles(badge, row)).toMatchObject({ position: 'absolute', right: '-10px', top: '-10px' });
+  });
+});
@@ -0,0 +1,133 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  extractKeepRegions,
+  hashContent,
+  keepRegion,
+  mergeKeepRegions,
+  planGeneratedFile,
+  planStaleFile,
+  stripKeepRegions
+} from '../manifest';
+
+/** A component with a keep region for hand-written logic */
+function component(body: string, logic = ''): string {
+  return [
+    'const Card = () => {',
+    '  // @d2c-keep logic',
+    `${logic}  // @d2c-keep end`,
+    `  return ${body};`,
+    '};',
+    ''
+  ].join('\n');
+}
+
+const hashOf = (code: string) => hashContent(stripKeepRegions(code));
+
+describe('keep regions', () => {
+  it('are read by name and emptied in the generated part', () => {
+    const code = component('<div />', '  const [open, setOpen] = useState(false);\n');
+
+    expect(extractKeepRegions(code)).toEqual({ logic: '  const [open, setOpen] = useState(false);\n' });
+    expect(stripKeepRegions(code)).toBe(component('<div />'));
+  });
+
+  it('are put back into new output', () => {
+    expect(mergeKeepRegions(component('<span />'), { logic: '  track();\n' })).toBe(component('<span />', '  track();\n'));
+  });
+
+  it('can\'t be merged when the new output drops a region with contents', () => {
+    expect(mergeKeepRegions('const Card = () => null;\n', { logic: '  track();\n' })).toBeNull();
+    expect(mergeKeepRegions('const Card = () => null;\n', { logic: '' })).toBe('const Card = () => null;\n');
+  });
+
+  it('are marked in the comment syntax of the file', () => {
+    expect(keepRegion('styles', '  ', 'css')).toBe('  /* @d2c-keep styles */\n  /* @d2c-keep end */');
+    expect(keepRegion('markup', '', 'html')).toBe('<!-- @d2c-keep markup -->\n<!-- @d2c-keep end -->');
+  });
+});
+
+describe('planGeneratedFile', () => {
+  let output: string;
+
+  beforeEach(async () => {
+    output = await fs.mkdtemp(path.join(os.tmpdir(), 'd2c-manifest-'));
+  });
+  afterEach(async () => {
+    await fs.rm(output, { recursive: true, force: true });
+  });
+
+  const existing = (content: string) => fs.writeFile(path.join(output, 'Card.tsx'), content);
+
+  it('creates missing files', async () => {
+    const code = component('<div />');
+    expect(await planGeneratedFile(output, 'Card.tsx', code, undefined)).toEqual({ status: 'created', hash: hashOf(code), content: code });
+  });
+
+  it('leaves files that match the output alone', async () => {
+    const code = component('<div />');
+    await existing(code);
+
+    expect(await planGeneratedFile(output, 'Card.tsx', code, hashOf(code))).toMatchObject({ status: 'unchanged', hash: hashOf(code) });
+  });
+
+  it('carries hand-written regions over into new output', async () => {
+    const previous = component('<div />');
+    await existing(component('<div />', '  track();\n'));
+    const plan = await planGeneratedFile(output, 'Card.tsx', component('<span />'), hashOf(previous));
+
+    expect(plan).toMatchObject({ status: 'merged', hash: hashOf(component('<span />')), content: component('<span />', '  track();\n') });
+  });
+
+  it('updates files with empty regions', async () => {
+    const previous = component('<div />');
+    await existing(previous);
+
+    expect(await planGeneratedFile(output, 'Card.tsx', component('<span />'), hashOf(previous))).toMatchObject({
+      status: 'updated',
+      content: component('<span />')
+    });
+  });
+
+  it('protects files edited outside their regions, keeping their old hash', async () => {
+    const previous = component('<div />');
+    await existing(component('<div className="mine" />'));
+    const plan = await planGeneratedFile(output, 'Card.tsx', component('<span />'), hashOf(previous));
+
+    expect(plan).toEqual({ status: 'protected', hash: hashOf(previous), existing: component('<div className="mine" />') });
+  });
+
+  it('overwrites edited files with force, still keeping their regions', async () => {
+    await existing(component('<div className="mine" />', '  track();\n'));
+    const plan = await planGeneratedFile(output, 'Card.tsx', component('<span />'), hashOf(component('<div />')), true);
+
+    expect(plan).toMatchObject({ status: 'merged', content: component('<span />', '  track();\n') });
+  });
+
+  it('protects files whose regions the new output has no place for', async () => {
+    const previous = component('<div />');
+    await existing(component('<div />', '  track();\n'));
+
+    expect(await planGeneratedFile(output, 'Card.tsx', 'export {};\n', hashOf(previous))).toMatchObject({ status: 'protected' });
+  });
+
+  it('treats files it has no record of as edited unless they match the output', async () => {
+    await existing(component('<div />'));
+
+    expect(await planGeneratedFile(output, 'Card.tsx', component('<div />'), undefined)).toMatchObject({ status: 'unchanged' });
+    expect(await planGeneratedFile(output, 'Card.tsx', component('<span />'), undefined)).toMatchObject({ status: 'protected' });
+  });
+
+  it('deletes stale files only when they have no hand edits', async () => {
+    const previous = component('<div />');
+    await existing(previous);
+    expect(await planStaleFile(output, 'Card.tsx', hashOf(previous))).toEqual({ status: 'deleted', existing: previous });
+
+    await existing(component('<div />', '  track();\n'));
+    expect(await planStaleFile(output, 'Card.tsx', hashOf(previous))).toMatchObject({ status: 'protected' });
+    expect(await planStaleFile(output, 'Card.tsx', hashOf(previous), true)).toMatchObject({ status: 'deleted' });
+
+    expect(await planStaleFile(output, 'Gone.tsx', hashOf(previous))).toBeUndefined();
+  });
+});
@@ -0,0 +1,102 @@
+import DesignToCode, { componentNaming, FigmaNode, pascalCase } from '../index';
+
+function frame(id: string, name: string): FigmaNode {
+  return {
+    id,
+    name,
+    type: 'FRAME',
+    absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 40 },
+    children: []
+  } as FigmaNode;
+}
+
+describe('reserved files', () => {
+  it('suffixes a component whose file another export generates, and reports it', () => {
+    const card = frame('1:1', 'Card');
+    const converter = new DesignToCode({ reservedFiles: ['Card.tsx'] });
+    const [generated] = converter.processDesign([card]);
+
+    expect(generated.filename).toBe('Card2.tsx');
+    expect(generated.code).toContain('Card2');
+    expect(converter.nameCollisions).toEqual([{ node: card, requested: 'Card', name: 'Card2' }]);
+  });
+
+  it('matches reserved files regardless of case', () => {
+    const converter = new DesignToCode({ fileNaming: 'kebab-case', reservedFiles: ['Login-Card.tsx'] });
+    expect(converter.componentFile(frame('1:1', 'Login Card'))).toEqual({ name: 'LoginCard2', filename: 'login-card2.tsx' });
+  });
+
+  it('leaves other names alone', () => {
+    const converter = new DesignToCode({ reservedFiles: ['Card.tsx'] });
+    expect(converter.componentFile(frame('1:1', 'Button'))).toEqual({ name: 'Button', filename: 'Button.tsx' });
+    expect(converter.nameCollisions).toEqual([]);
+  });
+});
+
+describe('component names', () => {
+  const naming = () => componentNaming({ layout: 'flat', files: 'PascalCase', extension: 'tsx' });
+
+  it('are PascalCase words of the layer name', () => {
+    expect(pascalCase('login card')).toBe('LoginCard');
+    expect(pascalCase('iOS app')).toBe('IOSApp');
+    expect(pascalCase('Café menu')).toBe('CafeMenu');
+  });
+
+  it('suffix a later node whose name is taken, and report it', () => {
+    const names = naming();
+    const first = frame('1:1', 'Card');
+    const second = frame('1:2', 'card');
+
+    expect(names.component(first)).toEqual({ name: 'Card', filename: 'Card.tsx' });
+    expect(names.component(second)).toEqual({ name: 'Card2', filename: 'Card2.tsx' });
+    expect(names.component(frame('1:3', 'Card'))).toEqual({ name: 'Card3', filename: 'Card3.tsx' });
+    expect(names.collisions.map(({ node, requested, name }) => [node.id, requested, name])).toEqual([
+      ['1:2', 'Card', 'Card2'],
+      ['1:3', 'Card', 'Card3']
+    ]);
+  });
+
+  it('stay the same when a node is asked for again', () => {
+    const names = naming();
+    const card = frame('1:1', 'Card');
+
+    expect(names.component(card)).toBe(names.component(card));
+    expect(names.collisions).toEqual([]);
+  });
+
+  it('start with a letter', () => {
+    expect(naming().component(frame('1:1', '1 Column'))).toEqual({ name: 'Component1Column', filename: 'Component1Column.tsx' });
+  });
+
+  it('don\'t shadow identifiers generated code uses', () => {
+    const names = naming();
+    expect(names.component(frame('1:1', 'String'))).toEqual({ name: 'StringComponent', filename: 'StringComponent.tsx' });
+    expect(names.component(frame('1:2', 'props'))).toEqual({ name: 'PropsComponent', filename: 'PropsComponent.tsx' });
+  });
+
+  it('fall back to Unnamed for names without letters or digits', () => {
+    expect(naming().component(frame('1:1', '—')).name).toBe('Unnamed');
+  });
+});
+
+describe('slash-separated names', () => {
+  it('nest files in a directory per part, naming the component after every part', () => {
+    const names = componentNaming({ layout: 'flat', files: 'PascalCase', extension: 'tsx' });
+    expect(names.component(frame('1:1', 'Button/Primary/Large'))).toEqual({ name: 'ButtonPrimaryLarge', filename: 'button/primary/Large.tsx' });
+    expect(names.component(frame('1:2', 'Form Field / Text Input'))).toEqual({ name: 'FormFieldTextInput', filename: 'form-field/TextInput.tsx' });
+  });
+
+  it('suffix the file when two nodes share a path', () => {
+    const names = componentNaming({ layout: 'flat', files: 'PascalCase', extension: 'tsx' });
+    names.component(frame('1:1', 'Button/Primary'));
+    expect(names.component(frame('1:2', 'Button/Primary'))).toEqual({ name: 'ButtonPrimary2', filename: 'button/Primary2.tsx' });
+  });
+
+  it('follow the file naming and layout', () => {
+    const names = componentNaming({ layout: 'folders', files: 'kebab-case', extension: 'vue' });
+    expect(names.component(frame('1:1', 'Button/Primary Large'))).toEqual({
+      name: 'ButtonPrimaryLarge',
+      filename: 'button/primary-large/primary-large.vue'
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+const box = (width: number, height: number) => ({ x: 0, y: 0, width, height });
+
+/** A card with a nested header, a hidden note and a divider */
+const card: FigmaNode = {
+  id: '1:0',
+  name: 'Card',
+  type: 'FRAME',
+  absoluteBoundingBox: box(300, 200),
+  children: [
+    {
+      id: '1:1',
+      name: 'Header',
+      type: 'FRAME',
+      absoluteBoundingBox: box(300, 40),
+      children: [
+        { id: '1:2', name: 'Title', type: 'TEXT', characters: 'Terms & <conditions>', style: { fontSize: 16 }, absoluteBoundingBox: box(200, 20) },
+        {
+          id: '1:3',
+          name: 'Check',
+          type: 'VECTOR',
+          fillGeometry: [{ path: 'M0 0L10 10', windingRule: 'EVENODD' }],
+          fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0, a: 1 } }],
+          absoluteBoundingBox: box(10, 10)
+        }
+      ]
+    },
+    { id: '1:4', name: 'Draft note', type: 'TEXT', visible: false, characters: 'Hidden', absoluteBoundingBox: box(100, 20) },
+    { id: '1:5', name: 'Divider', type: 'RECTANGLE', absoluteBoundingBox: box(300, 1) }
+  ]
+} as FigmaNode;
+
+/** Lines of the generated markup, without their indentation */
+function markup(framework: 'react' | 'vue'): string[] {
+  const [{ code }] = new DesignToCode({ framework, tailwind: false }).processDesign([card]);
+  return code.split('\n').map(line => line.trim());
+}
+
+describe('node trees', () => {
+  it('render every visible layer, nested as in Figma', () => {
+    const lines = markup('react');
+    const header = lines.indexOf('<div className={styles.header}>');
+
+    expect(header).toBeGreaterThan(-1);
+    expect(lines.slice(header + 1, header + 8)).toEqual([
+      '<p className={styles.title}>',
+      '{"Terms & <conditions>"}',
+      '</p>',
+      '<svg className={styles.check} viewBox="0 0 10 10" fill="none" xmlns="http://www.w3.org/2000/svg">',
+      '<path d="M0 0L10 10" fill="#000000" fillRule="evenodd" clipRule="evenodd" />',
+      '</svg>',
+      '</div>'
+    ]);
+    expect(lines[header + 8]).toBe('<div className={styles.divider} />');
+  });
+
+  it('leave hidden layers out', () => {
+    expect(markup('react').join('\n')).not.toContain('Hidden');
+  });
+
+  it('escape text for the framework\'s markup', () => {
+    expect(markup('vue')).toContain('Terms &amp; &lt;conditions&gt;');
+  });
+
+  it('style each layer', () => {
+    const [{ files }] = new DesignToCode({ tailwind: false }).processDesign([card]);
+    const stylesheet = files.find(file => file.filename === 'Card.module.css')!.code;
+
+    expect(stylesheet).toMatch(/\.header \{[^}]*width: 300px;[^}]*height: 40px;/);
+    expect(stylesheet).toMatch(/\.title \{[^}]*font-size: 16px;/);
+    expect(stylesheet).toMatch(/\.divider \{[^}]*height: 1px;/);
+  });
+});
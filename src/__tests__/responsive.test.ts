@@ -0,0 +1,129 @@
+import DesignToCode, { collectComponentRoots, FigmaNode, groupBreakpoints, unmatchedLayers } from '../index';
+import { generateStylesheet } from '../stylesheet';
+
+function node(id: string, name: string, type: string, width: number, children: FigmaNode[] = []): FigmaNode {
+  return { id, name, type, absoluteBoundingBox: { x: 0, y: 0, width, height: 40 }, children } as FigmaNode;
+}
+
+function text(id: string, characters: string, width: number, fontSize: number): FigmaNode {
+  return { ...node(id, 'Title', 'TEXT', width), characters, style: { fontSize } } as FigmaNode;
+}
+
+/** A home screen at two widths, with a menu on mobile and a nav on desktop, and an about screen at one */
+const screens = node('0:1', 'Screens', 'CANVAS', 0, [
+  node('1:0', 'Home / Mobile', 'FRAME', 375, [
+    text('1:1', 'Welcome', 375, 24),
+    node('1:2', 'Menu', 'RECTANGLE', 40),
+    node('1:3', 'Footer', 'FRAME', 375)
+  ]),
+  node('2:0', 'Home / Desktop', 'FRAME', 1440, [
+    node('2:4', 'Nav', 'RECTANGLE', 600),
+    text('2:1', 'Welcome', 1440, 48),
+    node('2:3', 'Footer', 'FRAME', 1440)
+  ]),
+  node('3:0', 'About / Mobile', 'FRAME', 375)
+]);
+const document = node('0:0', 'Document', 'DOCUMENT', 0, [screens]);
+
+const [home] = collectComponentRoots(document);
+
+describe('groupBreakpoints', () => {
+  it('makes one component of the frames of a screen, narrowest first', () => {
+    const roots = collectComponentRoots(document);
+
+    expect(roots.map(root => [root.id, root.name])).toEqual([['1:0', 'Home'], ['1:3', 'Footer'], ['3:0', 'About / Mobile']]);
+    expect(home.breakpointFrames!.map(({ breakpoint, node }) => [breakpoint.name, breakpoint.minWidth, node.id])).toEqual([
+      ['Mobile', 0, '1:0'],
+      ['Desktop', 1024, '2:0']
+    ]);
+    // Frames in both frames of the screen are grouped too
+    expect(roots[1].breakpointFrames!.map(frame => frame.node.id)).toEqual(['1:3', '2:3']);
+  });
+
+  it('leaves the frames alone when responsive is off', () => {
+    expect(collectComponentRoots(document, { responsive: false }).map(root => root.id)).toEqual(['1:0', '1:3', '2:0', '2:3', '3:0']);
+  });
+
+  it('takes the breakpoints and frame name pattern from the options', () => {
+    const frames = [node('1:0', 'Small - Home', 'FRAME', 375), node('2:0', 'Large - Home', 'FRAME', 1440)];
+    const [grouped] = groupBreakpoints(frames, { breakpoints: { Small: 0, Large: 900 }, pattern: '{breakpoint} - {name}' });
+
+    expect(grouped.name).toBe('Home');
+    expect(grouped.breakpointFrames!.map(frame => [frame.breakpoint.name, frame.breakpoint.minWidth])).toEqual([['Small', 0], ['Large', 900]]);
+    expect(groupBreakpoints(frames)).toEqual(frames);
+  });
+});
+
+describe('unmatchedLayers', () => {
+  it('lists the layers only some frames of a screen have', () => {
+    expect(unmatchedLayers(home).map(({ node, present, missing }) => [node.id, present, missing])).toEqual([
+      ['2:4', ['Desktop'], ['Mobile']],
+      ['1:2', ['Mobile'], ['Desktop']]
+    ]);
+    expect(unmatchedLayers(node('3:0', 'About', 'FRAME', 375))).toEqual([]);
+  });
+});
+
+describe('responsive components', () => {
+  it('style the narrowest frame and add what wider ones change in media queries', () => {
+    const [{ code, files }] = new DesignToCode({ tailwind: false }).processDesign([home]);
+    const stylesheet = files.find(file => file.filename === 'Home.module.css')!.code;
+
+    expect(code).toContain('const Home: React.FC<Props>');
+    expect(code.indexOf('styles.nav')).toBeLessThan(code.indexOf('styles.title'));
+    expect(code.indexOf('styles.title')).toBeLessThan(code.indexOf('styles.menu'));
+    expect(stylesheet).toMatch(/\.home \{\n {2}width: 100%;/);
+    expect(stylesheet).toMatch(/\.nav \{[^}]*display: none;/);
+    expect(stylesheet).toMatch(/\.title \{[^}]*font-size: 24px;/);
+    expect(stylesheet).toContain([
+      '@media (min-width: 1024px) {',
+      '  .nav {',
+      '    display: revert;',
+      '  }',
+      '',
+      '  .title {',
+      '    font-size: 48px;',
+      '  }',
+      '',
+      '  .menu {',
+      '    display: none;',
+      '  }'
+    ].join('\n'));
+  });
+
+  it('use breakpoint prefixes with Tailwind', () => {
+    const [{ code }] = new DesignToCode({ tailwind: true }).processDesign([home]);
+
+    expect(code).toMatch(/className="[^"]* hidden lg:\[display:revert\]"/);
+    expect(code).toMatch(/className="[^"]* text-2xl [^"]*lg:text-5xl"/);
+    expect(code).toMatch(/className="[^"]* lg:hidden"/);
+  });
+});
+
+describe('media queries', () => {
+  it('put breakpoint rules in media queries after the others, narrowest first', () => {
+    const css = generateStylesheet([
+      { className: 'card', selector: '.card', declarations: { width: '100%' } },
+      { className: 'card', selector: '.card', declarations: { width: '960px' }, minWidth: 1024 },
+      { className: 'card', selector: '.card', declarations: { width: '720px' }, minWidth: 768 }
+    ]);
+
+    expect(css).toBe([
+      '.card {',
+      '  width: 100%;',
+      '}',
+      '',
+      '@media (min-width: 768px) {',
+      '  .card {',
+      '    width: 720px;',
+      '  }',
+      '}',
+      '',
+      '@media (min-width: 1024px) {',
+      '  .card {',
+      '    width: 960px;',
+      '  }',
+      '}'
+    ].join('\n'));
+  });
+});
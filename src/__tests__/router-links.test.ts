@@ -0,0 +1,79 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+const box = { x: 0, y: 0, width: 200, height: 40 };
+
+const about: FigmaNode = { id: '2:0', name: 'About', type: 'FRAME', absoluteBoundingBox: box, children: [] } as FigmaNode;
+
+/** A screen whose `Docs` layer navigates to the About screen and `Site` layer opens a URL */
+const home: FigmaNode = {
+  id: '1:0',
+  name: 'Home',
+  type: 'FRAME',
+  absoluteBoundingBox: box,
+  children: [
+    {
+      id: '1:1',
+      name: 'Docs',
+      type: 'FRAME',
+      absoluteBoundingBox: box,
+      interactions: [{
+        trigger: { type: 'ON_CLICK' },
+        actions: [{ type: 'NODE', destinationId: '2:0', navigation: 'NAVIGATE' }]
+      }],
+      children: []
+    },
+    {
+      id: '1:2',
+      name: 'Site',
+      type: 'FRAME',
+      absoluteBoundingBox: box,
+      interactions: [{ trigger: { type: 'ON_CLICK' }, actions: [{ type: 'URL', url: 'https://example.com' }] }],
+      children: []
+    }
+  ]
+} as FigmaNode;
+
+function generate(config: ConstructorParameters<typeof DesignToCode>[0]) {
+  const converter = new DesignToCode({ routes: { '1:0': '/', '2:0': '/about' }, ...config });
+  return converter.processDesign([home, about])[0];
+}
+
+describe('links between routes', () => {
+  it('are plain links without a router', () => {
+    const { code } = generate({});
+    expect(code).toContain('href="/about"');
+    expect(code).not.toContain('Link');
+  });
+
+  it('use react-router\'s Link, and render inside a router in tests', () => {
+    const { code, files } = generate({ router: 'react-router', tests: true });
+    expect(code).toContain("import { Link } from 'react-router-dom';");
+    expect(code).toMatch(/<Link [^>]*to="\/about"/);
+    // Links to URLs stay plain links
+    expect(code).toContain('href="https://example.com"');
+
+    const test = files.find(file => file.filename === 'Home.test.tsx')!;
+    expect(test.code).toContain("import { MemoryRouter } from 'react-router-dom';");
+    expect(test.code).toContain('render(<MemoryRouter><Home /></MemoryRouter>)');
+  });
+
+  it('use next/link with --router next', () => {
+    const { code } = generate({ router: 'next' });
+    expect(code).toContain("import Link from 'next/link';");
+    expect(code).toMatch(/<Link [^>]*href="\/about"/);
+  });
+
+  it('use Vue\'s globally registered RouterLink, stubbed in tests', () => {
+    const { code, files } = generate({ framework: 'vue', router: 'vue-router', tests: true });
+    expect(code).toMatch(/<RouterLink [^>]*to="\/about"/);
+    expect(code).not.toContain("from 'vue-router'");
+
+    const test = files.find(file => file.filename === 'Home.test.ts')!;
+    expect(test.code).toContain('render(Home, { global: { stubs: { RouterLink: RouterLinkStub } } })');
+  });
+
+  it('leave SvelteKit links as anchors', () => {
+    const { code } = generate({ framework: 'svelte', router: 'sveltekit' });
+    expect(code).toContain('href="/about"');
+  });
+});
@@ -0,0 +1,89 @@
+import DesignToCode, { collectComponentRoots, FigmaNode, nodePaths, skippedNodes } from '../index';
+
+function node(id: string, name: string, type: string, children: FigmaNode[] = []): FigmaNode {
+  return { id, name, type, absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 40 }, children } as FigmaNode;
+}
+
+/** Two pages of frames and components, with a logo group and an instance */
+const document = node('0:0', 'Document', 'DOCUMENT', [
+  node('0:1', 'Screens', 'CANVAS', [
+    node('1:1', 'Login', 'FRAME', [
+      node('1:2', 'Logo', 'GROUP', [node('1:3', 'Mark', 'RECTANGLE')]),
+      node('1:4', 'Submit', 'INSTANCE', [node('1:5', 'Inner', 'FRAME')])
+    ]),
+    node('1:6', 'Signup', 'FRAME'),
+    node('1:7', 'Draft Login', 'FRAME')
+  ]),
+  node('0:2', 'Components', 'CANVAS', [
+    node('2:1', 'Button', 'COMPONENT_SET', [node('2:2', 'Size=Small', 'COMPONENT'), node('2:3', 'Size=Large', 'COMPONENT')]),
+    node('2:4', 'Card', 'COMPONENT')
+  ])
+]);
+
+const ids = (nodes: FigmaNode[]) => nodes.map(n => n.id);
+
+describe('collectComponentRoots', () => {
+  it('takes frames, components and component sets, but not variants or instance layers', () => {
+    expect(ids(collectComponentRoots(document))).toEqual(['1:1', '1:6', '1:7', '2:1', '2:4']);
+  });
+
+  it('keeps only what the include filters match', () => {
+    expect(ids(collectComponentRoots(document, { include: ['*Login'] }))).toEqual(['1:1', '1:7']);
+    expect(ids(collectComponentRoots(document, { include: [{ page: 'Components' }] }))).toEqual(['2:1', '2:4']);
+    expect(ids(collectComponentRoots(document, { include: [{ type: 'COMPONENT' }, 'Sign?p'] }))).toEqual(['1:6', '2:4']);
+  });
+
+  it('leaves out what the exclude filters match, over the include filters', () => {
+    expect(ids(collectComponentRoots(document, { include: ['*Login'], exclude: ['Draft *'] }))).toEqual(['1:1']);
+  });
+
+  it('skips nodes and their layers by override, by id or name', () => {
+    expect(ids(collectComponentRoots(document, { overrides: { 'Screens': { skip: true } } }))).toEqual(['2:1', '2:4']);
+    expect(ids(collectComponentRoots(document, { overrides: { '2:4': { skip: true } } }))).toEqual(['1:1', '1:6', '1:7', '2:1']);
+  });
+
+  it('takes other layers marked as components', () => {
+    expect(ids(collectComponentRoots(document, { overrides: { Logo: { component: true } } }))).toEqual(['1:1', '1:2', '1:6', '1:7', '2:1', '2:4']);
+  });
+});
+
+describe('skippedNodes', () => {
+  it('gives the reason each node was left out', () => {
+    const skipped = skippedNodes(document, { include: [{ page: 'Screens' }], exclude: ['Draft *'], overrides: { Signup: { skip: true } } });
+
+    expect(skipped.map(({ node, reason }) => [node.id, reason])).toEqual([
+      ['1:6', 'override'],
+      ['1:7', 'excluded'],
+      ['2:1', 'not-included'],
+      ['2:4', 'not-included']
+    ]);
+  });
+});
+
+describe('nodePaths', () => {
+  it('lists the pages and layers above each node', () => {
+    const paths = nodePaths(document);
+
+    expect(paths.get('1:3')).toEqual(['Screens', 'Login', 'Logo']);
+    expect(paths.get('2:1')).toEqual(['Components']);
+    expect(paths.has('1:5')).toBe(false);
+  });
+});
+
+describe('overrides', () => {
+  it('rename components and change their elements, by id over name', () => {
+    const login = node('1:1', 'Login', 'FRAME', [node('1:2', 'Body', 'FRAME', [node('1:3', 'Mark', 'RECTANGLE')])]);
+    const [component] = new DesignToCode({
+      tailwind: false,
+      overrides: {
+        'Login': { name: 'LoginScreen' },
+        '1:1': { name: 'SignInScreen' },
+        'Body': { element: 'section' }
+      }
+    }).processDesign([login]);
+
+    expect(component.filename).toBe('SignInScreen.tsx');
+    expect(component.code).toContain('const SignInScreen: React.FC<Props>');
+    expect(component.code).toContain('<section className={styles.body}>');
+  });
+});
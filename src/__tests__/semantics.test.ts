@@ -0,0 +1,37 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+const box = { x: 0, y: 0, width: 120, height: 40 };
+
+/** A button whose label and icon sit in a row frame */
+const button: FigmaNode = {
+  id: '1:0',
+  name: 'Button',
+  type: 'FRAME',
+  absoluteBoundingBox: box,
+  children: [
+    {
+      id: '1:1',
+      name: 'Content',
+      type: 'FRAME',
+      layoutMode: 'HORIZONTAL',
+      absoluteBoundingBox: box,
+      children: [
+        { id: '1:2', name: 'Icon box', type: 'FRAME', absoluteBoundingBox: { x: 0, y: 0, width: 16, height: 16 }, children: [] },
+        { id: '1:3', name: 'Label', type: 'TEXT', characters: 'Save', style: { fontSize: 14 }, absoluteBoundingBox: box }
+      ]
+    }
+  ]
+} as FigmaNode;
+
+describe('buttons', () => {
+  it('hold spans rather than divs, block-level unless laid out', () => {
+    const [{ code }] = new DesignToCode({ tailwind: true }).processDesign([button]);
+
+    expect(code).toMatch(/<button[^>]*type="button"/);
+    expect(code).not.toContain('<div');
+    expect(code).not.toContain('<p');
+    // The auto layout frame keeps its flex display; the plain frame is made a block
+    expect(code).toMatch(/<span className="[^"]*\bflex\b[^"]*"/);
+    expect(code).toMatch(/<span className="block [^"]*w-\[16px\]/);
+  });
+});
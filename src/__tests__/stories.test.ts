@@ -0,0 +1,108 @@
+import DesignToCode, { FigmaNode, storyTitle } from '../index';
+
+function sizeVariant(id: string, size: string): FigmaNode {
+  return {
+    id,
+    name: `Size=${size}, State=Hover`,
+    type: 'COMPONENT',
+    absoluteBoundingBox: { x: 0, y: 0, width: 80, height: 40 },
+    children: [
+      {
+        id: `${id}:label`,
+        name: 'Label',
+        type: 'TEXT',
+        characters: 'Click',
+        componentPropertyReferences: { characters: 'Label#1:0' },
+        absoluteBoundingBox: { x: 0, y: 0, width: 80, height: 40 }
+      }
+    ]
+  } as FigmaNode;
+}
+
+/** A button in two sizes with a text property */
+const button = {
+  id: '2:0',
+  name: 'Button',
+  type: 'COMPONENT_SET',
+  componentPropertyDefinitions: {
+    'Size': { type: 'VARIANT', defaultValue: 'sm', variantOptions: ['sm', 'lg'] },
+    'State': { type: 'VARIANT', defaultValue: 'Hover', variantOptions: ['Hover'] },
+    'Label#1:0': { type: 'TEXT', defaultValue: 'Click' }
+  },
+  children: [sizeVariant('2:1', 'sm'), sizeVariant('2:2', 'lg')]
+} as FigmaNode;
+
+const card = { id: '3:0', name: 'Cards/Card', type: 'FRAME', absoluteBoundingBox: { x: 0, y: 0, width: 80, height: 40 }, children: [] } as FigmaNode;
+
+function storyFiles(config: ConstructorParameters<typeof DesignToCode>[0] = {}): Record<string, string> {
+  const converter = new DesignToCode({
+    stories: true,
+    nodePaths: new Map([['2:0', ['Components']], ['3:0', ['Screens']]]),
+    ...config
+  });
+  const files = converter.processDesign([button, card]).flatMap(component => component.files);
+  return Object.fromEntries(files.filter(file => file.filename.includes('.stories.')).map(file => [file.filename, file.code]));
+}
+
+describe('stories', () => {
+  it('are titled by the page and name, and link to the Figma node', () => {
+    const files = storyFiles({ fileKey: 'AbC123' });
+
+    expect(Object.keys(files)).toEqual(['Button.stories.tsx', 'cards/Card.stories.tsx']);
+    expect(files['Button.stories.tsx']).toContain("title: 'Components/Button',");
+    expect(files['Button.stories.tsx']).toContain("design: { type: 'figma', url: 'https://www.figma.com/design/AbC123/?node-id=2-0' }");
+    expect(files['cards/Card.stories.tsx']).toContain("title: 'Screens/Cards/Card',");
+  });
+
+  it('fall back to the node id without a file key', () => {
+    expect(storyFiles()['Button.stories.tsx']).toContain("design: { type: 'figma', nodeId: '2:0' }");
+  });
+
+  it('get controls and default args from the component properties', () => {
+    const code = storyFiles()['Button.stories.tsx'];
+
+    expect(code).toContain([
+      '  argTypes: {',
+      "    size: { control: 'select', options: ['sm', 'lg'] },",
+      "    state: { control: 'select', options: ['Hover'] },",
+      "    label: { control: 'text' }",
+      '  },',
+      '  args: {',
+      "    size: 'sm',",
+      "    state: 'Hover',",
+      "    label: 'Click'",
+      '  }'
+    ].join('\n'));
+    expect(code).toContain('} satisfies Meta<typeof Button>;');
+  });
+
+  it('have one story per variant, or a default one', () => {
+    const files = storyFiles();
+
+    expect(files['Button.stories.tsx']).toContain("export const SmHover: Story = {\n  args: {\n    size: 'sm',\n    state: 'Hover'\n  }\n};");
+    expect(files['Button.stories.tsx']).toContain('export const LgHover: Story = {');
+    expect(files['cards/Card.stories.tsx']).toContain('export const Default: Story = {};');
+  });
+
+  it('aren\'t written for targets without Storybook support', () => {
+    expect(storyFiles({ framework: 'html' })).toEqual({});
+  });
+});
+
+describe('storyTitle', () => {
+  it('joins the path and the slash-separated name', () => {
+    expect(storyTitle(['Components', 'Buttons'], 'Button/Primary')).toBe('Components/Buttons/Button/Primary');
+    expect(storyTitle([], 'Card')).toBe('Card');
+  });
+});
+
+describe('story preview', () => {
+  it('imports the tokens\' stylesheet when tokens are generated', () => {
+    expect(new DesignToCode({}).generateStoryPreview()?.code).not.toContain('tokens.css');
+    expect(new DesignToCode({ tokens: { tokens: [] } }).generateStoryPreview()?.code).toContain("import './tokens.css';");
+  });
+
+  it('is left out for targets without Storybook support', () => {
+    expect(new DesignToCode({ framework: 'html' }).generateStoryPreview()).toBeUndefined();
+  });
+});
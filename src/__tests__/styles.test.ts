@@ -0,0 +1,118 @@
+import { extractStyles } from '../styles';
+import type { FigmaNode } from '../index';
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+const blue = { r: 0, g: 0, b: 1, a: 1 };
+
+function rectangle(props: Partial<FigmaNode>): FigmaNode {
+  return {
+    id: '1:0',
+    name: 'Box',
+    type: 'RECTANGLE',
+    absoluteBoundingBox: { x: 0, y: 0, width: 100, height: 100 },
+    ...props
+  } as FigmaNode;
+}
+
+describe('fills', () => {
+  it('stack as backgrounds, with a solid bottom fill as the background color', () => {
+    const css = extractStyles(rectangle({
+      fills: [
+        { type: 'SOLID', color: { r: 1, g: 1, b: 1, a: 1 } },
+        {
+          type: 'GRADIENT_LINEAR',
+          gradientHandlePositions: [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0, y: 1 }],
+          gradientStops: [{ position: 0, color: red }, { position: 1, color: blue }]
+        },
+        { type: 'SOLID', visible: false, color: red }
+      ]
+    }));
+
+    expect(css['background-color']).toBe('#FFFFFF');
+    expect(css['background-image']).toBe('linear-gradient(90deg, #FF0000 0%, #0000FF 100%)');
+  });
+
+  it('keep the paint\'s opacity in the color', () => {
+    expect(extractStyles(rectangle({ fills: [{ type: 'SOLID', color: red, opacity: 0.5 }] }))['background-color']).toBe('rgba(255, 0, 0, 0.5)');
+  });
+
+  it('draw radial gradients from their center handle', () => {
+    const css = extractStyles(rectangle({
+      fills: [{
+        type: 'GRADIENT_RADIAL',
+        gradientHandlePositions: [{ x: 0.5, y: 0.5 }, { x: 1, y: 0.5 }, { x: 0.5, y: 1 }],
+        gradientStops: [{ position: 0, color: red }, { position: 1, color: blue }]
+      }]
+    }));
+
+    expect(css['background-image']).toBe('radial-gradient(ellipse 50% 50% at 50% 50%, #FF0000 0%, #0000FF 100%)');
+  });
+});
+
+describe('corners', () => {
+  it('round each corner on its own when they differ', () => {
+    expect(extractStyles(rectangle({ rectangleCornerRadii: [8, 8, 0, 0] }))['border-radius']).toBe('8px 8px 0px 0px');
+    expect(extractStyles(rectangle({ cornerRadius: 12 }))['border-radius']).toBe('12px');
+  });
+
+  it('make ellipses round', () => {
+    expect(extractStyles(rectangle({ type: 'ELLIPSE' }))['border-radius']).toBe('50%');
+  });
+});
+
+describe('strokes', () => {
+  it('draw inside strokes as an inset shadow, before the drop shadows', () => {
+    const css = extractStyles(rectangle({
+      strokes: [{ type: 'SOLID', color: red }],
+      strokeWeight: 2,
+      strokeAlign: 'INSIDE',
+      effects: [{ type: 'DROP_SHADOW', color: { r: 0, g: 0, b: 0, a: 0.25 }, offset: { x: 0, y: 4 }, radius: 8 }]
+    }));
+
+    expect(css['box-shadow']).toBe('inset 0 0 0 2px #FF0000, 0px 4px 8px 0px rgba(0, 0, 0, 0.25)');
+    expect(css).not.toHaveProperty('border-width');
+  });
+
+  it('draw outside and center strokes as an outline', () => {
+    expect(extractStyles(rectangle({ strokes: [{ type: 'SOLID', color: red }], strokeWeight: 2, strokeAlign: 'OUTSIDE' }))).toMatchObject({
+      'outline': '2px solid #FF0000'
+    });
+    expect(extractStyles(rectangle({ strokes: [{ type: 'SOLID', color: red }], strokeWeight: 2, strokeAlign: 'CENTER' }))).toMatchObject({
+      'outline': '2px solid #FF0000',
+      'outline-offset': '-1px'
+    });
+  });
+
+  it('draw dashed strokes and per-side weights as a border', () => {
+    expect(extractStyles(rectangle({ strokes: [{ type: 'SOLID', color: red }], strokeWeight: 1, strokeDashes: [4, 4] }))).toMatchObject({
+      'border-width': '1px',
+      'border-style': 'dashed',
+      'border-color': '#FF0000',
+      'box-sizing': 'border-box'
+    });
+    expect(extractStyles(rectangle({
+      strokes: [{ type: 'SOLID', color: red }],
+      individualStrokeWeights: { top: 0, right: 0, bottom: 1, left: 0 }
+    }))['border-width']).toBe('0px 0px 1px 0px');
+  });
+});
+
+describe('effects', () => {
+  it('halve Figma blur radii', () => {
+    expect(extractStyles(rectangle({
+      effects: [{ type: 'LAYER_BLUR', radius: 8 }, { type: 'BACKGROUND_BLUR', radius: 20 }]
+    }))).toMatchObject({ 'filter': 'blur(4px)', 'backdrop-filter': 'blur(10px)' });
+  });
+
+  it('skip hidden effects', () => {
+    expect(extractStyles(rectangle({ effects: [{ type: 'DROP_SHADOW', visible: false, radius: 4 }] }))).not.toHaveProperty('box-shadow');
+  });
+
+  it('apply layer opacity and blend mode', () => {
+    expect(extractStyles(rectangle({ opacity: 0.456, blendMode: 'MULTIPLY' }))).toMatchObject({
+      'opacity': '0.46',
+      'mix-blend-mode': 'multiply'
+    });
+    expect(extractStyles(rectangle({ blendMode: 'PASS_THROUGH' }))).not.toHaveProperty('mix-blend-mode');
+  });
+});
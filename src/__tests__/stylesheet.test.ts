@@ -0,0 +1,41 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+const box = (width: number, height: number) => ({ x: 0, y: 0, width, height });
+
+/** Two layers named alike and one whose name starts with a digit */
+const loginCard: FigmaNode = {
+  id: '1:0',
+  name: 'Login Card',
+  type: 'FRAME',
+  absoluteBoundingBox: box(300, 200),
+  children: [
+    { id: '1:1', name: 'Title', type: 'TEXT', characters: 'Welcome', style: { fontSize: 20 }, absoluteBoundingBox: box(100, 20) },
+    { id: '1:2', name: 'Title', type: 'TEXT', characters: 'Sign in', style: { fontSize: 14 }, absoluteBoundingBox: box(100, 20) },
+    { id: '1:3', name: '2 col', type: 'FRAME', absoluteBoundingBox: box(100, 20), children: [] }
+  ]
+} as FigmaNode;
+
+describe('stylesheets', () => {
+  it('are CSS Modules for React, with a camelCase class per layer', () => {
+    const [{ code, files }] = new DesignToCode({ framework: 'react', tailwind: false }).processDesign([loginCard]);
+    const stylesheet = files.find(file => file.filename === 'LoginCard.module.css')!.code;
+
+    expect(code).toContain("import styles from './LoginCard.module.css';");
+    expect(code).toContain('className={`${styles.loginCard} ${className}`}');
+    expect(code).toContain('className={styles.title}');
+    expect(code).toContain('className={styles.title2}');
+    expect(code).toContain('className={styles.layer2Col}');
+    expect(stylesheet).toMatch(/\.title \{[^}]*font-size: 20px;/);
+    expect(stylesheet).toMatch(/\.title2 \{[^}]*font-size: 14px;/);
+    expect(code).not.toContain('style=');
+  });
+
+  it('are scoped in single-file components, with kebab-case classes', () => {
+    const [{ code, files }] = new DesignToCode({ framework: 'svelte', tailwind: false }).processDesign([loginCard]);
+
+    expect(files).toEqual([]);
+    expect(code).toContain('<p class="title-2">');
+    expect(code).toContain('<div class="layer-2-col"></div>');
+    expect(code).toMatch(/<style>\s*\.login-card \{/);
+  });
+});
@@ -0,0 +1,94 @@
+import DesignToCode, {
+  DesignToken,
+  extractTokens,
+  FigmaNode,
+  generateTailwindTheme,
+  generateTokensJSON,
+  mergeTokenSources,
+  tokenSourceFromJSON
+} from '../index';
+
+const red = { type: 'SOLID', color: { r: 1, g: 0, b: 0, a: 1 } };
+
+/** `Hello` in the layer's gray and ` world` in red */
+const card: FigmaNode = {
+  id: '1:0',
+  name: 'Card',
+  type: 'FRAME',
+  absoluteBoundingBox: { x: 0, y: 0, width: 300, height: 100 },
+  children: [
+    {
+      id: '1:1',
+      name: 'Title',
+      type: 'TEXT',
+      characters: 'Hello world',
+      style: { fontSize: 32 },
+      characterStyleOverrides: [0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1],
+      styleOverrideTable: { 1: { fills: [red] } },
+      fills: [{ type: 'SOLID', color: { r: 0.2, g: 0.2, b: 0.2, a: 1 } }],
+      absoluteBoundingBox: { x: 0, y: 0, width: 280, height: 40 }
+    }
+  ]
+} as FigmaNode;
+
+describe('tokens of styled text runs', () => {
+  const tokens = extractTokens(tokenSourceFromJSON({ document: { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [card] } }));
+
+  it('include the colors of the runs', () => {
+    expect(tokens.tokens).toContainEqual(expect.objectContaining({ category: 'color', value: '#FF0000' }));
+  });
+
+  it('are referenced by the runs\' spans', () => {
+    const [{ files }] = new DesignToCode({ tailwind: false, tokens }).processDesign([card]);
+    const stylesheet = files.find(file => file.filename === 'Card.module.css')!.code;
+
+    expect(stylesheet).toContain('color: var(--color-ff0000);');
+    expect(stylesheet).not.toContain('#FF0000');
+  });
+});
+
+describe('tokens of several exports', () => {
+  const blue = { type: 'SOLID', color: { r: 0, g: 0, b: 1, a: 1 } };
+  const exported = (fill: object, id: string) => tokenSourceFromJSON({
+    document: { id: '0:0', name: 'Document', type: 'DOCUMENT', children: [{ ...card, id, children: [], fills: [fill] }] },
+    styles: { [`S:${id}`]: { key: id, name: `Brand/${id}`, styleType: 'FILL' } }
+  });
+  const tokens = extractTokens(mergeTokenSources([exported(red, '1:0'), exported(blue, '2:0')]));
+
+  it('hold the values of every export', () => {
+    const colors = tokens.tokens.filter(token => token.category === 'color').map(token => token.value);
+    expect(colors).toEqual(expect.arrayContaining(['#FF0000', '#0000FF']));
+  });
+
+  it('keep the styles of every export', () => {
+    const merged = mergeTokenSources([exported(red, '1:0'), exported(blue, '2:0')]);
+    expect(Object.keys(merged.styles!)).toEqual(['S:1:0', 'S:2:0']);
+  });
+});
+
+describe('token files', () => {
+  const tokens: DesignToken[] = [
+    { key: 'strong', category: 'font-weight', value: '700', source: 'raw' },
+    { key: 'card', category: 'shadow', value: '0px 4px 8px 0px rgba(0, 0, 0, 0.25)', source: 'style' },
+    { key: 'raised', category: 'shadow', value: '0px 1px 2px 0px #000000, inset 0px 0px 1px 1px #FFFFFF', source: 'style' }
+  ];
+
+  it('give W3C font weights as numbers and shadows as objects', () => {
+    const json = JSON.parse(generateTokensJSON({ tokens }));
+
+    expect(json['font-weight'].strong).toEqual({ $value: 700, $type: 'fontWeight' });
+    expect(json.shadow.card.$value).toEqual({ color: 'rgba(0, 0, 0, 0.25)', offsetX: '0px', offsetY: '4px', blur: '8px', spread: '0px' });
+    expect(json.shadow.raised.$value).toEqual([
+      { color: '#000000', offsetX: '0px', offsetY: '1px', blur: '2px', spread: '0px' },
+      { color: '#FFFFFF', offsetX: '0px', offsetY: '0px', blur: '1px', spread: '1px', inset: true }
+    ]);
+  });
+
+  it('put font weights in the Tailwind theme, for components to use', () => {
+    const bold = { ...card, children: [{ ...card.children![0], style: { fontSize: 32, fontWeight: 700 } }] } as FigmaNode;
+    const [{ code }] = new DesignToCode({ tailwind: true, tokens: { tokens } }).processDesign([bold]);
+
+    expect(generateTailwindTheme({ tokens })).toContain('"fontWeight": {\n        "strong": "var(--font-weight-strong)"');
+    expect(code).toMatch(/className="[^"]*\bfont-strong\b/);
+  });
+});
@@ -0,0 +1,116 @@
+import { extractTextStyles, textRuns } from '../typography';
+import type { FigmaNode } from '../index';
+
+function text(props: Partial<FigmaNode>): FigmaNode {
+  return {
+    id: '1:0',
+    name: 'Body',
+    type: 'TEXT',
+    characters: 'Hello world',
+    absoluteBoundingBox: { x: 0, y: 0, width: 200, height: 40 },
+    ...props
+  } as FigmaNode;
+}
+
+describe('text styles', () => {
+  it('carry the font, case, decoration and alignment', () => {
+    const css = extractTextStyles(text({
+      fills: [{ type: 'SOLID', color: { r: 0.2, g: 0.2, b: 0.2, a: 1 } }],
+      style: {
+        fontFamily: 'Open Sans',
+        fontSize: 16,
+        fontWeight: 600,
+        italic: true,
+        lineHeightPx: 24,
+        letterSpacing: 0.5,
+        textAlignHorizontal: 'CENTER',
+        textCase: 'UPPER',
+        textDecoration: 'UNDERLINE'
+      }
+    }));
+
+    expect(css).toEqual({
+      'color': '#333333',
+      'font-family': '"Open Sans"',
+      'font-size': '16px',
+      'font-weight': '600',
+      'font-style': 'italic',
+      'line-height': '24px',
+      'letter-spacing': '0.5px',
+      'text-align': 'center',
+      'text-transform': 'uppercase',
+      'text-decoration': 'underline',
+      'margin': '0'
+    });
+  });
+
+  it('give line heights relative to the font size without a unit', () => {
+    expect(extractTextStyles(text({ style: { fontSize: 16, lineHeightUnit: 'FONT_SIZE_%', lineHeightPercentFontSize: 150 } }))['line-height']).toBe('1.5');
+    expect(extractTextStyles(text({ style: { lineHeightUnit: 'INTRINSIC_%', lineHeightPx: 19 } }))['line-height']).toBe('normal');
+  });
+
+  it('clip gradient fills to the glyphs', () => {
+    const css = extractTextStyles(text({
+      fills: [{
+        type: 'GRADIENT_LINEAR',
+        gradientHandlePositions: [{ x: 0, y: 0.5 }, { x: 1, y: 0.5 }],
+        gradientStops: [{ position: 0, color: { r: 1, g: 0, b: 0, a: 1 } }, { position: 1, color: { r: 0, g: 0, b: 1, a: 1 } }]
+      }]
+    }));
+
+    expect(css).toMatchObject({ 'background-clip': 'text', 'color': 'transparent' });
+    expect(css['background-image']).toMatch(/^linear-gradient\(/);
+  });
+
+  it('truncate to one line with an ellipsis, or clamp to several lines', () => {
+    expect(extractTextStyles(text({ style: { textTruncation: 'ENDING' } }))).toMatchObject({
+      'overflow': 'hidden',
+      'text-overflow': 'ellipsis',
+      'white-space': 'nowrap'
+    });
+    expect(extractTextStyles(text({ style: { textTruncation: 'ENDING', maxLines: 3 } }))).toMatchObject({
+      'display': '-webkit-box',
+      '-webkit-line-clamp': '3'
+    });
+  });
+
+  it('keep line breaks, and don\'t wrap text that grows with its content', () => {
+    expect(extractTextStyles(text({ characters: 'One\nTwo' }))['white-space']).toBe('pre-wrap');
+    expect(extractTextStyles(text({ style: { textAutoResize: 'WIDTH_AND_HEIGHT' } }))['white-space']).toBe('nowrap');
+  });
+
+  it('align text vertically in a fixed-height box', () => {
+    expect(extractTextStyles(text({ style: { textAlignVertical: 'CENTER' } }))).toMatchObject({
+      'display': 'flex',
+      'flex-direction': 'column',
+      'justify-content': 'center'
+    });
+  });
+});
+
+describe('text runs', () => {
+  it('split mixed styles into runs holding only what differs', () => {
+    const runs = textRuns(text({
+      style: { fontSize: 16, fontWeight: 400 },
+      characterStyleOverrides: [0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1],
+      styleOverrideTable: { 1: { fontWeight: 700, italic: true } }
+    }));
+
+    expect(runs).toEqual([
+      { text: 'Hello ', styles: {} },
+      { text: 'world', styles: { 'font-weight': '700', 'font-style': 'italic' } }
+    ]);
+  });
+
+  it('join runs whose overrides change nothing', () => {
+    expect(textRuns(text({
+      style: { fontSize: 16 },
+      characterStyleOverrides: [0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1],
+      styleOverrideTable: { 1: { fontSize: 16 } }
+    }))).toBeNull();
+  });
+
+  it('are left out for single-style text', () => {
+    expect(textRuns(text({ style: { fontSize: 16 } }))).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import DesignToCode, { FigmaNode } from '../index';
+
+const solid = (r: number, g: number, b: number) => [{ type: 'SOLID', color: { r, g, b, a: 1 } }];
+const changeTo = (trigger: string, destinationId: string) => ({
+  trigger: { type: trigger },
+  actions: [{ type: 'NODE', destinationId, navigation: 'CHANGE_TO' }]
+});
+
+function variant(id: string, state: string, fills: ReturnType<typeof solid>, interactions: object[]): FigmaNode {
+  return {
+    id,
+    name: `State=${state}`,
+    type: 'COMPONENT',
+    fills,
+    absoluteBoundingBox: { x: 0, y: 0, width: 44, height: 24 },
+    interactions,
+    children: []
+  } as FigmaNode;
+}
+
+/** A switch that lights up on hover and turns on when clicked while hovered */
+const hoverSwitch: FigmaNode = {
+  id: '1:0',
+  name: 'Switch',
+  type: 'COMPONENT_SET',
+  componentPropertyDefinitions: {
+    State: { type: 'VARIANT', defaultValue: 'Default', variantOptions: ['Default', 'Hover', 'On'] }
+  },
+  children: [
+    variant('1:1', 'Default', solid(0.8, 0.8, 0.8), [changeTo('ON_HOVER', '1:2')]),
+    variant('1:2', 'Hover', solid(0.7, 0.7, 0.7), [changeTo('ON_CLICK', '1:3')]),
+    variant('1:3', 'On', solid(0.2, 0.8, 0.4), [changeTo('ON_CLICK', '1:1')])
+  ]
+} as FigmaNode;
+
+describe('variant interactions', () => {
+  it('applies a click on a hover variant to the variant it shows over', () => {
+    const converter = new DesignToCode({ framework: 'react', tailwind: true });
+    const { code } = converter.generateComponent(hoverSwitch);
+
+    expect(code).toContain('hover:bg-[#B3B3B3]');
+    expect(code).toContain(
+      "onClick={() => setCurrentState(currentState === 'Default' ? 'On' : currentState === 'Hover' ? 'On' : 'Default')}"
+    );
+  });
+});
+
+function sizeVariant(id: string, size: string, width: number, fills: ReturnType<typeof solid>): FigmaNode {
+  return {
+    id,
+    name: `Size=${size}`,
+    type: 'COMPONENT',
+    fills,
+    absoluteBoundingBox: { x: 0, y: 0, width, height: 40 },
+    children: [
+      {
+        id: `${id}:label`,
+        name: 'Label',
+        type: 'TEXT',
+        characters: 'Click',
+        style: { fontSize: 14 },
+        componentPropertyReferences: { characters: 'Label#1:0' },
+        absoluteBoundingBox: { x: 0, y: 0, width: 40, height: 20 }
+      },
+      {
+        id: `${id}:icon`,
+        name: 'Icon',
+        type: 'FRAME',
+        componentPropertyReferences: { visible: 'Show icon#1:1' },
+        absoluteBoundingBox: { x: 0, y: 0, width: 16, height: 16 },
+        children: []
+      }
+    ]
+  } as FigmaNode;
+}
+
+/** A button in two sizes, with a text and a boolean property */
+const button: FigmaNode = {
+  id: '2:0',
+  name: 'Button',
+  type: 'COMPONENT_SET',
+  componentPropertyDefinitions: {
+    'Size': { type: 'VARIANT', defaultValue: 'Small', variantOptions: ['Small', 'Large'] },
+    'Label#1:0': { type: 'TEXT', defaultValue: 'Click' },
+    'Show icon#1:1': { type: 'BOOLEAN', defaultValue: true }
+  },
+  children: [
+    sizeVariant('2:1', 'Small', 80, solid(1, 0, 0)),
+    sizeVariant('2:2', 'Large', 120, solid(0, 0, 1))
+  ]
+} as FigmaNode;
+
+describe('component properties', () => {
+  const [component] = new DesignToCode({ framework: 'react', tailwind: false }).processDesign([button]);
+  const stylesheet = component.files.find(file => file.filename === 'Button.module.css')!.code;
+
+  it('become typed props with the component\'s defaults', () => {
+    expect(component.code).toContain([
+      'interface Props {',
+      "  size?: 'Small' | 'Large';",
+      '  label?: string;',
+      '  showIcon?: boolean;'
+    ].join('\n'));
+    expect(component.code).toContain("({ size = 'Small', label = 'Click', showIcon = true, children, className = '' })");
+  });
+
+  it('bind text and visibility to their layers', () => {
+    expect(component.code).toMatch(/<span className=\{styles\.label\}>\s*\{label\}\s*<\/span>/);
+    expect(component.code).toMatch(/\{showIcon && \(\s*<span className=\{styles\.icon\} \/>\s*\)\}/);
+  });
+
+  it('style each variant by what sets it apart', () => {
+    expect(component.code).toContain('({ Small: styles.buttonSmall, Large: styles.buttonLarge })[size]');
+    expect(stylesheet).toMatch(/\.buttonSmall \{\s*width: 80px;\s*background-color: #FF0000;\s*\}/);
+    expect(stylesheet).toMatch(/\.buttonLarge \{\s*width: 120px;\s*background-color: #0000FF;\s*\}/);
+    expect(stylesheet).toMatch(/\.button \{[^}]*height: 40px;/);
+  });
+});
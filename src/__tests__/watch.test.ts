@@ -0,0 +1,195 @@
+import { FigmaApiError, FigmaFileVersion, FigmaTransport } from '../figma-client';
+import { pollFigmaFile, watchFiles } from '../watch';
+
+/**
+ * A transport answering version checks with the queued versions in turn,
+ * repeating the last one
+ */
+function versionTransport(versions: Array<FigmaFileVersion | Error>): FigmaTransport & { checks: number } {
+  const transport = {
+    checks: 0,
+    async getJSON() {
+      transport.checks++;
+      const next = versions.length > 1 ? versions.shift()! : versions[0];
+      if (next instanceof Error) throw next;
+      return next;
+    },
+    async download(): Promise<Buffer> {
+      throw new Error('Unexpected download');
+    }
+  };
+  return transport;
+}
+
+const v1 = { version: '1', lastModified: '2024-01-01T00:00:00Z' };
+const v2 = { version: '2', lastModified: '2024-01-02T00:00:00Z' };
+
+describe('pollFigmaFile', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('only records the version at the first check', async () => {
+    const transport = versionTransport([v1, v2]);
+    const onChange = jest.fn();
+    const poller = pollFigmaFile('AbC123', 'token', onChange, { interval: 1000, transport });
+
+    await jest.advanceTimersByTimeAsync(0);
+    expect(transport.checks).toBe(1);
+    expect(onChange).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledWith(v2);
+    poller.close();
+  });
+
+  it('calls onChange when the version differs from the one given', async () => {
+    const transport = versionTransport([v1, v2]);
+    const onChange = jest.fn();
+    const poller = pollFigmaFile('AbC123', 'token', onChange, { interval: 1000, transport, since: v1 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    poller.close();
+  });
+
+  it('tries a version again when handling it failed', async () => {
+    const transport = versionTransport([v2]);
+    const onChange = jest.fn().mockRejectedValueOnce(new Error('Generator failed')).mockResolvedValue(undefined);
+    const onError = jest.fn();
+    const poller = pollFigmaFile('AbC123', 'token', onChange, { interval: 1000, transport, since: v1, onError });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onError).toHaveBeenCalledWith(new Error('Generator failed'));
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    poller.close();
+  });
+
+  it('keeps polling after a failed check', async () => {
+    const transport = versionTransport([new FigmaApiError('Unauthorized', 401), v2]);
+    const onChange = jest.fn();
+    const onError = jest.fn();
+    const poller = pollFigmaFile('AbC123', 'token', onChange, { interval: 1000, transport, since: v1, onError });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 401 }));
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledWith(v2);
+    poller.close();
+  });
+
+  it('stops checking once closed', async () => {
+    const transport = versionTransport([v1]);
+    const poller = pollFigmaFile('AbC123', 'token', jest.fn(), { interval: 1000, transport, since: v1 });
+    poller.close();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(transport.checks).toBe(0);
+  });
+});
+
+describe('watchFiles', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  /** A watcher whose changes the test reports itself */
+  function fakeWatch() {
+    const fake = { listener: (filename: string | null) => {}, closed: false };
+    const watch = (directory: string, listener: (filename: string | null) => void) => {
+      fake.listener = listener;
+      return { close: () => { fake.closed = true; } };
+    };
+    return { fake, watch };
+  }
+
+  it('handles a burst of changes as one, once it settles', async () => {
+    const { fake, watch } = fakeWatch();
+    const onChange = jest.fn();
+    const watcher = watchFiles('designs', name => name.endsWith('.json'), onChange, { debounce: 300, watch });
+
+    fake.listener('a.json');
+    await jest.advanceTimersByTimeAsync(200);
+    fake.listener('b.json');
+    fake.listener('a.json');
+    fake.listener('notes.txt');
+    await jest.advanceTimersByTimeAsync(299);
+    expect(onChange).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith(['a.json', 'b.json']);
+    watcher.close();
+    expect(fake.closed).toBe(true);
+  });
+
+  it('passes on changes to unknown files', async () => {
+    const { fake, watch } = fakeWatch();
+    const onChange = jest.fn();
+    const watcher = watchFiles('designs', name => name.endsWith('.json'), onChange, { debounce: 300, watch });
+
+    fake.listener(null);
+    await jest.advanceTimersByTimeAsync(300);
+    expect(onChange).toHaveBeenCalledWith([null]);
+    watcher.close();
+  });
+
+  it('holds changes made during a run until it is done', async () => {
+    const { fake, watch } = fakeWatch();
+    let finish = () => {};
+    const onChange = jest.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+    const watcher = watchFiles('designs', () => true, onChange, { debounce: 300, watch });
+
+    fake.listener('a.json');
+    await jest.advanceTimersByTimeAsync(300);
+    fake.listener('b.json');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    finish();
+    await jest.advanceTimersByTimeAsync(300);
+    expect(onChange).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenLastCalledWith(['b.json']);
+    watcher.close();
+  });
+
+  it('reports a failed run to onError and keeps watching', async () => {
+    const { fake, watch } = fakeWatch();
+    const failure = new Error('Invalid export');
+    const onChange = jest.fn().mockRejectedValueOnce(failure).mockImplementationOnce(() => {
+      throw failure;
+    });
+    const onError = jest.fn();
+    const watcher = watchFiles('designs', () => true, onChange, { debounce: 300, watch, onError });
+
+    fake.listener('a.json');
+    await jest.advanceTimersByTimeAsync(300);
+    expect(onError).toHaveBeenCalledWith(failure);
+
+    fake.listener('a.json');
+    await jest.advanceTimersByTimeAsync(300);
+    expect(onError).toHaveBeenCalledTimes(2);
+
+    fake.listener('b.json');
+    await jest.advanceTimersByTimeAsync(300);
+    expect(onChange).toHaveBeenCalledTimes(3);
+    expect(onChange).toHaveBeenLastCalledWith(['b.json']);
+    watcher.close();
+  });
+
+  it('drops pending changes when closed', async () => {
+    const { fake, watch } = fakeWatch();
+    const onChange = jest.fn();
+    const watcher = watchFiles('designs', () => true, onChange, { debounce: 300, watch });
+
+    fake.listener('a.json');
+    watcher.close();
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+});
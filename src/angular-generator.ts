@@ -0,0 +1,215 @@
+import { objectLiteral } from './component-tests';
+import type { FrameworkGenerator } from './generator';
+import { stateVariable } from './interactions';
+import { companionFile, importPath, toKebabCase } from './ir';
+import { keepRegion } from './manifest';
+import {
+  escapeAttribute,
+  escapeExpression,
+  escapeTemplateLiteral,
+  escapeText,
+  inlineCSS,
+  jsLiteral,
+  MarkupDialect,
+  renderMarkup,
+  templateDialect
+} from './renderer';
+import { presentationRole } from './semantics';
+import { generateStylesheet } from './stylesheet';
+import { propTypeScript } from './variants';
+
+/**
+ * Prefix of component selectors, e.g. `app-login-card`
+ */
+const SELECTOR_PREFIX = 'app';
+
+const ifBlock = (expression: string, markup: string, indent: string) =>
+  `${indent}@if (${expression}) {\n${markup}\n${indent}}`;
+
+/**
+ * Angular template syntax: property bindings, `@if` blocks and content projection
+ */
+const ANGULAR_DIALECT: MarkupDialect = {
+  ...templateDialect(
+    (staticClasses, dynamic) => {
+      if (dynamic.length === 0) return staticClasses ? `class="${staticClasses}"` : null;
+      const parts = [...(staticClasses ? [jsLiteral(staticClasses)] : []), ...dynamic];
+      return `[class]="${escapeExpression(parts.join(" + ' ' + "))}"`;
+    },
+    (css, dynamic) => {
+      const attributes = Object.keys(css).length > 0 ? [`style="${escapeAttribute(inlineCSS(css))}"`] : [];
+      if (dynamic.length > 0) attributes.push(`[style]="${escapeExpression(dynamic.join(" + '; ' + "))}"`);
+      return attributes;
+    },
+    ifBlock,
+    {
+      componentProp: (name, value) => typeof value === 'string'
+        ? `${name}="${escapeAngularText(escapeAttribute(value))}"`
+        : `[${name}]="${value}"`,
+      componentBinding: (name, expression) => `[${name}]="${escapeExpression(expression)}"`,
+      instanceSlot: (name, slot, options, depth) => {
+        const indent = '  '.repeat(depth);
+        return {
+          child: `${indent}<ng-container ngProjectAs="[slot=${name}]">\n${renderMarkup(slot, options, depth + 1)}\n${indent}</ng-container>`
+        };
+      }
+    }
+  ),
+  text: value => escapeAngularText(escapeText(value)),
+  wrapDepth: element => (element.condition ? 1 : 0) + (element.slot ? 1 : 0),
+  wrap: (element, markup, indent) => {
+    let wrapped = markup;
+    const inner = element.condition ? `${indent}  ` : indent;
+    // Projected content replaces the default layers
+    if (element.slot) {
+      wrapped = `${inner}<ng-content select="[slot=${element.slot}]">\n${wrapped}\n${inner}</ng-content>`;
+    }
+    return element.condition ? ifBlock(element.condition, wrapped, indent) : wrapped;
+  },
+  componentTag: name => `${SELECTOR_PREFIX}-${toKebabCase(name)}`,
+  clickHandler: statement => `(click)="${escapeExpression(statement)}"`
+};
+
+/**
+ * Braces start interpolations and `@` starts blocks in Angular templates
+ */
+function escapeAngularText(value: string): string {
+  return value.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;').replace(/@/g, '&#64;');
+}
+
+/**
+ * Angular standalone components with `@Input()` props, a template file and a
+ * `.component.scss` stylesheet, in kebab-case files as the Angular style
+ * guide names them (`login-card.component.ts`). Angular is always TypeScript.
+ */
+export const angularGenerator: FrameworkGenerator = {
+  name: 'angular',
+  extension: () => 'component.ts',
+  fileNaming: 'kebab-case',
+  stylesheet: { naming: 'kebab-case' },
+  stories: {
+    renderer: '@storybook/angular',
+    extension: () => 'ts',
+    component: (ir, storyFile) => ({
+      imports: `import { ${ir.name}Component } from '${importPath(storyFile, ir.filename).replace(/\.ts$/, '')}';\n`,
+      component: `${ir.name}Component`,
+      type: `${ir.name}Component`
+    })
+  },
+  // Classes stay on the host element, outside the component's template
+  tests: {
+    library: '@testing-library/angular',
+    extension: () => 'component.spec.ts',
+    imports: (ir, testFile) =>
+      `import { ${ir.name}Component } from '${importPath(testFile, ir.filename).replace(/\.ts$/, '')}';\n`,
+    render: (ir, props) => Object.keys(props).length
+      ? `render(${ir.name}Component, { componentInputs: ${objectLiteral(props)} })`
+      : `render(${ir.name}Component)`,
+    async: true
+  },
+  indexExport: ({ name, filename }) => `export { ${name}Component } from '${importPath('index', filename).replace(/\.ts$/, '')}';`,
+
+  generate(ir, options) {
+    const className = `${ir.name}Component`;
+    const selector = `${SELECTOR_PREFIX}-${ir.testId}`;
+    const template = companionFile(ir.filename, '.component.html');
+    const stylesheet = companionFile(ir.filename, '.component.scss');
+
+    const markup = renderMarkup(ir.tree, {
+      dialect: ANGULAR_DIALECT,
+      tailwind: options.styling === 'tailwind',
+      // Overlays emit `menuOpenChange`, so parents bind them with `[(menuOpen)]`
+      interactions: {
+        states: Object.fromEntries(ir.states.map(p => [p.name, stateVariable(p.name)])),
+        setState: (prop, value) => `${stateVariable(prop)} = ${value}`,
+        setOpen: (prop, open) => `${prop}Change.emit(${open})`
+      }
+    }, 0, {
+      attributes: [...presentationRole(ir.tree), `data-testid="${ir.testId}"`],
+      slot: '<ng-content></ng-content>'
+    });
+
+    const components = ir.components.map(c => ({
+      name: `${c.name}Component`,
+      path: importPath(ir.filename, c.filename).replace(/\.ts$/, '')
+    }));
+    const imports = components.map(c => `import { ${c.name} } from '${c.path}';\n`).join('');
+    const inputs = ir.props
+      .filter(p => p.kind !== 'instance')
+      .map(p => `  @Input() ${p.name}: ${propTypeScript(p, '')} = ${jsLiteral(p.defaultValue)};\n`)
+      .join('');
+    const outputs = ir.props
+      .filter(p => p.overlay)
+      .map(p => `  @Output() ${p.name}Change = new EventEmitter<boolean>();\n`)
+      .join('');
+    // Inputs are set by the time `ngOnInit` runs, not in the constructor
+    const state = ir.states.length ? `${ir.states
+      .map(p => `  ${stateVariable(p.name)}: ${propTypeScript(p, '')} = ${jsLiteral(p.defaultValue)};\n`)
+      .join('')}
+  ngOnInit(): void {
+${ir.states.map(p => `    this.${stateVariable(p.name)} = this.${p.name};\n`).join('')}  }
+` : '';
+    const members = [inputs, outputs, state].filter(Boolean).join('\n');
+    const angularImports = [
+      'Component',
+      ...(outputs ? ['EventEmitter'] : []),
+      ...(inputs ? ['Input'] : []),
+      ...(state ? ['OnInit'] : []),
+      ...(outputs ? ['Output'] : [])
+    ];
+    const scss = options.styling === 'stylesheet';
+
+    const code = `import { ${angularImports.join(', ')} } from '@angular/core';
+${imports}${keepRegion('imports')}
+
+/**
+ * ${ir.name} Component
+ * Auto-generated from Figma design
+ * Original Figma ID: ${ir.node.id}
+ */
+@Component({
+  selector: '${selector}',
+  standalone: true,
+  imports: [${components.map(c => c.name).join(', ')}],
+  templateUrl: '${importPath(ir.filename, template)}'${scss ? `,
+  styleUrl: '${importPath(ir.filename, stylesheet)}'` : ''}
+})
+export class ${className}${state ? ' implements OnInit' : ''} {
+${members ? `${members}\n` : ''}${keepRegion('logic', '  ')}
+}
+`;
+
+    const files = [
+      { filename: ir.filename, code },
+      { filename: template, code: `${markup}\n` }
+    ];
+    if (scss) {
+      files.push({
+        filename: stylesheet,
+        code: `${generateStylesheet(ir.rules)}\n\n${keepRegion('styles', '', 'css')}\n`
+      });
+    }
+    return files;
+  },
+
+  generateIcon(icon) {
+    const svg = escapeTemplateLiteral(icon.svg.split('\n').map(line => `    ${line}`).join('\n'));
+    const code = `import { Component } from '@angular/core';
+
+/**
+ * ${icon.name}
+ * Auto-generated from Figma design
+ * Original Figma ID: ${icon.asset.node.id}
+ */
+@Component({
+  selector: '${SELECTOR_PREFIX}-${toKebabCase(icon.name)}',
+  standalone: true,
+  template: \`
+${svg}
+  \`
+})
+export class ${icon.name}Component {}
+`;
+    return [{ filename: icon.filename, code }];
+  }
+};
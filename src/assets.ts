@@ -0,0 +1,394 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { FigmaNode } from './index';
+import type { ComponentReference } from './instances';
+import { extractPlacementStyles } from './layout';
+import { importPath } from './ir';
+import { BuildContext, jsLiteral, RenderElement } from './renderer';
+import type { ImageResolver } from './styles';
+
+export type AssetFormat = 'png' | 'jpg' | 'svg' | 'gif' | 'webp';
+
+/**
+ * Formats Figma can render a node to, other than PDF
+ */
+export type RenderFormat = 'png' | 'jpg' | 'svg';
+
+export interface ExportSetting {
+  format: 'PNG' | 'JPG' | 'SVG' | 'PDF';
+  suffix?: string;
+  constraint?: { type: 'SCALE' | 'WIDTH' | 'HEIGHT'; value: number };
+}
+
+/**
+ * Export fields shared by every Figma node model
+ */
+export interface ExportProperties {
+  exportSettings?: ExportSetting[];
+}
+
+/**
+ * Where asset bytes come from: the Figma API for fetched files, or a local
+ * folder next to a JSON export. Sources leave out anything they don't have.
+ */
+export interface AssetSource {
+  /** Image fill bytes keyed by imageRef */
+  imageFills(refs: string[]): Promise<Map<string, Buffer>>;
+  /** Rendered node bytes keyed by node id */
+  renderNodes(ids: string[], format: RenderFormat, scale: number): Promise<Map<string, Buffer>>;
+}
+
+/**
+ * A file written to the assets directory
+ */
+export interface Asset {
+  /** Path relative to the output directory, e.g. `assets/hero-image.png` */
+  filename: string;
+  format: AssetFormat;
+  content: Buffer;
+  /** Identifier generated components import the file as, e.g. `heroImageUrl` */
+  importName: string;
+  /** Layer the asset was first found on */
+  node: FigmaNode;
+}
+
+export interface AssetSet {
+  /** Image fills keyed by imageRef */
+  images: Map<string, Asset>;
+  /** Rendered nodes keyed by node id */
+  nodes: Map<string, Asset>;
+}
+
+interface RenderRequest {
+  node: FigmaNode;
+  format: RenderFormat;
+  scale: number;
+}
+
+const ICON_SHAPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'POLYGON', 'LINE', 'REGULAR_POLYGON'];
+const SHAPES = [...ICON_SHAPES, 'ELLIPSE', 'RECTANGLE'];
+const ICON_CONTAINERS = ['FRAME', 'GROUP', 'COMPONENT', 'INSTANCE'];
+
+/**
+ * Find the assets the generated components need: the images behind IMAGE
+ * fills, layers marked for export, and vector layers or groups of them,
+ * which are rendered to SVG and become icon components
+ */
+export function planAssets(roots: FigmaNode[]): { images: Map<string, FigmaNode>; renders: RenderRequest[] } {
+  const images = new Map<string, FigmaNode>();
+  const renders = new Map<string, RenderRequest>();
+
+  const visit = (node: FigmaNode, root: boolean) => {
+    if (node.visible === false) return;
+
+    for (const fill of node.fills || []) {
+      if (fill.type === 'IMAGE' && fill.imageRef && fill.visible !== false && !images.has(fill.imageRef)) {
+        images.set(fill.imageRef, node);
+      }
+    }
+
+    const render = renderRequest(node, root);
+    if (render && !renders.has(node.id)) {
+      renders.set(node.id, render);
+    }
+    // Nested layers that render as one file don't need their own assets
+    if (render && !root) return;
+
+    node.children?.forEach(child => visit(child, false));
+  };
+
+  // A responsive screen's frames each have their own layers
+  roots.flatMap(root => root.breakpointFrames?.map(frame => frame.node) || [root]).forEach(root => visit(root, true));
+  return { images, renders: Array.from(renders.values()) };
+}
+
+function renderRequest(node: FigmaNode, root: boolean): RenderRequest | null {
+  const setting = node.exportSettings?.find(s => s.format !== 'PDF');
+  if (setting) {
+    return { node, format: setting.format.toLowerCase() as RenderFormat, scale: exportScale(setting, node) };
+  }
+  // Roots are generated as components rather than icons
+  if (!root && isIcon(node)) {
+    return { node, format: 'svg', scale: 1 };
+  }
+  return null;
+}
+
+function exportScale(setting: ExportSetting, node: FigmaNode): number {
+  const box = node.absoluteBoundingBox;
+  const constraint = setting.constraint;
+  let scale = 1;
+  if (constraint?.type === 'SCALE') {
+    scale = constraint.value;
+  } else if (constraint?.type === 'WIDTH' && box?.width) {
+    scale = constraint.value / box.width;
+  } else if (constraint?.type === 'HEIGHT' && box?.height) {
+    scale = constraint.value / box.height;
+  }
+  // The API accepts scales from 0.01 to 4
+  return Math.min(4, Math.max(0.01, Math.round(scale * 100) / 100));
+}
+
+/**
+ * A vector layer, or a group made only of shapes with at least one vector in it
+ */
+function isIcon(node: FigmaNode): boolean {
+  if (ICON_SHAPES.includes(node.type)) return true;
+  if (!ICON_CONTAINERS.includes(node.type)) return false;
+
+  const leaves = visibleLeaves(node);
+  return leaves.length > 0 &&
+    leaves.every(leaf => SHAPES.includes(leaf.type) && !leaf.fills?.some(f => f.type === 'IMAGE')) &&
+    leaves.some(leaf => ICON_SHAPES.includes(leaf.type));
+}
+
+function visibleLeaves(node: FigmaNode): FigmaNode[] {
+  return (node.children || [])
+    .filter(child => child.visible !== false)
+    .flatMap(child => (child.children?.length ? visibleLeaves(child) : [child]));
+}
+
+/**
+ * Plan the assets for these roots and fetch them from the source
+ */
+export async function resolveAssets(roots: FigmaNode[], source: AssetSource): Promise<AssetSet> {
+  const plan = planAssets(roots);
+  const set: AssetSet = { images: new Map(), nodes: new Map() };
+  const naming = assetNaming();
+
+  if (plan.images.size > 0) {
+    for (const [ref, content] of await source.imageFills(Array.from(plan.images.keys()))) {
+      const format = detectFormat(content);
+      if (format) {
+        set.images.set(ref, naming.add(plan.images.get(ref)!, format, content));
+      }
+    }
+  }
+
+  // Figma renders one format and scale per request
+  const groups = new Map<string, RenderRequest[]>();
+  for (const request of plan.renders) {
+    const key = `${request.format}@${request.scale}`;
+    groups.set(key, [...(groups.get(key) || []), request]);
+  }
+  for (const requests of groups.values()) {
+    const { format, scale } = requests[0];
+    const rendered = await source.renderNodes(requests.map(r => r.node.id), format, scale);
+    for (const { node } of requests) {
+      const content = rendered.get(node.id);
+      if (content) {
+        set.nodes.set(node.id, naming.add(node, format, content));
+      }
+    }
+  }
+
+  return set;
+}
+
+/**
+ * Name asset files after their layers, sharing one file between layers with
+ * identical content
+ */
+function assetNaming() {
+  const assets: Asset[] = [];
+  const used = new Set<string>();
+
+  return {
+    add(node: FigmaNode, format: AssetFormat, content: Buffer): Asset {
+      const existing = assets.find(a => a.format === format && a.content.equals(content));
+      if (existing) return existing;
+
+      const base = node.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'asset';
+      let name = base;
+      for (let i = 2; used.has(name); i++) {
+        name = `${base}-${i}`;
+      }
+      used.add(name);
+
+      const words = name.split('-');
+      const importName = [/^[0-9]/.test(words[0]) ? 'asset' : '', ...words]
+        .filter(Boolean)
+        .map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+        .join('');
+
+      const asset: Asset = { filename: `assets/${name}.${format}`, format, content, importName: `${importName}Url`, node };
+      assets.push(asset);
+      return asset;
+    }
+  };
+}
+
+/**
+ * Identify an image by its leading bytes; API downloads carry no extension
+ */
+export function detectFormat(content: Buffer): AssetFormat | null {
+  if (content.toString('latin1', 1, 4) === 'PNG') return 'png';
+  if (content[0] === 0xff && content[1] === 0xd8) return 'jpg';
+  if (content.toString('latin1', 0, 3) === 'GIF') return 'gif';
+  if (content.toString('latin1', 0, 4) === 'RIFF' && content.toString('latin1', 8, 12) === 'WEBP') return 'webp';
+  if (/<svg[\s>]/.test(content.toString('utf8', 0, 512))) return 'svg';
+  return null;
+}
+
+/**
+ * Asset source reading a local folder, for JSON exports. Image fills are
+ * looked up as `<imageRef>.<ext>` and renders as `<node id>.<format>`, with
+ * the `:` in node ids optionally written as `-` or `_`.
+ */
+export function localAssetSource(directory: string): AssetSource {
+  let files: Promise<string[]> | undefined;
+  const find = async (names: string[], extensions: string[]): Promise<Buffer | undefined> => {
+    files = files || fs.readdir(directory).catch(() => []);
+    const available = await files;
+    for (const name of names) {
+      for (const extension of extensions) {
+        const file = `${name}.${extension}`;
+        if (available.includes(file)) {
+          return fs.readFile(path.join(directory, file));
+        }
+      }
+    }
+    return undefined;
+  };
+
+  const collect = async (keys: string[], lookup: (key: string) => Promise<Buffer | undefined>) => {
+    const found = new Map<string, Buffer>();
+    for (const key of keys) {
+      const content = await lookup(key);
+      if (content) found.set(key, content);
+    }
+    return found;
+  };
+
+  return {
+    imageFills: refs => collect(refs, ref => find([ref], ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'])),
+    renderNodes: (ids, format) => collect(ids, id => find(
+      [id, id.replace(/:/g, '-'), id.replace(/:/g, '_')],
+      format === 'jpg' ? ['jpg', 'jpeg'] : [format]
+    ))
+  };
+}
+
+/**
+ * Every distinct asset in the set
+ */
+export function assetList(set: AssetSet): Asset[] {
+  return Array.from(new Set([...set.images.values(), ...set.nodes.values()]));
+}
+
+/**
+ * URL of an asset relative to a generated component, one in the output directory by default
+ */
+export function assetURL(asset: Asset, component = ''): string {
+  return importPath(component, asset.filename);
+}
+
+/**
+ * Resolve image fills to the files exported for them, relative to a generated component
+ */
+export function imageResolver(set: AssetSet | undefined, component?: string): ImageResolver | undefined {
+  if (!set) return undefined;
+  return imageRef => {
+    const asset = set.images.get(imageRef);
+    return asset && assetURL(asset, component);
+  };
+}
+
+/**
+ * Render a layer exported as a file: SVGs as their icon component, other
+ * formats as an `<img>`. Returns null when the layer has no asset.
+ */
+export function buildAssetElement(
+  node: FigmaNode,
+  parent: FigmaNode | undefined,
+  context: BuildContext
+): RenderElement | null {
+  // Roots are generated as components even when marked for export
+  const asset = parent ? context.assets?.nodes.get(node.id) : undefined;
+  if (!asset) return null;
+
+  // The file already draws the layer's fills, strokes and children
+  const styles = extractPlacementStyles(node, parent);
+  const icon = context.icons?.get(asset.filename);
+  if (icon) {
+    return {
+      tag: icon.name,
+      node,
+      styles,
+      attributes: {},
+      children: [],
+      instance: { component: icon, props: {}, slots: {} }
+    };
+  }
+
+  return {
+    tag: 'img',
+    node,
+    styles,
+    attributes: { alt: node.name },
+    asset,
+    src: assetURL(asset, context.filename),
+    children: []
+  };
+}
+
+/**
+ * Assets shown by `<img>` elements anywhere in an element tree, in first-use order
+ */
+export function usedAssets(element: RenderElement): Asset[] {
+  const used = new Map<string, Asset>();
+
+  const visit = (current: RenderElement) => {
+    if (current.asset) {
+      used.set(current.asset.filename, current.asset);
+    }
+    Object.values(current.instance?.slots || {}).forEach(visit);
+    current.children.forEach(visit);
+  };
+  visit(element);
+
+  return Array.from(used.values());
+}
+
+/**
+ * Name of the icon component generated from an SVG asset, e.g. `ArrowRightIcon`
+ */
+export function iconName(asset: Asset): string {
+  const name = path.basename(asset.filename, `.${asset.format}`)
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+  const identifier = /^[0-9]/.test(name) ? `Icon${name}` : name;
+  return /icon/i.test(identifier) ? identifier : `${identifier}Icon`;
+}
+
+/**
+ * Prepare SVG markup for a template: drop the XML prolog and comments, and
+ * spread the component's remaining attributes onto the root element
+ */
+export function svgMarkup(svg: string, spread: string): string {
+  return svg
+    .replace(/<\?xml[^>]*\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .trim()
+    .replace(/^<svg\b([^>]*?)(\s*\/?)>/, (_, attributes: string, close: string) =>
+      `<svg${attributes}${spread ? ` ${spread}` : ''}${close}>`);
+}
+
+/**
+ * Convert SVG attributes to their JSX names and style strings to objects
+ */
+export function svgToJsx(svg: string): string {
+  return svg
+    .replace(/\s([a-zA-Z]+(?:[-:][a-zA-Z]+)+)=/g, (match, name: string) =>
+      /^(data|aria)-/.test(name) ? match : ` ${name.replace(/[-:]([a-zA-Z])/g, (_, c: string) => c.toUpperCase())}=`)
+    .replace(/\sclass=/g, ' className=')
+    .replace(/\sstyle="([^"]*)"/g, (_, css: string) => {
+      const style = Object.fromEntries(css
+        .split(';')
+        .map(declaration => declaration.split(':').map(part => part.trim()))
+        .filter(([property, value]) => property && value)
+        .map(([property, value]) => [property.replace(/-([a-z])/g, (__, c: string) => c.toUpperCase()), value]));
+      return ` style={${jsLiteral(style)}}`;
+    });
+}
@@ -5,83 +5,412 @@ import { hideBin } from 'yargs/helpers';
 import chalk from 'chalk';
 import fs from 'fs-extra';
 import path from 'path';
-import DesignToCode, { FigmaNode } from './index';
+import { format } from 'util';
+import DesignToCode, {
+  APP_ROUTERS,
+  appRouter,
+  AppRouter,
+  componentsDirectory,
+  generateApp,
+  GeneratedComponent,
+  assetList,
+  AssetSet,
+  AssetSource,
+  collectComponentRoots,
+  ComponentConfig,
+  contrastIssues,
+  extractFileId,
+  FigmaNode,
+  extractNodeIds,
+  extractTokens,
+  fetchFigmaFile,
+  fetchFigmaNodes,
+  fetchFigmaPages,
+  fetchFigmaVariables,
+  figmaAssetSource,
+  FigmaFileVersion,
+  generatorDialect,
+  generatorNames,
+  getGenerator,
+  generateTailwindTheme,
+  generateTokensCSS,
+  generateTokensJSON,
+  hasPointerStates,
+  localAssetSource,
+  nodePaths,
+  pageRoutes,
+  pollFigmaFile,
+  registerGenerator,
+  resolveAssets,
+  routeTable,
+  SkippedNode,
+  skippedNodes,
+  StyleMode,
+  mergeTokenSources,
+  tokenSourceFromJSON,
+  TokenSet,
+  TokenSource,
+  unmatchedLayers,
+  unsupportedFeatures,
+  watchFiles
+} from './index';
+import { CONFIG_FILES, GenerationSettings, loadConfig, resolveSettings } from './config';
+import { unifiedDiff } from './diff';
+import {
+  FilePlan,
+  hashContent,
+  ManifestEntry,
+  ManifestScope,
+  planGeneratedFile,
+  planStaleFile,
+  readManifest,
+  writeGeneratedFile,
+  writeManifest,
+  WriteStatus
+} from './manifest';
 
-interface ConvertOptions {
+/**
+ * Stream the CLI's messages go to: stdout, or stderr when stdout carries a report
+ */
+let messages: NodeJS.WritableStream = process.stdout;
+
+function log(...parts: unknown[]): void {
+  messages.write(`${format(...parts)}\n`);
+}
+
+/**
+ * Options showing what a run changes, or would change
+ */
+interface PreviewOptions {
+  /** Work out what the run would write, without writing anything */
+  'dry-run': boolean;
+  diff: boolean;
+  report?: 'json';
+}
+
+interface ConvertOptions extends GenerationSettings, PreviewOptions {
+  'figma-json': string;
+  assets?: string;
+  force: boolean;
+  watch: boolean;
+  verbose: boolean;
+  _: string[];
+}
+
+interface PullOptions extends GenerationSettings, PreviewOptions {
+  'url-or-key': string;
+  token?: string;
+  'node-ids'?: string;
+  page?: string;
+  assets: boolean;
+  force: boolean;
+  watch: boolean;
+  /** Seconds between checks for a new version while watching */
+  interval: number;
+  verbose: boolean;
+  _: string[];
+}
+
+interface ScaffoldOptions extends GenerationSettings {
   'figma-json': string;
-  framework: 'react' | 'vue' | 'svelte';
-  output: string;
-  typescript: boolean;
-  tailwind: boolean;
+  page?: string;
+  router?: AppRouter;
+  assets?: string;
+  force: boolean;
   verbose: boolean;
   _: string[];
 }
 
-interface BatchOptions {
+/**
+ * A file a generation run wrote, or left as it was
+ */
+interface WrittenFile {
+  filename: string;
+  status: WriteStatus;
+  /** Text of a changed file before and after the run, for diffs; unset for binary files */
+  before?: string;
+  after?: string;
+}
+
+/**
+ * Something a run couldn't generate as designed, or left alone
+ */
+interface Warning {
+  /** e.g. `contrast`, `mask` or `protected` */
+  kind: string;
+  message: string;
+  nodeId?: string;
+}
+
+type Warn = (warning: Warning) => void;
+
+/**
+ * What a run did with a node that becomes a component or icon
+ */
+interface NodeRecord {
+  name: string;
+  status: 'generated' | 'unchanged';
+  files: string[];
+  /** Milliseconds generating the node took */
+  ms?: number;
+}
+
+/**
+ * What a run wrote, what it generated from each node and what it left out
+ */
+interface RunRecord {
+  files: WrittenFile[];
+  /** Keyed by node id */
+  nodes: Record<string, NodeRecord>;
+  skipped: SkippedNode[];
+  /** Files of nodes no longer in the design, kept until removed by hand */
+  orphans: string[];
+  warnings: Warning[];
+  /** Milliseconds each step of the run took */
+  timing: Record<string, number>;
+}
+
+interface GenerationResult extends RunRecord {
+  /** Converter the components were generated with, which knows what each is named */
+  converter: DesignToCode;
+  /** Number of components and icons generated or left unchanged */
+  components: number;
+  tokens?: TokenSet;
+  assets?: AssetSet;
+}
+
+/**
+ * An export of a batch, generated next to the others into one output directory
+ */
+interface BatchExport {
+  /** Export file name, which keys what the export generated in the manifest */
+  source: string;
+  /** Files the batch's earlier exports generated on this run, which this export can't take */
+  taken: string[];
+  /** Tokens of all the batch's exports, written once for the batch */
+  tokens?: TokenSet;
+}
+
+interface BatchOptions extends GenerationSettings, PreviewOptions {
   directory: string;
-  framework: 'react' | 'vue' | 'svelte';
-  output: string;
+  force: boolean;
+  watch: boolean;
   verbose: boolean;
   _: string[];
 }
 
+/**
+ * Options choosing what components are generated as. They have no yargs
+ * defaults, so values from the config file apply unless a flag is passed.
+ */
+function targetOptions(yargs: Argv) {
+  return yargs
+    .option('framework', {
+      alias: 'f',
+      describe: 'Target framework (default: react)',
+      choices: generatorNames()
+    })
+    .option('dialect', {
+      describe: 'Output dialect of the framework, e.g. vue: setup|options, svelte: runes|legacy',
+      type: 'string'
+    })
+    .option('output', {
+      alias: 'o',
+      describe: 'Output directory (default: ./components)',
+      type: 'string'
+    })
+    .option('typescript', {
+      alias: 't',
+      describe: 'Generate TypeScript (default: true)',
+      type: 'boolean'
+    })
+    .option('styling', {
+      describe: 'Style with Tailwind classes, a stylesheet or inline styles (default: stylesheet)',
+      choices: ['tailwind', 'stylesheet', 'inline']
+    })
+    .option('tailwind', {
+      alias: 'tw',
+      describe: 'Use Tailwind CSS, short for --styling tailwind',
+      type: 'boolean'
+    })
+    .conflicts('styling', 'tailwind')
+    .option('semantics', {
+      describe: 'Infer buttons, text fields, headings, links and lists from the design (default: true)',
+      type: 'boolean'
+    })
+    .option('stories', {
+      describe: 'Write a Storybook story next to every component (default: false)',
+      type: 'boolean'
+    })
+    .option('tests', {
+      describe: 'Write a Testing Library test next to every component (default: false)',
+      type: 'boolean'
+    })
+    .option('snapshots', {
+      describe: 'Add a snapshot test to the generated tests (default: false)',
+      type: 'boolean'
+    });
+}
+
+/**
+ * Options showing what a run changes, or would change without writing anything
+ */
+function previewOptions(yargs: Argv) {
+  return yargs
+    .option('dry-run', {
+      describe: 'List the files the run would create, update, delete or leave unchanged, without writing any',
+      type: 'boolean',
+      default: false
+    })
+    .option('diff', {
+      describe: 'Show a unified diff of every file the run changes',
+      type: 'boolean',
+      default: false
+    })
+    .option('report', {
+      describe: 'Print a report of the run to stdout, moving other output to stderr',
+      choices: ['json']
+    })
+    .check(argv => {
+      // The watch option's default counts as set for `conflicts`
+      if (argv.watch && (argv['dry-run'] || argv.report)) {
+        throw new Error('--dry-run and --report describe a single run and can\'t be combined with --watch');
+      }
+      return true;
+    });
+}
+
+/**
+ * Options shared by the commands that generate components
+ */
+function generationOptions(yargs: Argv) {
+  return targetOptions(yargs)
+    .option('tokens', {
+      describe: 'Extract design tokens and reference them from components (default: false)',
+      type: 'boolean'
+    })
+    .option('force', {
+      describe: 'Overwrite generated files edited outside their @d2c-keep regions',
+      type: 'boolean',
+      default: false
+    });
+}
+
 async function main() {
   try {
+    // Targets added by the config must be registered before the commands list them
+    const { config: configFile } = yargs(hideBin(process.argv))
+      .option('config', { type: 'string' })
+      .help(false)
+      .version(false)
+      .parseSync();
+    const loaded = loadConfig(configFile);
+    loaded.generators.forEach(registerGenerator);
+
     const argv = yargs(hideBin(process.argv))
       .command(
         'convert <figma-json>',
         'Convert Figma JSON export to components',
         (yargs: Argv) =>
-          yargs
+          previewOptions(generationOptions(yargs))
             .positional('figma-json', {
               describe: 'Path to exported Figma JSON file',
               type: 'string'
             } as any)
-            .option('framework', {
-              alias: 'f',
-              describe: 'Target framework',
-              choices: ['react', 'vue', 'svelte'],
-              default: 'react'
+            .option('assets', {
+              describe: 'Folder with the export\'s images (<imageRef>.<ext>) and layer renders (<node-id>.<format>)',
+              type: 'string'
+            })
+            .option('watch', {
+              describe: 'Keep running and regenerate the components that change whenever the export is saved',
+              type: 'boolean',
+              default: false
+            })
+      )
+      .command(
+        'pull <url-or-key>',
+        'Fetch a file from the Figma API and convert it to components',
+        (yargs: Argv) =>
+          previewOptions(generationOptions(yargs))
+            .positional('url-or-key', {
+              describe: 'Figma file URL or file key',
+              type: 'string'
+            } as any)
+            .option('token', {
+              describe: 'Figma personal access token (default: $FIGMA_TOKEN)',
+              type: 'string'
             })
-            .option('output', {
-              alias: 'o',
-              describe: 'Output directory',
-              default: './components'
+            .option('node-ids', {
+              describe: 'Comma-separated ids of the nodes to convert (default: the URL\'s node-id)',
+              type: 'string'
             })
-            .option('typescript', {
-              alias: 't',
-              describe: 'Generate TypeScript',
+            .option('page', {
+              describe: 'Name or id of the page to convert',
+              type: 'string'
+            })
+            .conflicts('node-ids', 'page')
+            .option('assets', {
+              describe: 'Export image fills, layers marked for export and icons',
               type: 'boolean',
               default: true
             })
-            .option('tailwind', {
-              alias: 'tw',
-              describe: 'Use Tailwind CSS',
+            .option('watch', {
+              describe: 'Keep running and regenerate whenever a new version of the file is saved',
               type: 'boolean',
               default: false
             })
+            .option('interval', {
+              describe: 'Seconds between checks for a new version with --watch',
+              type: 'number',
+              default: 30
+            })
+      )
+      .command(
+        'scaffold <figma-json>',
+        'Generate a runnable app with a route for every top-level frame of a page',
+        (yargs: Argv) =>
+          generationOptions(yargs)
+            .positional('figma-json', {
+              describe: 'Path to exported Figma JSON file',
+              type: 'string'
+            } as any)
+            .option('page', {
+              describe: 'Name or id of the page whose frames become routes (default: the first page)',
+              type: 'string'
+            })
+            .option('router', {
+              describe: 'Router of the app (default: react-router for react, vue-router for vue, sveltekit for svelte)',
+              choices: Array.from(new Set(Object.values(APP_ROUTERS).flat()))
+            })
+            .option('assets', {
+              describe: 'Folder with the export\'s images (<imageRef>.<ext>) and layer renders (<node-id>.<format>)',
+              type: 'string'
+            })
       )
       .command(
         'batch <directory>',
         'Convert multiple Figma JSON files in a directory',
         (yargs: Argv) =>
-          yargs
+          previewOptions(targetOptions(yargs))
             .positional('directory', {
               describe: 'Directory containing Figma JSON files',
               type: 'string'
             } as any)
-            .option('framework', {
-              alias: 'f',
-              describe: 'Target framework',
-              choices: ['react', 'vue', 'svelte'],
-              default: 'react'
+            .option('force', {
+              describe: 'Overwrite generated files edited outside their @d2c-keep regions',
+              type: 'boolean',
+              default: false
             })
-            .option('output', {
-              alias: 'o',
-              describe: 'Output directory',
-              default: './components'
+            .option('watch', {
+              describe: 'Keep running and regenerate an export\'s components whenever it is saved',
+              type: 'boolean',
+              default: false
             })
       )
+      .option('config', {
+        describe: `Config file (default: ${CONFIG_FILES.join(', ')} in the working directory or above)`,
+        type: 'string'
+      })
       .option('verbose', {
         alias: 'v',
         describe: 'Verbose output',
@@ -91,20 +420,51 @@ async function main() {
       .help()
       .alias('help', 'h');
 
-    const parsed = await argv;
+    const args: any = await argv.parseAsync();
+    const settings = resolveSettings(loaded, {
+      framework: args.framework,
+      dialect: args.dialect,
+      output: args.output,
+      typescript: args.typescript,
+      tokens: args.tokens,
+      styling: stylingFlag(args),
+      semantics: args.semantics,
+      stories: args.stories,
+      tests: args.tests,
+      snapshots: args.snapshots
+    });
+    const parsed = { ...args, ...settings };
+    if (parsed.report) {
+      // The report has stdout to itself, so it can be piped
+      messages = process.stderr;
+    }
+    if (loaded.file && parsed.verbose) {
+      log(chalk.blue(`Using ${loaded.file}`));
+    }
 
-    if ((parsed as any)._[0] === 'convert') {
+    if (parsed._[0] === 'convert') {
       await handleConvert(
-        (parsed as any)['figma-json'] as string,
-        parsed as any
+        parsed['figma-json'] as string,
+        parsed
+      );
+    } else if (parsed._[0] === 'pull') {
+      await handlePull(
+        parsed['url-or-key'] as string,
+        parsed
+      );
+    } else if (parsed._[0] === 'scaffold') {
+      // The output directory is the app's; the config's is for components alone
+      await handleScaffold(
+        parsed['figma-json'] as string,
+        { ...parsed, output: args.output || './app' }
       );
-    } else if ((parsed as any)._[0] === 'batch') {
+    } else if (parsed._[0] === 'batch') {
       await handleBatch(
-        (parsed as any)['directory'] as string,
-        parsed as any
+        parsed['directory'] as string,
+        parsed
       );
     } else {
-      console.log(chalk.yellow('No command specified. Use --help for usage.'));
+      log(chalk.yellow('No command specified. Use --help for usage.'));
     }
   } catch (error) {
     console.error(chalk.red('Error:'), error instanceof Error ? error.message : error);
@@ -112,117 +472,834 @@ async function main() {
   }
 }
 
-async function handleConvert(figmaJsonPath: string, options: any) {
+/**
+ * Style mode asked for on the command line, if any
+ */
+function stylingFlag(argv: { styling?: StyleMode; tailwind?: boolean }): StyleMode | undefined {
+  if (argv.styling) return argv.styling;
+  if (argv.tailwind !== undefined) return argv.tailwind ? 'tailwind' : 'stylesheet';
+  return undefined;
+}
+
+/**
+ * Converter settings of a run
+ */
+function converterConfig(options: GenerationSettings): Partial<ComponentConfig> {
+  return {
+    framework: options.framework,
+    dialect: options.dialect,
+    outputDir: options.output,
+    typescript: options.typescript,
+    tailwind: options.styling === 'tailwind',
+    includeStyles: options.styling !== 'inline',
+    layout: options.layout,
+    fileNaming: options.fileNaming,
+    overrides: options.overrides,
+    semantics: options.semantics,
+    stories: options.stories,
+    tests: options.tests,
+    snapshots: options.snapshots
+  };
+}
+
+async function handleConvert(figmaJsonPath: string, options: ConvertOptions) {
+  const started = Date.now();
   if (!fs.existsSync(figmaJsonPath)) {
     throw new Error(`File not found: ${figmaJsonPath}`);
   }
+  if (options.assets && !fs.existsSync(options.assets)) {
+    throw new Error(`Assets folder not found: ${options.assets}`);
+  }
+
+  const assetSource = options.assets ? localAssetSource(options.assets) : undefined;
+  printResult(figmaJsonPath, await generate(fs.readJsonSync(figmaJsonPath), options, assetSource), options, started);
+  if (!options.watch) return;
+
+  // Only components whose nodes changed are regenerated, as on any re-run
+  const filename = path.basename(figmaJsonPath);
+  log(chalk.blue(`\nWatching ${figmaJsonPath} for changes (Ctrl+C to stop)`));
+  watchFiles(path.dirname(figmaJsonPath), name => name === filename, async () => {
+    try {
+      printChanges((await generate(fs.readJsonSync(figmaJsonPath), options, assetSource)).files, filename, options.diff);
+    } catch (error) {
+      console.error(chalk.red(`Error processing ${filename}:`), error instanceof Error ? error.message : error);
+    }
+  });
+}
+
+async function handlePull(urlOrKey: string, options: PullOptions) {
+  const started = Date.now();
+  const token = options.token || process.env.FIGMA_TOKEN;
+  if (!token) {
+    throw new Error('Missing Figma token. Set FIGMA_TOKEN or pass --token.');
+  }
+  if (options.watch && !(options.interval > 0)) {
+    throw new Error(`--interval must be a number of seconds above 0 (got ${options.interval})`);
+  }
+
+  const pull = async () => {
+    const fetching = Date.now();
+    const { figmaData, partial, version } = await fetchDesign(urlOrKey, token, options);
+    const fetched = Date.now() - fetching;
+    const assetSource = options.assets ? figmaAssetSource(urlOrKey, token) : undefined;
+    const result = await generate(figmaData, options, assetSource, partial);
+    return { result: { ...result, timing: { fetch: fetched, ...result.timing } }, version };
+  };
+  const { result, version } = await pull();
+  printResult(extractFileId(urlOrKey), result, options, started);
+  if (!options.watch) return;
+
+  log(chalk.blue(`\nChecking ${extractFileId(urlOrKey)} for new versions every ${options.interval}s (Ctrl+C to stop)`));
+  pollFigmaFile(urlOrKey, token, async () => printChanges((await pull()).result.files, 'Figma file', options.diff), {
+    interval: options.interval * 1000,
+    since: version,
+    onError: error => console.error(chalk.red('Error:'), error instanceof Error ? error.message : error)
+  });
+}
 
+/**
+ * Fetch the part of a Figma file a pull converts, in the shape of a JSON export.
+ * `partial` when only some pages or nodes are fetched.
+ */
+async function fetchDesign(
+  urlOrKey: string,
+  token: string,
+  options: PullOptions
+): Promise<{ figmaData: any; partial: boolean; version?: FigmaFileVersion }> {
+  const nodeIds = options['node-ids']
+    ? options['node-ids'].split(',').map(id => id.trim()).filter(Boolean)
+    : extractNodeIds(urlOrKey);
+
+  let file;
+  if (options.page) {
+    const pages = await fetchFigmaPages(urlOrKey, token);
+    const wanted = options.page.toLowerCase();
+    const page = pages.find(p => p.id === options.page || p.name.toLowerCase() === wanted);
+    if (!page) {
+      throw new Error(`Page not found: ${options.page}. Pages: ${pages.map(p => p.name).join(', ')}`);
+    }
+    file = await fetchFigmaNodes(urlOrKey, [page.id], token);
+  } else if (nodeIds.length > 0) {
+    file = await fetchFigmaNodes(urlOrKey, nodeIds, token);
+  } else {
+    file = (await fetchFigmaFile(urlOrKey, token))!;
+  }
+
+  if (options.verbose) {
+    log(chalk.blue(`Fetched ${file.name} (${file.componentCount} components, ${file.frameCount} frames)`));
+  }
+
+  // Variables are optional: the endpoint needs an Enterprise plan
+  let variables = {};
+  if (options.tokens) {
+    try {
+      variables = await fetchFigmaVariables(urlOrKey, token);
+    } catch (error) {
+      log(chalk.yellow('Skipping Figma Variables:'), error instanceof Error ? error.message : error);
+    }
+  }
+
+  const figmaData = { name: file.name, key: extractFileId(urlOrKey), document: file.raw, styles: file.styles, ...variables };
+  const version = file.version !== undefined && file.lastModified !== undefined
+    ? { version: file.version, lastModified: file.lastModified }
+    : undefined;
+  return { figmaData, partial: Boolean(options.page) || nodeIds.length > 0, version };
+}
+
+/**
+ * Generate the components of a Figma export into an app whose routes are
+ * the top-level frames of a page, with prototype links pointing at them.
+ * App files that already exist are kept, as they are meant to be edited.
+ */
+async function handleScaffold(figmaJsonPath: string, options: ScaffoldOptions) {
+  if (!fs.existsSync(figmaJsonPath)) {
+    throw new Error(`File not found: ${figmaJsonPath}`);
+  }
+  if (options.assets && !fs.existsSync(options.assets)) {
+    throw new Error(`Assets folder not found: ${options.assets}`);
+  }
+
+  const router = appRouter(options.framework, options.router);
   const figmaData = fs.readJsonSync(figmaJsonPath);
+  const generated = new Set(collectComponentRoots(figmaData.document, options).map(node => node.id));
+  const routes = pageRoutes(figmaData.document, options.page, options.responsive)
+    .filter(route => generated.has(route.node.id));
+  if (routes.length === 0) {
+    throw new Error(`No frames to make routes of on ${options.page ? `page ${options.page}` : 'the first page'}`);
+  }
+
+  const components = {
+    ...options,
+    output: path.join(options.output, componentsDirectory(router)),
+    routes: routeTable(routes),
+    router
+  };
+  const result = await generate(figmaData, components, options.assets ? localAssetSource(options.assets) : undefined);
+  printSummary(result, components);
+  const { converter } = result;
+  if (options.styling === 'tailwind') {
+    log(chalk.yellow('!'), 'The app has no Tailwind setup: add Tailwind to it for the components\' classes');
+  }
+
+  const files = generateApp(routes.map(({ path: routePath, node }) => ({
+    path: routePath,
+    component: converter.componentFile(node),
+    overlays: converter.buildIR(node).props.filter(p => p.overlay).map(p => p.name)
+  })), {
+    router,
+    title: figmaData.name || 'App',
+    typescript: options.typescript,
+    dialect: generatorDialect(getGenerator(options.framework), options.dialect),
+    tokens: Boolean(options.tokens)
+  });
+
+  let kept = 0;
+  for (const file of files) {
+    const outpath = path.join(options.output, file.filename);
+    if (!options.force && fs.existsSync(outpath)) {
+      kept++;
+      continue;
+    }
+    await fs.outputFile(outpath, file.code);
+    if (options.verbose) {
+      log(chalk.green('✓'), `Generated ${file.filename}`);
+    }
+  }
+
+  log(chalk.green.bold(`\n✓ Scaffolded a ${router} app with ${routes.length} routes`));
+  routes.forEach(route => log(chalk.cyan(`  ${route.path} → ${converter.componentFile(route.node).name}`)));
+  log(chalk.cyan(`  App: ${path.resolve(options.output)}`));
+  if (kept > 0) {
+    log(chalk.yellow(`  Kept ${kept} existing app files (--force rewrites them)`));
+  }
+}
+
+/**
+ * Generate components, and optionally tokens and assets, from a Figma
+ * document in the shape of a JSON export. The manifest in the output directory
+ * lets re-runs skip unchanged nodes, keep hand edits and report removed nodes;
+ * `partial` runs cover only part of the file, so they report no orphans. Each
+ * export of a `batch` has its own part of the manifest, and its components
+ * can't take the files of the others.
+ */
+async function generate(
+  figmaData: any,
+  options: any,
+  assetSource?: AssetSource,
+  partial = false,
+  batch?: BatchExport
+): Promise<GenerationResult> {
+  const dryRun = Boolean(options['dry-run']);
+  if (!dryRun) await fs.ensureDir(options.output);
+
+  const { warnings, warn } = warningLog();
+  const timing: Record<string, number> = {};
+  const written: WrittenFile[] = [];
+  const report = (file: WrittenFile) => {
+    written.push(file);
+    if (file.status === 'protected') {
+      warn({ kind: 'protected', message: `Kept ${file.filename}: edited outside its @d2c-keep regions (--force overwrites it)` });
+    } else if (options.verbose && !dryRun && file.status !== 'unchanged') {
+      log(chalk.green('✓'), `${WRITE_VERBS[file.status]} ${file.filename}`);
+    }
+  };
+
+  const roots = collectComponentRoots(figmaData.document, options);
+  const tokens = batch ? batch.tokens : options.tokens ? await timed(timing, 'tokens', () => writeTokens(tokenSourceFromJSON(figmaData), options, report)) : undefined;
+  const assets = assetSource ? await timed(timing, 'assets', () => writeAssets(roots, assetSource, options, report)) : undefined;
+  const paths = nodePaths(figmaData.document);
+  const manifest = await readManifest(options.output);
+  const scope: ManifestScope = batch ? manifest.exports?.[batch.source] ?? { nodes: {} } : manifest;
+  const others = Object.entries(manifest.exports || {}).filter(([source]) => source !== batch?.source);
   const converter = new DesignToCode({
+    ...converterConfig(options),
+    tokens,
+    assets,
+    nodePaths: paths,
+    fileKey: figmaData.key,
+    routes: options.routes,
+    router: options.router,
+    reservedFiles: batch && [
+      ...batch.taken,
+      ...others.flatMap(([, other]) => Object.values(other.nodes).flatMap(entry => Object.keys(entry.files)))
+    ]
+  });
+
+  // Anything that changes every component's output regenerates them all
+  const settingsHash = hashContent(JSON.stringify({
     framework: options.framework,
-    outputDir: options.output,
+    // Resolved, so a new default dialect regenerates the components
+    dialect: generatorDialect(getGenerator(options.framework), options.dialect),
     typescript: options.typescript,
-    tailwind: options.tailwind
-  });
+    styling: options.styling,
+    layout: options.layout,
+    fileNaming: options.fileNaming,
+    overrides: options.overrides,
+    semantics: options.semantics,
+    responsive: options.responsive,
+    tokens,
+    assets: assets && assetList(assets).map(asset => asset.filename),
+    // With the names they get, which another node or export can take
+    components: roots.map(node => [node.id, node.name, converter.componentFile(node).name]),
+    // Story titles follow the pages and frames above each component
+    stories: options.stories && roots.map(node => paths.get(node.id)),
+    tests: options.tests && { snapshots: options.snapshots },
+    routes: options.routes,
+    router: options.router
+  }));
+  const regenerateAll = options.force || scope.settingsHash !== settingsHash;
+  const nodes: ManifestScope['nodes'] = partial ? { ...scope.nodes } : {};
+  const records: Record<string, NodeRecord> = {};
+  // Files nodes generated on the previous run but not on this one, e.g. under an old name
+  const stale: Array<{ filename: string; hash: string; name: string }> = [];
 
-  await fs.ensureDir(options.output);
-
-  let componentCount = 0;
-  const processNode = async (node: FigmaNode) => {
-    if (node.type === 'COMPONENT' || node.type === 'FRAME') {
-      const { code, filename } = converter.generateComponent(node);
-      const filepath = path.join(options.output, filename);
-      
-      await fs.writeFile(filepath, code);
-      componentCount++;
-      
-      if (options.verbose) {
-        console.log(chalk.green('✓'), `Generated ${filename}`);
-      }
+  const write = async (generated: Omit<GeneratedComponent, 'name'>, name: string, sourceHash: string): Promise<NodeRecord> => {
+    const started = Date.now();
+    const previous = scope.nodes[generated.nodeId];
+    const entry: ManifestEntry = { name, sourceHash, files: {} };
+    const files = [generated, ...generated.files];
+    for (const { filename, code } of files) {
+      const plan = await (dryRun ? planGeneratedFile : writeGeneratedFile)(
+        options.output, filename, code, previous?.files[filename], options.force
+      );
+      if (plan.hash) entry.files[filename] = plan.hash;
+      report(writtenFile(filename, plan));
+    }
+    for (const [filename, hash] of Object.entries(previous?.files || {})) {
+      if (!files.some(file => file.filename === filename)) stale.push({ filename, hash, name });
+    }
+    nodes[generated.nodeId] = entry;
+    return { name, status: 'generated', files: files.map(file => file.filename), ms: Date.now() - started };
+  };
+
+  const preview = options.stories ? converter.generateStoryPreview() : undefined;
+  if (options.stories && !preview) {
+    warn({ kind: 'stories', message: `Skipping stories: the ${options.framework} target has no Storybook support` });
+  }
+  if (options.tests && !getGenerator(options.framework).tests) {
+    warn({ kind: 'tests', message: `Skipping tests: the ${options.framework} target has no Testing Library support` });
+  }
+
+  const generating = Date.now();
+  converter.registerComponents(roots);
+  reportCollisions(converter, warn);
+  reportBreakpoints(roots, options.styling, warn);
+  reportInteractions(roots, options.styling, warn);
+  reportContrast(roots, warn);
+  reportUnsupported(roots, assets, warn);
+  for (const node of roots) {
+    const sourceHash = hashContent(JSON.stringify(node));
+    const previous = scope.nodes[node.id];
+    const files = Object.keys(previous?.files || {});
+
+    // Skip nodes that haven't changed since their files were generated,
+    // unless another node took their name
+    if (!regenerateAll && previous?.sourceHash === sourceHash &&
+        files.includes(converter.componentFile(node).filename) &&
+        files.every(file => fs.existsSync(path.join(options.output, file)))) {
+      nodes[node.id] = previous;
+      records[node.id] = { name: node.name, status: 'unchanged', files };
+      files.forEach(filename => report({ filename, status: 'unchanged' }));
+      continue;
+    }
+    records[node.id] = await write(converter.generateComponent(node), node.name, sourceHash);
+  }
+  const icons = converter.generateIcons();
+  for (const icon of icons) {
+    records[icon.nodeId] = await write(icon, icon.filename, hashContent(icon.code));
+  }
+  // A batch writes its preview once, for all its exports
+  if (preview && !batch) {
+    await write({ ...preview, nodeId: 'storybook-preview', files: [] }, 'Storybook preview', hashContent(preview.code));
+  }
+
+  // Stale files go once every node is written, unless another node generates them now
+  for (const { filename, hash, name } of stale) {
+    if (written.some(file => file.filename === filename)) continue;
+    const plan = await planStaleFile(options.output, filename, hash, options.force);
+    if (!plan) continue;
+    if (plan.status === 'protected') {
+      written.push({ filename, status: 'protected' });
+      warn({ kind: 'protected', message: `Kept ${filename}: ${name} no longer generates it, but it was edited (--force deletes it)` });
+      continue;
     }
+    if (!dryRun) await fs.remove(path.join(options.output, filename));
+    report(writtenFile(filename, plan));
+  }
+  timing.components = Date.now() - generating;
 
-    if (node.children) {
-      for (const child of node.children) {
-        await processNode(child);
-      }
+  // Files of nodes deleted from Figma stay until removed by hand
+  const orphans: string[] = [];
+  if (!partial) {
+    for (const [id, entry] of Object.entries(scope.nodes)) {
+      if (nodes[id]) continue;
+      const remaining = Object.keys(entry.files).filter(file => fs.existsSync(path.join(options.output, file)));
+      if (remaining.length === 0) continue;
+
+      nodes[id] = { ...entry, files: Object.fromEntries(remaining.map(file => [file, entry.files[file]])) };
+      orphans.push(...remaining);
+      warn({
+        kind: 'orphan',
+        nodeId: id,
+        message: `Orphaned ${remaining.join(', ')}: ${entry.name} (${id}) is no longer in the design`
+      });
     }
+  }
+
+  if (!dryRun) {
+    await writeManifest(options.output, batch
+      ? { ...manifest, exports: { ...manifest.exports, [batch.source]: { settingsHash, nodes } } }
+      : { ...manifest, settingsHash, nodes });
+  }
+  return {
+    converter,
+    components: roots.length + icons.length,
+    files: written,
+    nodes: records,
+    skipped: skippedNodes(figmaData.document, options),
+    orphans,
+    warnings,
+    timing,
+    tokens,
+    assets
   };
+}
+
+/**
+ * Print what a generation run wrote, or would write, with the diffs and report asked for
+ */
+function printResult(source: string, result: GenerationResult, options: any, started: number): void {
+  if (options['dry-run']) {
+    printPlan(result.files);
+  } else {
+    printSummary(result, options);
+  }
+  if (options.diff) {
+    printDiffs(result.files);
+  }
+  if (options.report) {
+    printReport(result.files, [{ source, ...result }], options, started);
+  }
+}
 
-  if (figmaData.document?.children) {
-    for (const child of figmaData.document.children) {
-      await processNode(child);
+function countStatuses(files: WrittenFile[]): Record<WriteStatus, number> {
+  const counts: Record<WriteStatus, number> = { created: 0, updated: 0, merged: 0, unchanged: 0, protected: 0, deleted: 0 };
+  files.forEach(file => counts[file.status]++);
+  return counts;
+}
+
+/**
+ * Print what a generation run wrote, and where
+ */
+function printSummary(result: GenerationResult, options: any): void {
+  const { files, orphans, tokens, assets } = result;
+
+  log(chalk.green.bold(`\n✓ Generated ${result.components} components`));
+  log(chalk.cyan(`  Output: ${path.resolve(options.output)}`));
+  log(chalk.cyan(`  Framework: ${options.framework}`));
+  log(chalk.cyan(`  TypeScript: ${options.typescript ? 'yes' : 'no'}`));
+  printFileCounts(files, orphans);
+  if (tokens) {
+    log(chalk.cyan(`  Tokens: ${tokens.tokens.length}`));
+  }
+  if (assets) {
+    log(chalk.cyan(`  Assets: ${assetList(assets).length}`));
+  }
+}
+
+/**
+ * How many files a run wrote, deleted or left alone, and how many it orphaned
+ */
+function printFileCounts(files: WrittenFile[], orphans: string[]): void {
+  const counts = countStatuses(files);
+  log(chalk.cyan(
+    `  Files: ${counts.created} created, ${counts.updated + counts.merged} updated (${counts.merged} merged), ` +
+    `${counts.deleted} deleted, ${counts.unchanged} unchanged, ${counts.protected} protected`
+  ));
+  if (orphans.length > 0) {
+    log(chalk.yellow(`  Orphaned: ${orphans.length} files`));
+  }
+}
+
+const CHANGE_MARKS: Record<WriteStatus, string> = {
+  created: '+',
+  updated: '~',
+  merged: '~',
+  unchanged: '',
+  protected: '!',
+  deleted: '-'
+};
+
+const WRITE_VERBS: Record<WriteStatus, string> = {
+  created: 'Generated',
+  updated: 'Updated',
+  merged: 'Updated',
+  unchanged: 'Kept',
+  protected: 'Kept',
+  deleted: 'Deleted'
+};
+
+/** Headings of the files a dry run lists, by what would happen to them */
+const PLAN_GROUPS: Array<[string, WriteStatus[]]> = [
+  ['Would create', ['created']],
+  ['Would update', ['updated', 'merged']],
+  ['Would delete', ['deleted']],
+  ['Would keep, as edited by hand', ['protected']],
+  ['Unchanged', ['unchanged']]
+];
+
+/**
+ * One line for a watch run: the files it changed, and how many it left alone
+ */
+function printChanges(written: WrittenFile[], source: string, diff = false): void {
+  const time = new Date().toLocaleTimeString();
+  const changed = written.filter(file => file.status !== 'unchanged');
+  const unchanged = chalk.gray(`${written.length - changed.length} unchanged`);
+  const files = changed.map(file => `${CHANGE_MARKS[file.status]} ${file.filename}`);
+  log(`${chalk.gray(`[${time}]`)} ${source}: ${[...files, unchanged].join(', ')}`);
+  if (diff) {
+    printDiffs(written);
+  }
+}
+
+/**
+ * List the files a dry run would write, by what would happen to them
+ */
+function printPlan(files: WrittenFile[]): void {
+  log(chalk.bold('\nDry run: no files written'));
+  for (const [heading, statuses] of PLAN_GROUPS) {
+    const group = files.filter(file => statuses.includes(file.status));
+    if (group.length === 0) continue;
+    log(chalk.cyan(`  ${heading} (${group.length}):`));
+    for (const file of group) {
+      const line = `    ${CHANGE_MARKS[file.status] || ' '} ${file.filename}`;
+      log(file.status === 'unchanged' ? chalk.gray(line) : line);
     }
   }
+}
 
-  console.log(chalk.green.bold(`\n✓ Generated ${componentCount} components`));
-  console.log(chalk.cyan(`  Output: ${path.resolve(options.output)}`));
-  console.log(chalk.cyan(`  Framework: ${options.framework}`));
-  console.log(chalk.cyan(`  TypeScript: ${options.typescript ? 'yes' : 'no'}`));
+/**
+ * Print a unified diff of every changed text file
+ */
+function printDiffs(files: WrittenFile[]): void {
+  for (const file of files) {
+    if (file.before === undefined && file.after === undefined) continue;
+    const diff = unifiedDiff(file.filename, file.before, file.after);
+    for (const line of diff.trimEnd().split('\n').filter(Boolean)) {
+      if (line.startsWith('+++') || line.startsWith('---')) log(chalk.bold(line));
+      else if (line.startsWith('@@')) log(chalk.cyan(line));
+      else if (line.startsWith('+')) log(chalk.green(line));
+      else if (line.startsWith('-')) log(chalk.red(line));
+      else log(line);
+    }
+  }
+}
+
+/**
+ * Print the JSON report of a run to stdout: every file with what happened to
+ * it, and per export the files of each node, the nodes left out, the
+ * warnings and how long each step took. `changed` counts the files the run
+ * writes or deletes, so CI can fail when a design would change them.
+ */
+function printReport(
+  files: WrittenFile[],
+  runs: Array<RunRecord & { source: string }>,
+  options: any,
+  started: number
+): void {
+  const counts = countStatuses(files);
+  const report = {
+    dryRun: Boolean(options['dry-run']),
+    summary: { ...counts, changed: counts.created + counts.updated + counts.merged + counts.deleted },
+    files: files.map(({ filename, status }) => ({ filename, status })),
+    sources: runs.map(run => ({
+      source: run.source,
+      nodes: run.nodes,
+      skipped: run.skipped.map(({ node, reason }) => ({ id: node.id, name: node.name, reason })),
+      orphans: run.orphans,
+      warnings: run.warnings,
+      timing: run.timing
+    })),
+    timing: { total: Date.now() - started }
+  };
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
 }
 
-async function handleBatch(directory: string, options: any): Promise<void> {
+/**
+ * Print warnings as they come up, and collect them for the report
+ */
+function warningLog(): { warnings: Warning[]; warn: Warn } {
+  const warnings: Warning[] = [];
+  const warn = (warning: Warning) => {
+    warnings.push(warning);
+    log(chalk.yellow('!'), warning.message);
+  };
+  return { warnings, warn };
+}
+
+/**
+ * Run a step of a run, recording how long it took
+ */
+async function timed<T>(timing: Record<string, number>, step: string, run: () => Promise<T>): Promise<T> {
+  const started = Date.now();
+  const result = await run();
+  timing[step] = Date.now() - started;
+  return result;
+}
+
+/**
+ * The file as a run reports it, with its text before and after if it changed
+ */
+function writtenFile(filename: string, plan: FilePlan): WrittenFile {
+  if (plan.status === 'unchanged' || plan.status === 'protected') {
+    return { filename, status: plan.status };
+  }
+  return { filename, status: plan.status, before: plan.existing, after: plan.content };
+}
+
+/**
+ * Write a file the manifest doesn't track unless it already holds `content`;
+ * with `dryRun`, only work out whether it would be written
+ */
+async function outputFile(output: string, filename: string, content: string | Buffer, dryRun: boolean): Promise<WrittenFile> {
+  const outpath = path.join(output, filename);
+  const existing = fs.existsSync(outpath) ? await fs.readFile(outpath) : undefined;
+  const bytes = typeof content === 'string' ? Buffer.from(content) : content;
+  const status: WriteStatus = existing === undefined ? 'created' : existing.equals(bytes) ? 'unchanged' : 'updated';
+  if (status !== 'unchanged' && !dryRun) {
+    await fs.outputFile(outpath, content);
+  }
+  return typeof content === 'string' && status !== 'unchanged'
+    ? { filename, status, before: existing?.toString('utf8'), after: content }
+    : { filename, status };
+}
+
+/**
+ * Warn about nodes that got a suffixed name because another node took theirs
+ */
+function reportCollisions(converter: DesignToCode, warn: Warn): void {
+  for (const { node, requested, name } of converter.nameCollisions) {
+    warn({ kind: 'name-collision', nodeId: node.id, message: `Named ${node.name} (${node.id}) ${name}: ${requested} is taken by another node` });
+  }
+}
+
+/**
+ * Warn about layers of responsive screens that only some of their frames
+ * have, and about screens inline styles can show at one width only
+ */
+function reportBreakpoints(roots: FigmaNode[], styling: StyleMode, warn: Warn): void {
+  const reported = new Set<string>();
+  for (const root of roots.filter(node => node.breakpointFrames)) {
+    for (const { node, present, missing } of unmatchedLayers(root)) {
+      // Frames in a screen are grouped too, so their layers come up again
+      if (reported.has(node.id)) continue;
+      reported.add(node.id);
+      warn({
+        kind: 'unmatched-layer',
+        nodeId: node.id,
+        message: `Unmatched layer: ${node.name} (${node.id}) of ${root.name} is in ${present.join(', ')} but not ${missing.join(', ')}`
+      });
+    }
+    if (styling === 'inline') {
+      const narrowest = root.breakpointFrames![0].breakpoint.name;
+      warn({
+        kind: 'inline-breakpoints',
+        nodeId: root.id,
+        message: `${root.name} only shows its ${narrowest} layout: inline styles have no media queries`
+      });
+    }
+  }
+}
+
+/**
+ * Warn about hover and press variants inline styles can't show
+ */
+function reportInteractions(roots: FigmaNode[], styling: StyleMode, warn: Warn): void {
+  if (styling !== 'inline') return;
+  for (const root of roots.filter(hasPointerStates)) {
+    warn({
+      kind: 'inline-pointer-states',
+      nodeId: root.id,
+      message: `${root.name} leaves out its hover and press variants: inline styles have no :hover or :active`
+    });
+  }
+}
+
+/**
+ * Warn about text too close in color to its background, once per layer
+ * even when it is part of several components
+ */
+function reportContrast(roots: FigmaNode[], warn: Warn): void {
+  const reported = new Set<string>();
+  for (const issue of roots.flatMap(contrastIssues)) {
+    if (reported.has(issue.node.id)) continue;
+    reported.add(issue.node.id);
+    const { node, foreground, background, ratio, required } = issue;
+    warn({
+      kind: 'contrast',
+      nodeId: node.id,
+      message: `Low contrast: ${node.name} (${node.id}) is ${foreground} on ${background}, ${ratio}:1 (needs ${required}:1)`
+    });
+  }
+}
+
+/**
+ * Warn about masks, boolean operations and fills generated code can't
+ * reproduce, once per layer and feature
+ */
+function reportUnsupported(roots: FigmaNode[], assets: AssetSet | undefined, warn: Warn): void {
+  const reported = new Set<string>();
+  for (const { node, feature, detail } of roots.flatMap(root => unsupportedFeatures(root, assets))) {
+    const key = `${node.id} ${detail}`;
+    if (reported.has(key)) continue;
+    reported.add(key);
+    warn({ kind: feature, nodeId: node.id, message: `Unsupported ${feature.replace('-', ' ')}: ${node.name} (${node.id}) ${detail}` });
+  }
+}
+
+async function writeTokens(source: TokenSource, options: any, report: (file: WrittenFile) => void): Promise<TokenSet> {
+  const tokens = extractTokens(source);
+
+  const files: Record<string, string> = {
+    'tokens.css': generateTokensCSS(tokens),
+    'tokens.json': generateTokensJSON(tokens),
+    'tailwind.tokens.js': generateTailwindTheme(tokens)
+  };
+
+  for (const [filename, content] of Object.entries(files)) {
+    report(await outputFile(options.output, filename, content, options['dry-run']));
+  }
+
+  return tokens;
+}
+
+async function writeAssets(
+  roots: FigmaNode[],
+  source: AssetSource,
+  options: any,
+  report: (file: WrittenFile) => void
+): Promise<AssetSet> {
+  const assets = await resolveAssets(roots, source);
+  for (const asset of assetList(assets)) {
+    report(await outputFile(options.output, asset.filename, asset.content, options['dry-run']));
+  }
+
+  return assets;
+}
+
+async function handleBatch(directory: string, options: BatchOptions): Promise<void> {
+  const started = Date.now();
   if (!fs.existsSync(directory)) {
     throw new Error(`Directory not found: ${directory}`);
   }
 
-  const files = fs.readdirSync(directory).filter((f: string) => f.endsWith('.json'));
+  // Sorted, so which of two exports' same-named frames gets a suffix doesn't change between runs
+  const files = fs.readdirSync(directory).filter((f: string) => f.endsWith('.json')).sort();
   
-  if (files.length === 0) {
-    console.log(chalk.yellow('No JSON files found in directory'));
+  if (files.length === 0 && !options.watch) {
+    log(chalk.yellow('No JSON files found in directory'));
     return;
   }
 
   let totalComponents = 0;
+  const runs: Array<RunRecord & { source: string }> = [];
+  const tokenFiles: WrittenFile[] = [];
+  let tokens = options.tokens ? await writeBatchTokens(directory, files, options, file => tokenFiles.push(file)) : undefined;
 
   for (const file of files) {
-    const filepath = path.join(directory, file);
-    
     if (options.verbose) {
-      console.log(chalk.blue(`Processing ${file}...`));
+      log(chalk.blue(`Processing ${file}...`));
     }
 
     try {
-      const figmaData = fs.readJsonSync(filepath);
-      const converter = new DesignToCode({
-        framework: options.framework,
-        outputDir: options.output
-      });
-
-      await fs.ensureDir(options.output);
-
-      const processNode = async (node: FigmaNode): Promise<void> => {
-        if (node.type === 'COMPONENT' || node.type === 'FRAME') {
-          const { code, filename } = converter.generateComponent(node);
-          const outpath = path.join(options.output, filename);
-          
-          await fs.writeFile(outpath, code);
-          totalComponents++;
-          
-          if (options.verbose) {
-            console.log(chalk.green('  ✓'), filename);
-          }
-        }
-
-        if (node.children) {
-          for (const child of node.children) {
-            await processNode(child);
-          }
-        }
-      };
-
-      if (figmaData.document?.children) {
-        for (const child of figmaData.document.children) {
-          await processNode(child);
-        }
-      }
+      // A dry run writes no manifest, so the files earlier exports would take are passed on
+      const taken = runs.flatMap(run => run.files.filter(written => written.status !== 'deleted').map(written => written.filename));
+      const run = await convertBatchFile(path.join(directory, file), options, taken, tokens);
+      totalComponents += run.components;
+      runs.push({ source: file, ...run });
     } catch (error) {
       console.error(chalk.red(`Error processing ${file}:`), error instanceof Error ? error.message : error);
     }
   }
 
-  console.log(chalk.green.bold(`\n✓ Batch complete`));
-  console.log(chalk.cyan(`  Total components: ${totalComponents}`));
-  console.log(chalk.cyan(`  Output: ${path.resolve(options.output)}`));
+  const written = [...tokenFiles, ...runs.flatMap(run => run.files)];
+  const preview = options.stories && new DesignToCode(converterConfig(options)).generateStoryPreview();
+  if (preview) {
+    written.push(await outputFile(options.output, preview.filename, preview.code, options['dry-run']));
+  }
+
+  if (options['dry-run']) {
+    printPlan(written);
+  } else {
+    log(chalk.green.bold(`\n✓ Batch complete`));
+    log(chalk.cyan(`  Total components: ${totalComponents}`));
+    log(chalk.cyan(`  Output: ${path.resolve(options.output)}`));
+    printFileCounts(written, runs.flatMap(run => run.orphans));
+  }
+  if (options.diff) {
+    printDiffs(written);
+  }
+  if (options.report) {
+    printReport(written, runs, options, started);
+  }
+  if (!options.watch) return;
+
+  // A changed export regenerates its own components, and the others are left
+  // alone unless it changed the batch's tokens
+  log(chalk.blue(`\nWatching ${directory} for changes (Ctrl+C to stop)`));
+  watchFiles(directory, name => name.endsWith('.json'), async names => {
+    const all = fs.readdirSync(directory).filter((f: string) => f.endsWith('.json')).sort();
+    let changed = names.includes(null) ? all : names as string[];
+    if (options.tokens) {
+      const previous = tokens;
+      const written: WrittenFile[] = [];
+      tokens = await writeBatchTokens(directory, all, options, file => written.push(file));
+      printChanges(written, 'tokens', options.diff);
+      if (JSON.stringify(tokens) !== JSON.stringify(previous)) changed = all;
+    }
+    for (const file of changed) {
+      const filepath = path.join(directory, file);
+      // Deleted exports leave their components in place
+      if (!fs.existsSync(filepath)) continue;
+      try {
+        // The other exports' files are in the manifest by now
+        printChanges((await convertBatchFile(filepath, options, [], tokens)).files, file, options.diff);
+      } catch (error) {
+        console.error(chalk.red(`Error processing ${file}:`), error instanceof Error ? error.message : error);
+      }
+    }
+  });
+}
+
+/**
+ * Extract the tokens of all the exports of a batch as one set and write its
+ * files, so no export's tokens overwrite another's. Exports that don't parse
+ * are left out here and reported when they are converted.
+ */
+async function writeBatchTokens(
+  directory: string,
+  files: string[],
+  options: BatchOptions,
+  report: (file: WrittenFile) => void
+): Promise<TokenSet> {
+  const sources: TokenSource[] = [];
+  for (const file of files) {
+    try {
+      sources.push(tokenSourceFromJSON(await fs.readJson(path.join(directory, file))));
+    } catch {
+      // Reported by convertBatchFile
+    }
+  }
+  return writeTokens(mergeTokenSources(sources), options, report);
+}
+
+/**
+ * Generate the components of one export of a batch, as `convert` does
+ * without assets, referencing the batch's tokens rather than its own.
+ */
+async function convertBatchFile(filepath: string, options: BatchOptions, taken: string[], tokens?: TokenSet): Promise<GenerationResult> {
+  const figmaData = await fs.readJson(filepath);
+  return generate(figmaData, options, undefined, false, { source: path.basename(filepath), taken, tokens });
 }
 
 main().catch((error) => {
@@ -0,0 +1,158 @@
+import type { GeneratedFile, GeneratorOptions } from './generator';
+import { ComponentIR, companionFile } from './ir';
+import { keepRegion } from './manifest';
+import { jsLiteral, RenderElement } from './renderer';
+
+/**
+ * How a target's components are rendered in tests, with its Testing Library flavor
+ */
+export interface TestSupport {
+  /** Testing Library package the tests are written with, e.g. `@testing-library/react` */
+  library: string;
+  /** Extension of test files, without the first dot, e.g. `test.tsx` */
+  extension(options: GeneratorOptions): string;
+  /** Import of the component into its test file */
+  imports(ir: ComponentIR, testFile: string): string;
+  /**
+   * Expression rendering the component with props, given as JS expressions,
+   * and a class name when `className` is set
+   */
+  render(ir: ComponentIR, props: Record<string, string>, className?: string): string;
+  /** Whether `render` is async, making every test async */
+  async?: boolean;
+  /** Whether classes given to `render` reach the root element; the class test is left out otherwise */
+  forwardsClass?: boolean;
+}
+
+export interface TestOptions {
+  /** Add a test comparing the rendered markup with a stored snapshot */
+  snapshots?: boolean;
+}
+
+/**
+ * Write a test file for a component: it renders, forwards its class,
+ * shows the text of its layers and renders with every variant value
+ */
+export function generateTests(
+  ir: ComponentIR,
+  support: TestSupport,
+  testOptions: TestOptions,
+  options: GeneratorOptions
+): GeneratedFile {
+  const filename = companionFile(ir.filename, `.${support.extension(options)}`);
+  const testId = jsLiteral(ir.testId);
+  const fn = support.async ? 'async () =>' : '() =>';
+  const render = (props: Record<string, string> = {}, className?: string) =>
+    `${support.async ? 'await ' : ''}${support.render(ir, props, className)}`;
+
+  const tests = [
+    `  it('renders', ${fn} {
+    ${render()};
+    expect(screen.getByTestId(${testId})).toBeTruthy();
+  });`
+  ];
+
+  if (support.forwardsClass) {
+    tests.push(`  it('forwards its class', ${fn} {
+    ${render({}, 'custom-class')};
+    expect(screen.getByTestId(${testId}).classList.contains('custom-class')).toBe(true);
+  });`);
+  }
+
+  const texts = visibleTexts(ir);
+  if (texts.length) {
+    tests.push(`  it('shows the text of its layers', ${fn} {
+    ${render()};
+${texts.map(({ text, split }) => `    expect(screen.getAllByText(${split ? textContentMatcher(text) : jsLiteral(text)})).not.toHaveLength(0);\n`).join('')}  });`);
+  }
+
+  for (const prop of ir.props.filter(p => p.kind === 'variant' && p.options?.length)) {
+    const values = `[${prop.options!.map(option => jsLiteral(option)).join(', ')}]${options.typescript ? ' as const' : ''}`;
+    tests.push(`  it.each(${values})('renders with ${prop.name} %s', ${support.async ? 'async ' : ''}${prop.name} => {
+    ${render({ [prop.name]: prop.name })};
+    expect(screen.getByTestId(${testId})).toBeTruthy();
+  });`);
+  }
+
+  if (testOptions.snapshots) {
+    tests.push(`  it('matches its snapshot', ${fn} {
+    const { container } = ${render()};
+    expect(container.firstChild).toMatchSnapshot();
+  });`);
+  }
+
+  const code = `import { render, screen } from '${support.library}';
+${support.imports(ir, filename)}${keepRegion('imports')}
+
+/**
+ * Tests for ${ir.name}
+ * Auto-generated from Figma design
+ * Original Figma ID: ${ir.node.id}
+ */
+describe('${ir.name}', () => {
+${tests.join('\n\n')}
+
+${keepRegion('tests', '  ')}
+});
+`;
+
+  return { filename, code };
+}
+
+/**
+ * Text the component shows with its default props: the text layers that
+ * aren't conditional, bound to variants or rendered by another component.
+ * Whitespace is collapsed as Testing Library does when matching. `split`
+ * text is spread over the spans of mixed-style runs.
+ */
+function visibleTexts(ir: ComponentIR): Array<{ text: string; split: boolean }> {
+  const texts = new Map<string, boolean>();
+  const visit = (element: RenderElement) => {
+    if (element.condition || element.instance) return;
+    if (element.text !== undefined) {
+      const bound = element.textBinding !== undefined;
+      const text = bound ? boundText(ir, element.textBinding!) : element.text;
+      const normalized = text?.trim().replace(/\s+/g, ' ');
+      // A string matches the text wherever one of its layers shows it whole
+      const split = !bound && Boolean(element.spans?.length);
+      if (normalized) texts.set(normalized, (texts.get(normalized) ?? true) && split);
+    }
+    element.children.forEach(visit);
+  };
+  visit(ir.tree);
+  return Array.from(texts, ([text, split]) => ({ text, split }));
+}
+
+/**
+ * Text query matching elements by their whole text, as text split across
+ * elements doesn't match a string
+ */
+function textContentMatcher(text: string): string {
+  return `(_, element) => element?.textContent?.replace(/\\s+/g, ' ').trim() === ${jsLiteral(text)}`;
+}
+
+function boundText(ir: ComponentIR, binding: string): string | undefined {
+  const prop = ir.props.find(p => p.kind === 'text' && p.name === binding);
+  return prop && String(prop.defaultValue ?? '');
+}
+
+/**
+ * A JSX element with props given as JS expressions and attributes as strings,
+ * e.g. `<Button size={size} className="custom-class" />`
+ */
+export function jsxElement(name: string, props: Record<string, string>, attributes: Record<string, string> = {}): string {
+  const parts = [
+    ...Object.entries(props).map(([prop, expression]) => `${prop}={${expression}}`),
+    ...Object.entries(attributes).map(([attribute, value]) => `${attribute}=${JSON.stringify(value)}`)
+  ];
+  return `<${[name, ...parts].join(' ')} />`;
+}
+
+/**
+ * An object literal of JS expressions, using shorthand where it can,
+ * e.g. `{ size, class: 'custom-class' }`
+ */
+export function objectLiteral(entries: Record<string, string>): string {
+  const parts = Object.entries(entries).map(([key, expression]) => (key === expression ? key : `${key}: ${expression}`));
+  return `{ ${parts.join(', ')} }`;
+}
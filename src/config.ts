@@ -0,0 +1,411 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import { FrameworkGenerator, generatorNames } from './generator';
+import type { StyleMode } from './ir';
+import type { FileNaming, OutputLayout } from './naming';
+import type { ResponsiveOptions } from './responsive';
+import type { NodeFilter, NodeOverride, NodeSelection } from './selection';
+
+/**
+ * Config file names looked up in the working directory and its parents, in order
+ */
+export const CONFIG_FILES = [
+  'design-to-code.config.ts',
+  'design-to-code.config.js',
+  'design-to-code.config.cjs',
+  'design-to-code.config.json'
+];
+
+/**
+ * Project settings read from a config file. Command line flags take
+ * precedence over them, and they over the defaults.
+ */
+export interface DesignToCodeConfig {
+  framework?: string;
+  /** Output dialect of the framework, e.g. `options` for the Vue Options API */
+  dialect?: string;
+  styling?: StyleMode;
+  typescript?: boolean;
+  tokens?: boolean;
+  /** Output directory, relative to the config file */
+  output?: string;
+  /** `flat` writes every component to the output directory, `folders` each to a folder of its own */
+  layout?: OutputLayout;
+  naming?: {
+    /** Case of generated file names; component identifiers are always PascalCase */
+    files?: FileNaming;
+  };
+  /** Render buttons, text fields, headings, links and lists as such, inferred from layer names and text sizes */
+  semantics?: boolean;
+  /**
+   * Breakpoints and the frame names of screens designed at several widths, which
+   * generate one component with media queries; `false` generates each frame apart
+   */
+  responsive?: ResponsiveOptions | false;
+  /** Write a Storybook story file next to every component, and a `storybook-preview` */
+  stories?: boolean;
+  /** Write a Testing Library test next to every component */
+  tests?: boolean;
+  /** Add a snapshot test to the generated tests */
+  snapshots?: boolean;
+  /** Generate only the nodes matching one of these filters */
+  include?: Array<NodeFilter | string>;
+  /** Leave out the nodes matching any of these filters */
+  exclude?: Array<NodeFilter | string>;
+  /** Settings for single nodes, keyed by node id or layer name */
+  overrides?: Record<string, NodeOverride>;
+  /**
+   * Extra framework targets, as generators or as paths or package names of
+   * modules exporting one, resolved from the config file's directory
+   */
+  generators?: Array<FrameworkGenerator | string>;
+}
+
+export interface LoadedConfig {
+  /** Path of the config file, when there is one */
+  file?: string;
+  config: DesignToCodeConfig;
+  /** The config's generators, loaded and checked */
+  generators: FrameworkGenerator[];
+}
+
+/**
+ * Everything a generation run is configured with, after merging
+ * the defaults, the config file and the command line
+ */
+export interface GenerationSettings extends NodeSelection {
+  framework: string;
+  dialect?: string;
+  styling: StyleMode;
+  typescript: boolean;
+  tokens: boolean;
+  output: string;
+  layout: OutputLayout;
+  fileNaming: FileNaming;
+  semantics: boolean;
+  stories: boolean;
+  tests: boolean;
+  snapshots: boolean;
+}
+
+const DEFAULTS: GenerationSettings = {
+  framework: 'react',
+  styling: 'stylesheet',
+  typescript: true,
+  tokens: false,
+  output: './components',
+  layout: 'flat',
+  fileNaming: 'PascalCase',
+  semantics: true,
+  stories: false,
+  tests: false,
+  snapshots: false
+};
+
+const STYLE_MODES: StyleMode[] = ['tailwind', 'stylesheet', 'inline'];
+const LAYOUTS: OutputLayout[] = ['flat', 'folders'];
+const FILE_NAMING: FileNaming[] = ['PascalCase', 'kebab-case'];
+
+/**
+ * Identity function typing a config written in TypeScript or checked JS
+ */
+export function defineConfig(config: DesignToCodeConfig): DesignToCodeConfig {
+  return config;
+}
+
+/**
+ * Load the config file at `file`, or the first of CONFIG_FILES found in `cwd`
+ * or the directories above it. Without either, the config is empty.
+ */
+export function loadConfig(file?: string, cwd = process.cwd()): LoadedConfig {
+  const found = file ? path.resolve(cwd, file) : findConfig(cwd);
+  if (!found) {
+    return { config: {}, generators: [] };
+  }
+  if (!fs.existsSync(found)) {
+    throw new Error(`Config file not found: ${found}`);
+  }
+
+  let loaded: any;
+  try {
+    if (found.endsWith('.json')) {
+      loaded = JSON.parse(fs.readFileSync(found, 'utf8'));
+    } else if (found.endsWith('.ts')) {
+      loaded = requireTypeScript(found);
+    } else {
+      loaded = require(found);
+    }
+  } catch (error) {
+    throw new Error(`Could not load ${found}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const config = loaded?.default ?? loaded;
+  const generators = Array.isArray(config?.generators)
+    ? config.generators.map((entry: FrameworkGenerator | string) => loadGenerator(entry, path.dirname(found), found))
+    : [];
+  validateConfig(config, found, [...generatorNames(), ...generators.map((g: FrameworkGenerator) => g.name)]);
+  return { file: found, config, generators };
+}
+
+function findConfig(cwd: string): string | undefined {
+  for (let directory = path.resolve(cwd); ; directory = path.dirname(directory)) {
+    const found = CONFIG_FILES.map(name => path.join(directory, name)).find(candidate => fs.existsSync(candidate));
+    if (found || path.dirname(directory) === directory) return found;
+  }
+}
+
+/**
+ * Run a TypeScript config as CommonJS, transpiled without type checking
+ */
+function requireTypeScript(file: string): any {
+  // Loaded lazily: most runs have no TypeScript config
+  const ts: typeof import('typescript') = require('typescript');
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    fileName: file,
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+  });
+
+  const module = { exports: {} as any };
+  new Function('require', 'module', 'exports', '__filename', '__dirname', outputText)(
+    createRequire(file), module, module.exports, file, path.dirname(file)
+  );
+  return module.exports;
+}
+
+/**
+ * Merge the defaults, the config file and the command line flags, in that order.
+ * The config's output directory is relative to the config file.
+ */
+export function resolveSettings(loaded: LoadedConfig, flags: Partial<GenerationSettings>): GenerationSettings {
+  const { config } = loaded;
+  const fromConfig: Partial<GenerationSettings> = {
+    framework: config.framework,
+    dialect: config.dialect,
+    styling: config.styling,
+    typescript: config.typescript,
+    tokens: config.tokens,
+    output: config.output && loaded.file ? path.resolve(path.dirname(loaded.file), config.output) : config.output,
+    layout: config.layout,
+    fileNaming: config.naming?.files,
+    semantics: config.semantics,
+    stories: config.stories,
+    tests: config.tests,
+    snapshots: config.snapshots,
+    include: config.include,
+    exclude: config.exclude,
+    overrides: config.overrides,
+    responsive: config.responsive
+  };
+
+  const settings: GenerationSettings = { ...DEFAULTS };
+  for (const layer of [fromConfig, flags]) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) (settings as any)[key] = value;
+    }
+  }
+  // A dialect only applies to the framework it was chosen for
+  if (flags.framework && flags.framework !== config.framework && flags.dialect === undefined) {
+    settings.dialect = undefined;
+  }
+  return settings;
+}
+
+/**
+ * Check a config's options and their values, reporting every problem at once
+ */
+function validateConfig(config: any, file: string, frameworks: string[]): void {
+  const problems: string[] = [];
+  const check = (valid: boolean, problem: string) => {
+    if (!valid) problems.push(problem);
+  };
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`${file}: the config must be an object`);
+  }
+
+  const options: Array<keyof DesignToCodeConfig> = [
+    'framework', 'dialect', 'styling', 'typescript', 'tokens', 'output', 'layout',
+    'naming', 'semantics', 'responsive', 'stories', 'tests', 'snapshots', 'include', 'exclude', 'overrides', 'generators'
+  ];
+  for (const key of Object.keys(config)) {
+    check(options.includes(key as keyof DesignToCodeConfig), unknownOption(key, options));
+  }
+
+  const { framework, dialect, styling, typescript, tokens, output, layout, naming, semantics, responsive, stories, tests, snapshots, include, exclude, overrides } = config;
+  if (framework !== undefined) {
+    check(frameworks.includes(framework), `framework must be one of ${frameworks.join(', ')} (got ${describe(framework)})`);
+  }
+  check(dialect === undefined || typeof dialect === 'string', `dialect must be a string (got ${describe(dialect)})`);
+  if (styling !== undefined) {
+    check(STYLE_MODES.includes(styling), `styling must be one of ${STYLE_MODES.join(', ')} (got ${describe(styling)})`);
+  }
+  check(typescript === undefined || typeof typescript === 'boolean', `typescript must be true or false (got ${describe(typescript)})`);
+  check(tokens === undefined || typeof tokens === 'boolean', `tokens must be true or false (got ${describe(tokens)})`);
+  check(output === undefined || typeof output === 'string', `output must be a directory path (got ${describe(output)})`);
+  if (layout !== undefined) {
+    check(LAYOUTS.includes(layout), `layout must be one of ${LAYOUTS.join(', ')} (got ${describe(layout)})`);
+  }
+  if (naming !== undefined) {
+    if (typeof naming !== 'object' || naming === null) {
+      problems.push(`naming must be an object such as { files: 'kebab-case' } (got ${describe(naming)})`);
+    } else {
+      for (const key of Object.keys(naming)) {
+        check(key === 'files', unknownOption(`naming.${key}`, ['naming.files']));
+      }
+      if (naming.files !== undefined) {
+        check(FILE_NAMING.includes(naming.files), `naming.files must be one of ${FILE_NAMING.join(', ')} (got ${describe(naming.files)})`);
+      }
+    }
+  }
+  check(semantics === undefined || typeof semantics === 'boolean', `semantics must be true or false (got ${describe(semantics)})`);
+  check(stories === undefined || typeof stories === 'boolean', `stories must be true or false (got ${describe(stories)})`);
+  check(tests === undefined || typeof tests === 'boolean', `tests must be true or false (got ${describe(tests)})`);
+  check(snapshots === undefined || typeof snapshots === 'boolean', `snapshots must be true or false (got ${describe(snapshots)})`);
+  problems.push(...filterProblems('include', include), ...filterProblems('exclude', exclude));
+  problems.push(...overrideProblems(overrides));
+  problems.push(...responsiveProblems(responsive));
+  check(config.generators === undefined || Array.isArray(config.generators), 'generators must be an array');
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid config ${file}:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+  }
+}
+
+function filterProblems(option: string, filters: unknown): string[] {
+  if (filters === undefined) return [];
+  if (!Array.isArray(filters)) {
+    return [`${option} must be an array of name globs or { name, page, type } filters (got ${describe(filters)})`];
+  }
+
+  const problems: string[] = [];
+  filters.forEach((filter, index) => {
+    const label = `${option}[${index}]`;
+    if (typeof filter === 'string') return;
+    if (typeof filter !== 'object' || filter === null) {
+      problems.push(`${label} must be a name glob or a { name, page, type } filter (got ${describe(filter)})`);
+      return;
+    }
+    for (const [key, value] of Object.entries(filter)) {
+      if (!['name', 'page', 'type'].includes(key)) {
+        problems.push(unknownOption(`${label}.${key}`, ['name', 'page', 'type'].map(k => `${label}.${k}`)));
+      } else if (typeof value !== 'string') {
+        problems.push(`${label}.${key} must be a string (got ${describe(value)})`);
+      } else if (key === 'type' && !/^[A-Z_]+$/.test(value)) {
+        problems.push(`${label}.type must be a Figma node type such as FRAME or COMPONENT (got ${describe(value)})`);
+      }
+    }
+  });
+  return problems;
+}
+
+function responsiveProblems(responsive: any): string[] {
+  if (responsive === undefined || responsive === false) return [];
+  if (typeof responsive !== 'object' || responsive === null || Array.isArray(responsive)) {
+    return [`responsive must be false or an object such as { breakpoints, pattern } (got ${describe(responsive)})`];
+  }
+
+  const problems: string[] = [];
+  for (const key of Object.keys(responsive)) {
+    if (key !== 'breakpoints' && key !== 'pattern') {
+      problems.push(unknownOption(`responsive.${key}`, ['responsive.breakpoints', 'responsive.pattern']));
+    }
+  }
+  const { breakpoints, pattern } = responsive;
+  if (breakpoints !== undefined) {
+    if (typeof breakpoints !== 'object' || breakpoints === null || Array.isArray(breakpoints) || Object.keys(breakpoints).length < 2) {
+      problems.push(`responsive.breakpoints must map at least two breakpoint names to widths, such as { Mobile: 0, Desktop: 1024 } (got ${describe(breakpoints)})`);
+    } else {
+      for (const [name, width] of Object.entries(breakpoints)) {
+        if (typeof width !== 'number' || !Number.isInteger(width) || width < 0) {
+          problems.push(`responsive.breakpoints.${name} must be a width in px (got ${describe(width)})`);
+        }
+      }
+    }
+  }
+  if (pattern !== undefined && (typeof pattern !== 'string' || !pattern.includes('{name}') || !pattern.includes('{breakpoint}'))) {
+    problems.push(`responsive.pattern must be a string with {name} and {breakpoint}, such as '{name}/{breakpoint}' (got ${describe(pattern)})`);
+  }
+  return problems;
+}
+
+function overrideProblems(overrides: unknown): string[] {
+  if (overrides === undefined) return [];
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    return [`overrides must map node ids or layer names to { name, skip, component, element, alt } (got ${describe(overrides)})`];
+  }
+
+  const problems: string[] = [];
+  for (const [key, override] of Object.entries(overrides)) {
+    const label = `overrides[${JSON.stringify(key)}]`;
+    if (typeof override !== 'object' || override === null) {
+      problems.push(`${label} must be an object such as { name: 'LoginCard' } (got ${describe(override)})`);
+      continue;
+    }
+    for (const [field, value] of Object.entries(override)) {
+      if (field === 'name') {
+        if (typeof value !== 'string' || !/^[A-Z][A-Za-z0-9]*$/.test(value)) {
+          problems.push(`${label}.name must be a PascalCase identifier such as LoginCard (got ${describe(value)})`);
+        }
+      } else if (field === 'skip' || field === 'component') {
+        if (typeof value !== 'boolean') problems.push(`${label}.${field} must be true or false (got ${describe(value)})`);
+      } else if (field === 'element') {
+        if (typeof value !== 'string' || !/^[a-z][a-z0-9]*$/.test(value)) {
+          problems.push(`${label}.element must be an HTML element name such as section (got ${describe(value)})`);
+        }
+      } else if (field === 'alt') {
+        if (typeof value !== 'string') problems.push(`${label}.alt must be a string (got ${describe(value)})`);
+      } else {
+        const fields = ['name', 'skip', 'component', 'element', 'alt'];
+        problems.push(unknownOption(`${label}.${field}`, fields.map(f => `${label}.${f}`)));
+      }
+    }
+  }
+  return problems;
+}
+
+function unknownOption(key: string, known: string[]): string {
+  const suggestion = known.find(option => editDistance(option.toLowerCase(), key.toLowerCase()) <= 2);
+  return `unknown option '${key}'${suggestion ? `, did you mean '${suggestion}'?` : ''}`;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : JSON.stringify(value) ?? String(value);
+}
+
+function loadGenerator(entry: FrameworkGenerator | string, directory: string, configFile: string): FrameworkGenerator {
+  let generator: any = entry;
+  if (typeof entry === 'string') {
+    let resolved: string;
+    try {
+      resolved = require.resolve(entry.startsWith('.') ? path.resolve(directory, entry) : entry, { paths: [directory] });
+    } catch {
+      throw new Error(`${configFile}: cannot find generator module '${entry}'`);
+    }
+    const loaded = require(resolved);
+    generator = loaded?.default ?? loaded;
+  }
+
+  if (
+    !generator ||
+    typeof generator.name !== 'string' ||
+    typeof generator.extension !== 'function' ||
+    typeof generator.generate !== 'function'
+  ) {
+    const label = typeof entry === 'string' ? `'${entry}'` : 'entry';
+    throw new Error(`${configFile}: generator ${label} must provide a name, extension() and generate()`);
+  }
+  return generator;
+}
@@ -0,0 +1,144 @@
+import type { FigmaNode } from './index';
+import { colorToHex, Paint } from './styles';
+
+interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * A text layer whose color is too close to the color behind it
+ */
+export interface ContrastIssue {
+  node: FigmaNode;
+  /** Text color, as hex, blended over its background */
+  foreground: string;
+  background: string;
+  /** Contrast ratio, rounded to two decimals */
+  ratio: number;
+  /** Ratio WCAG AA asks for at the text's size: 4.5, or 3 for large text */
+  required: number;
+}
+
+/** Font sizes, in px, from which text counts as large: 18pt, or 14pt when bold */
+const LARGE_TEXT = 24;
+const LARGE_BOLD_TEXT = 18.66;
+
+/**
+ * Find text layers below WCAG AA contrast, comparing their fill with the
+ * fills of the layers behind them: an earlier sibling covering the text,
+ * or the nearest ancestor with fills. Text over gradients, images or
+ * nothing at all is left out, since its background isn't known.
+ */
+export function contrastIssues(root: FigmaNode): ContrastIssue[] {
+  const issues: ContrastIssue[] = [];
+
+  const visit = (node: FigmaNode, backdrop: RGB | undefined) => {
+    if (node.visible === false) return;
+
+    if (node.type === 'TEXT') {
+      const issue = textContrast(node, backdrop);
+      if (issue) issues.push(issue);
+      return;
+    }
+
+    const background = composite(node.fills, node.opacity, backdrop);
+    const children = (node.children || []).filter(child => child.visible !== false);
+    children.forEach((child, index) => {
+      // The topmost earlier sibling under the whole child is what it is drawn on
+      const behind = children
+        .slice(0, index)
+        .reverse()
+        .find(sibling => sibling.type !== 'TEXT' && solidPaints(sibling.fills).length > 0 && covers(sibling, child));
+      visit(child, behind ? composite(behind.fills, behind.opacity, background) : background);
+    });
+  };
+  visit(root, undefined);
+
+  return issues;
+}
+
+function textContrast(node: FigmaNode, backdrop: RGB | undefined): ContrastIssue | undefined {
+  const paints = visible(node.fills);
+  if (!backdrop || paints.length === 0 || paints.some(paint => paint.type !== 'SOLID')) return undefined;
+
+  const foreground = composite(paints, node.opacity, backdrop)!;
+  const ratio = contrastRatio(foreground, backdrop);
+  const required = isLargeText(node) ? 3 : 4.5;
+  if (ratio >= required) return undefined;
+
+  return {
+    node,
+    foreground: hex(foreground),
+    background: hex(backdrop),
+    ratio: Math.floor(ratio * 100) / 100,
+    required
+  };
+}
+
+/**
+ * Color of a layer's solid fills drawn over `backdrop`, or undefined when
+ * it depends on a gradient, an image or an unknown backdrop
+ */
+function composite(fills: Paint[] | undefined, opacity = 1, backdrop: RGB | undefined): RGB | undefined {
+  const paints = visible(fills);
+  if (paints.some(paint => paint.type !== 'SOLID')) return undefined;
+
+  let color = backdrop;
+  for (const paint of paints) {
+    const alpha = (paint.opacity ?? 1) * (paint.color!.a ?? 1) * opacity;
+    if (alpha >= 1) {
+      color = paint.color!;
+    } else if (color) {
+      color = blend(paint.color!, alpha, color);
+    }
+  }
+  return color;
+}
+
+function blend(top: RGB, alpha: number, bottom: RGB): RGB {
+  const mix = (a: number, b: number) => a * alpha + b * (1 - alpha);
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b) };
+}
+
+function visible(fills: Paint[] | undefined): Paint[] {
+  return (fills || []).filter(paint => paint.visible !== false && (paint.type !== 'SOLID' || paint.color));
+}
+
+function solidPaints(fills: Paint[] | undefined): Paint[] {
+  return visible(fills).filter(paint => paint.type === 'SOLID');
+}
+
+function covers(node: FigmaNode, other: FigmaNode): boolean {
+  const outer = node.absoluteBoundingBox;
+  const inner = other.absoluteBoundingBox;
+  if (!outer || !inner) return false;
+  return outer.x <= inner.x && outer.y <= inner.y &&
+    outer.x + outer.width >= inner.x + inner.width &&
+    outer.y + outer.height >= inner.y + inner.height;
+}
+
+function isLargeText(node: FigmaNode): boolean {
+  const size = node.style?.fontSize ?? node.fontSize ?? 0;
+  const weight = node.style?.fontWeight ?? node.fontWeight ?? 400;
+  return size >= LARGE_TEXT || (size >= LARGE_BOLD_TEXT && weight >= 700);
+}
+
+/**
+ * WCAG contrast ratio of two colors, from 1 to 21
+ */
+export function contrastRatio(a: RGB, b: RGB): number {
+  const [lighter, darker] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+function luminance({ r, g, b }: RGB): number {
+  const linear = (channel: number) =>
+    channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+function hex(color: RGB): string {
+  return colorToHex({ type: 'SOLID', color });
+}
@@ -0,0 +1,132 @@
+interface Edit {
+  /** ' ' for a line both sides have, '-' for a removed line and '+' for an added one */
+  mark: ' ' | '-' | '+';
+  line: string;
+}
+
+/** Unchanged lines shown around each change */
+const CONTEXT = 3;
+
+/**
+ * A unified diff of a file, as `diff -u` prints it. `before` is unset for
+ * a new file and `after` for a deleted one. Empty when nothing changed.
+ */
+export function unifiedDiff(filename: string, before: string | undefined, after: string | undefined): string {
+  const edits = diffLines(splitLines(before), splitLines(after));
+  if (edits.every(edit => edit.mark === ' ')) return '';
+
+  const header = [
+    `--- ${before === undefined ? '/dev/null' : `a/${filename}`}`,
+    `+++ ${after === undefined ? '/dev/null' : `b/${filename}`}`
+  ];
+  return [...header, ...hunks(edits)].join('\n') + '\n';
+}
+
+function splitLines(content: string | undefined): string[] {
+  if (!content) return [];
+  const lines = content.split('\n');
+  // A final newline ends the last line rather than starting another
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * The shortest edit script turning `a` into `b`, by Myers' algorithm
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  // Lines the files start and end with alike are kept out of the search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const from = a.slice(start, a.length - end);
+  const to = b.slice(start, b.length - end);
+  const same = (lines: string[]): Edit[] => lines.map(line => ({ mark: ' ', line }));
+  return [...same(a.slice(0, start)), ...shortestEdit(from, to), ...same(a.slice(a.length - end))];
+}
+
+function shortestEdit(a: string[], b: string[]): Edit[] {
+  const max = a.length + b.length;
+  const furthest = new Array<number>(2 * max + 2).fill(0);
+  // The furthest points reached on each diagonal before every round, for walking back
+  const trace: number[][] = [];
+  // Whether a round moves down from diagonal k + 1, inserting, rather than right from k - 1, deleting
+  const down = (v: number[], k: number, d: number) => k === -d || (k !== d && v[max + k - 1] < v[max + k + 1]);
+
+  let rounds = 0;
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(furthest.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = down(furthest, k, d) ? furthest[max + k + 1] : furthest[max + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      furthest[max + k] = x;
+      if (x >= a.length && y >= b.length) {
+        rounds = d;
+        break search;
+      }
+    }
+  }
+
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = rounds; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const previousK = down(v, k, d) ? k + 1 : k - 1;
+    const previousX = d === 0 ? 0 : v[max + previousK];
+    const previousY = d === 0 ? 0 : previousX - previousK;
+    while (x > previousX && y > previousY) {
+      edits.push({ mark: ' ', line: a[--x] });
+      y--;
+    }
+    if (d === 0) break;
+    if (x === previousX) edits.push({ mark: '+', line: b[--y] });
+    else edits.push({ mark: '-', line: a[--x] });
+  }
+  return edits.reverse();
+}
+
+/**
+ * Group the edits into hunks of changes with the lines around them,
+ * merging changes close enough for their context to touch
+ */
+function hunks(edits: Edit[]): string[] {
+  const changes = edits.flatMap((edit, index) => (edit.mark === ' ' ? [] : [index]));
+  const ranges: Array<[number, number]> = [];
+  for (const index of changes) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= 2 * CONTEXT + 1) last[1] = index;
+    else ranges.push([index, index]);
+  }
+
+  // Line numbers in each file where every edit starts
+  const positions: Array<[number, number]> = [];
+  let lineA = 1;
+  let lineB = 1;
+  for (const edit of edits) {
+    positions.push([lineA, lineB]);
+    if (edit.mark !== '+') lineA++;
+    if (edit.mark !== '-') lineB++;
+  }
+
+  return ranges.flatMap(([first, last]) => {
+    const from = Math.max(0, first - CONTEXT);
+    const to = Math.min(edits.length - 1, last + CONTEXT);
+    const lines = edits.slice(from, to + 1);
+    const countA = lines.filter(edit => edit.mark !== '+').length;
+    const countB = lines.filter(edit => edit.mark !== '-').length;
+    // An empty side is numbered by the line before it, as `diff -u` does
+    const startA = countA === 0 ? positions[from][0] - 1 : positions[from][0];
+    const startB = countB === 0 ? positions[from][1] - 1 : positions[from][1];
+    return [
+      `@@ -${startA},${countA} +${startB},${countB} @@`,
+      ...lines.map(edit => `${edit.mark}${edit.line}`)
+    ];
+  });
+}
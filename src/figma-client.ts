@@ -1,25 +1,51 @@
 import axios from 'axios';
+import type { AssetSource } from './assets.js';
+import type { FigmaNode } from './index.js';
 
-export interface FigmaNode {
+// The API returns the same node model as JSON exports
+export type { FigmaNode };
+
+export interface FigmaStyleMeta {
+  key: string;
+  name: string;
+  styleType: 'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+  description?: string;
+}
+
+export interface FigmaVariableAlias {
+  type: 'VARIABLE_ALIAS';
+  id: string;
+}
+
+export type FigmaVariableValue =
+  | boolean
+  | number
+  | string
+  | { r: number; g: number; b: number; a: number }
+  | FigmaVariableAlias;
+
+export interface FigmaVariable {
   id: string;
   name: string;
-  type: string;
-  visible?: boolean;
-  absoluteBoundingBox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-  fills?: Array<{ type: string; color?: { r: number; g: number; b: number; a: number } }>;
-  strokes?: Array<{ type: string; color?: { r: number; g: number; b: number; a: number } }>;
-  strokeWeight?: number;
-  cornerRadius?: number;
-  fontSize?: number;
-  fontFamily?: string;
-  fontWeight?: number;
-  textContent?: string;
-  children?: FigmaNode[];
+  variableCollectionId: string;
+  resolvedType: 'BOOLEAN' | 'FLOAT' | 'STRING' | 'COLOR';
+  valuesByMode: Record<string, FigmaVariableValue>;
+  description?: string;
+}
+
+/**
+ * What changes when a Figma file is edited
+ */
+export interface FigmaFileVersion {
+  version: string;
+  lastModified: string;
+}
+
+export interface FigmaVariableCollection {
+  id: string;
+  name: string;
+  defaultModeId: string;
+  modes: Array<{ modeId: string; name: string }>;
 }
 
 export interface FigmaFile {
@@ -28,72 +54,338 @@ export interface FigmaFile {
   nodes: FigmaNode[];
   componentCount: number;
   frameCount: number;
+  /** Version id of the file, which changes whenever a new version is saved */
+  version?: string;
+  /** When the file was last edited, as an ISO date */
+  lastModified?: string;
   raw?: any;
+  styles?: Record<string, FigmaStyleMeta>;
+  variables?: Record<string, FigmaVariable>;
+  variableCollections?: Record<string, FigmaVariableCollection>;
 }
 
-export async function fetchFigmaFile(urlOrId: string, token: string): Promise<FigmaFile | null> {
-  try {
-    // Extract file ID from URL or use directly
-    const fileId = extractFileId(urlOrId);
+const FIGMA_API = 'https://api.figma.com/v1';
+
+/**
+ * A failed Figma API request, with the HTTP status when there was a response
+ */
+export class FigmaApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    /** Seconds to wait before retrying, from the `Retry-After` header */
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'FigmaApiError';
+  }
+}
 
-    const response = await axios.get(
-      `https://api.figma.com/v1/files/${fileId}`,
-      {
+/**
+ * How Figma API requests are made. Pass a custom transport to the fetch
+ * functions to run them offline, e.g. against recorded responses in tests.
+ * Transports report HTTP failures as a `FigmaApiError` with the status.
+ */
+export interface FigmaTransport {
+  /** GET an API endpoint and return its JSON body */
+  getJSON(url: string, token: string): Promise<any>;
+  /** GET a file, such as the rendered images the API links to */
+  download(url: string): Promise<Buffer>;
+}
+
+export const axiosTransport: FigmaTransport = {
+  async getJSON(url, token) {
+    try {
+      const response = await axios.get(url, {
         headers: {
           'X-Figma-Token': token,
           'Content-Type': 'application/json',
         },
+      });
+      return response.data;
+    } catch (error) {
+      throw toApiError(error);
+    }
+  },
+  async download(url) {
+    try {
+      const response = await axios.get(url, { responseType: 'arraybuffer' });
+      return Buffer.from(response.data);
+    } catch (error) {
+      throw toApiError(error);
+    }
+  },
+};
+
+function toApiError(error: unknown): unknown {
+  if (!axios.isAxiosError(error)) return error;
+  const retryAfter = Number(error.response?.headers?.['retry-after']);
+  return new FigmaApiError(
+    error.response?.data?.err || error.response?.data?.message || error.message,
+    error.response?.status,
+    Number.isFinite(retryAfter) ? retryAfter : undefined
+  );
+}
+
+const MAX_RETRIES = 4;
+
+/**
+ * Run a request, backing off and retrying while Figma rate limits it (429)
+ * or is briefly unavailable (5xx), and explain whatever error remains
+ */
+async function withRetry<T>(request: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const status = error instanceof FigmaApiError ? error.status : undefined;
+      const retryable = status === 429 || (status !== undefined && status >= 500);
+      if (!retryable || attempt >= MAX_RETRIES) {
+        throw describeError(error, attempt);
       }
-    );
+      const retryAfter = (error as FigmaApiError).retryAfter;
+      const delay = retryAfter !== undefined ? retryAfter * 1000 : 1000 * 2 ** attempt;
+      await new Promise(resolve => setTimeout(resolve, Math.min(delay, 60000)));
+    }
+  }
+}
+
+function describeError(error: unknown, retries: number): unknown {
+  if (!(error instanceof FigmaApiError)) return error;
+
+  const { status, message } = error;
+  const explain = (text: string) => new FigmaApiError(text, status, error.retryAfter);
+  if (status === undefined) {
+    return explain(`Could not reach the Figma API: ${message}`);
+  }
 
-    const { document, name } = response.data;
+  switch (status) {
+    case 400:
+      return explain(`Figma rejected the request: ${message}. Check the node ids and parameters.`);
+    case 401:
+      return explain('Invalid Figma token. Check your API credentials.');
+    case 403:
+      return explain('Access to this Figma file was denied. Check that the token can open it and has the file_content:read scope.');
+    case 404:
+      return explain('Figma file not found. Check the file ID or URL.');
+    case 429:
+      return explain(`Figma rate limit exceeded after ${retries} retries. Wait a minute and try again.`);
+    default:
+      return status >= 500
+        ? explain(`The Figma API is unavailable (HTTP ${status}). Try again later.`)
+        : explain(`Figma API request failed (HTTP ${status}): ${message}`);
+  }
+}
+
+function getJSON(url: string, token: string, transport: FigmaTransport): Promise<any> {
+  return withRetry(() => transport.getJSON(url, token));
+}
 
-    // Walk the document tree and extract components/frames
-    const nodes: FigmaNode[] = [];
-    const componentCount = countComponentsInNode(document);
-    const frameCount = countFramesInNode(document);
+export async function fetchFigmaFile(
+  urlOrId: string,
+  token: string,
+  transport: FigmaTransport = axiosTransport
+): Promise<FigmaFile | null> {
+  // Extract file ID from URL or use directly
+  const fileId = extractFileId(urlOrId);
 
-    walkFigmaTree(document, nodes);
+  // Path geometry lets vectors render as inline SVG
+  const { document, name, styles, version, lastModified } =
+    await getJSON(`${FIGMA_API}/files/${fileId}?geometry=paths`, token, transport);
 
-    return {
-      id: fileId,
-      name,
-      nodes,
-      componentCount,
-      frameCount,
-      raw: document,
-    };
+  return { ...toFigmaFile(fileId, name, document, styles), version, lastModified };
+}
+
+/**
+ * The current version of a file, without downloading its contents, so
+ * callers can tell whether it changed since they last fetched it
+ */
+export async function fetchFigmaVersion(
+  urlOrId: string,
+  token: string,
+  transport: FigmaTransport = axiosTransport
+): Promise<FigmaFileVersion> {
+  const fileId = extractFileId(urlOrId);
+  const { version, lastModified } = await getJSON(`${FIGMA_API}/files/${fileId}?depth=1`, token, transport);
+  return { version, lastModified };
+}
+
+/**
+ * Fetch only some nodes of a file, such as one page or a few frames, through
+ * `/v1/files/:key/nodes`. The nodes are gathered under one document node.
+ */
+export async function fetchFigmaNodes(
+  urlOrId: string,
+  ids: string[],
+  token: string,
+  transport: FigmaTransport = axiosTransport
+): Promise<FigmaFile> {
+  const fileId = extractFileId(urlOrId);
+  const query = `ids=${encodeURIComponent(ids.join(','))}&geometry=paths`;
+  const data = await getJSON(`${FIGMA_API}/files/${fileId}/nodes?${query}`, token, transport);
+
+  const missing = ids.filter(id => !data.nodes?.[id]);
+  if (missing.length > 0) {
+    throw new FigmaApiError(`Nodes not found in the Figma file: ${missing.join(', ')}`, 404);
+  }
+
+  const entries: Array<{ document: FigmaNode; styles?: Record<string, FigmaStyleMeta> }> = ids.map(id => data.nodes[id]);
+  const document: FigmaNode = {
+    id: '0:0',
+    name: 'Document',
+    type: 'DOCUMENT',
+    children: entries.map(entry => entry.document),
+  };
+  const styles = Object.assign({}, ...entries.map(entry => entry.styles || {}));
+
+  return { ...toFigmaFile(fileId, data.name, document, styles), version: data.version, lastModified: data.lastModified };
+}
+
+/**
+ * List the pages of a file without downloading their contents
+ */
+export async function fetchFigmaPages(
+  urlOrId: string,
+  token: string,
+  transport: FigmaTransport = axiosTransport
+): Promise<Array<{ id: string; name: string }>> {
+  const fileId = extractFileId(urlOrId);
+  const { document } = await getJSON(`${FIGMA_API}/files/${fileId}?depth=1`, token, transport);
+  return (document.children || []).map((page: FigmaNode) => ({ id: page.id, name: page.name }));
+}
+
+function toFigmaFile(
+  fileId: string,
+  name: string,
+  document: FigmaNode,
+  styles?: Record<string, FigmaStyleMeta>
+): FigmaFile {
+  // Walk the document tree and extract components/frames
+  const nodes: FigmaNode[] = [];
+  walkFigmaTree(document, nodes);
+
+  return {
+    id: fileId,
+    name,
+    nodes,
+    componentCount: countComponentsInNode(document),
+    frameCount: countFramesInNode(document),
+    raw: document,
+    styles,
+  };
+}
+
+/**
+ * Fetch the file's local Figma Variables and collections.
+ * The endpoint is only available on Enterprise plans, so callers treat it as optional.
+ */
+export async function fetchFigmaVariables(
+  urlOrId: string,
+  token: string,
+  transport: FigmaTransport = axiosTransport
+): Promise<Pick<FigmaFile, 'variables' | 'variableCollections'>> {
+  const fileId = extractFileId(urlOrId);
+
+  try {
+    const data = await getJSON(`${FIGMA_API}/files/${fileId}/variables/local`, token, transport);
+
+    const { variables, variableCollections } = data.meta;
+    return { variables, variableCollections };
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      if (error.response?.status === 401) {
-        throw new Error('Invalid Figma token. Check your API credentials.');
-      }
-      if (error.response?.status === 404) {
-        throw new Error('Figma file not found. Check the file ID or URL.');
-      }
+    if (error instanceof FigmaApiError && error.status === 403) {
+      throw new FigmaApiError('Figma Variables require an Enterprise plan and the file_variables:read scope.', 403);
     }
     throw error;
   }
 }
 
-function extractFileId(urlOrId: string): string {
-  // Handle Figma URL format: https://figma.com/file/{ID}/...
-  const match = urlOrId.match(/\/file\/([a-zA-Z0-9]+)\//);
+/**
+ * Asset source backed by the Figma API: image fills come from the file's
+ * `/images` endpoint and node renders from `/v1/images`
+ */
+export function figmaAssetSource(
+  urlOrId: string,
+  token: string,
+  transport: FigmaTransport = axiosTransport
+): AssetSource {
+  const fileId = extractFileId(urlOrId);
+
+  return {
+    async imageFills(refs) {
+      const data = await getJSON(`${FIGMA_API}/files/${fileId}/images`, token, transport);
+      const urls: Record<string, string | null> = data.meta?.images || {};
+      return downloadAll(refs.map(ref => [ref, urls[ref]]), transport);
+    },
+
+    async renderNodes(ids, format, scale) {
+      const rendered = new Map<string, Buffer>();
+      // Keep the query string short enough for large documents
+      for (let i = 0; i < ids.length; i += RENDER_BATCH_SIZE) {
+        const batch = ids.slice(i, i + RENDER_BATCH_SIZE);
+        const query = `ids=${encodeURIComponent(batch.join(','))}&format=${format}&scale=${scale}`;
+        const data = await getJSON(`${FIGMA_API}/images/${fileId}?${query}`, token, transport);
+        if (data.err) {
+          throw new FigmaApiError(`Figma could not render ${batch.join(', ')}: ${data.err}`);
+        }
+        const urls: Record<string, string | null> = data.images || {};
+        for (const [id, content] of await downloadAll(batch.map(id => [id, urls[id]]), transport)) {
+          rendered.set(id, content);
+        }
+      }
+      return rendered;
+    },
+  };
+}
+
+const RENDER_BATCH_SIZE = 50;
+
+async function downloadAll(
+  entries: Array<[string, string | null | undefined]>,
+  transport: FigmaTransport
+): Promise<Map<string, Buffer>> {
+  const downloaded = new Map<string, Buffer>();
+  for (const [key, url] of entries) {
+    // Figma returns null for nodes it could not render
+    if (url) {
+      downloaded.set(key, await withRetry(() => transport.download(url)));
+    }
+  }
+  return downloaded;
+}
+
+/**
+ * Get the file key from a Figma URL (`/file/`, `/design/` or `/proto/`), or
+ * return the input as the key. Branch URLs resolve to the branch's own key.
+ */
+export function extractFileId(urlOrId: string): string {
+  const match = urlOrId.match(/\/(?:file|design|proto)\/([a-zA-Z0-9]+)(?:\/branch\/([a-zA-Z0-9]+))?/);
   if (match) {
-    return match[1];
+    return match[2] || match[1];
   }
   // Otherwise assume it's already an ID
   return urlOrId;
 }
 
+/**
+ * Node ids selected in a Figma URL's `node-id` parameter, e.g. `1-23` → `1:23`
+ */
+export function extractNodeIds(url: string): string[] {
+  const match = url.match(/[?&]node-id=([^&#]+)/);
+  if (!match) return [];
+  return decodeURIComponent(match[1])
+    .split(',')
+    .map(id => id.replace(/-/g, ':'));
+}
+
 function walkFigmaTree(node: FigmaNode, result: FigmaNode[]) {
   if (node.visible === false) return;
 
-  if (node.type === 'COMPONENT' || node.type === 'FRAME') {
+  if (node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' || node.type === 'FRAME') {
     result.push(node);
   }
 
-  if (node.children) {
+  // Variants belong to their component set; instances import their main component
+  if (node.children && node.type !== 'COMPONENT_SET' && node.type !== 'INSTANCE') {
     for (const child of node.children) {
       walkFigmaTree(child, result);
     }
@@ -0,0 +1,99 @@
+import { angularGenerator } from './angular-generator';
+import { htmlGenerator } from './html-generator';
+import type { TestSupport } from './component-tests';
+import type { ComponentIR, IconIR, StyleMode } from './ir';
+import { litGenerator } from './lit-generator';
+import type { FileNaming } from './naming';
+import { reactGenerator } from './react-generator';
+import { solidGenerator } from './solid-generator';
+import type { StorySupport } from './stories';
+import type { StylesheetOptions } from './stylesheet';
+import { svelteGenerator } from './svelte-generator';
+import { vueGenerator } from './vue-generator';
+
+export interface GeneratedFile {
+  /** Path relative to the output directory */
+  filename: string;
+  code: string;
+}
+
+export interface GeneratorOptions {
+  typescript: boolean;
+  styling: StyleMode;
+  /** Whether styles reference design tokens, defined in `tokens.css` in the output directory */
+  tokens: boolean;
+  /** One of the generator's `dialects`, when it has any */
+  dialect?: string;
+}
+
+/**
+ * A framework target, turning the IR of each component into source files.
+ * The first file a generator returns is the component itself, written to
+ * the IR's `filename`; any others (e.g. a CSS Module) go next to it.
+ */
+export interface FrameworkGenerator {
+  /** Name the target is selected by, e.g. `react` */
+  name: string;
+  /** Extension of component files, without the dot */
+  extension(options: GeneratorOptions): string;
+  /** Case of file names the framework's style guide asks for, used whatever `fileNaming` is set to */
+  fileNaming?: FileNaming;
+  /** Output dialects, e.g. a framework's current and legacy syntax; the first is the default */
+  dialects?: string[];
+  /** Naming and scoping of stylesheet classes; kebab-case without global instances by default */
+  stylesheet?: StylesheetOptions;
+  /** Render instances with their own layers instead of as the generated component, for targets without imports */
+  inlineInstances?: boolean;
+  /** How Storybook shows the target's components; targets without it get no stories */
+  stories?: StorySupport;
+  /** How tests render the target's components; targets without it get no tests */
+  tests?: TestSupport;
+  /** Statement re-exporting a component from an `index` module in the output directory; targets without modules have none */
+  indexExport?(component: { name: string; filename: string }): string;
+  generate(ir: ComponentIR, options: GeneratorOptions): GeneratedFile[];
+  /** Generate an icon component for an SVG asset; without it SVGs are shown with `<img>` */
+  generateIcon?(icon: IconIR, options: GeneratorOptions): GeneratedFile[];
+}
+
+const BUILT_IN = [
+  reactGenerator,
+  vueGenerator,
+  svelteGenerator,
+  angularGenerator,
+  solidGenerator,
+  litGenerator,
+  htmlGenerator
+];
+
+const generators = new Map<string, FrameworkGenerator>(BUILT_IN.map(generator => [generator.name, generator]));
+
+/**
+ * Make a target available by its name, replacing any target of the same name
+ */
+export function registerGenerator(generator: FrameworkGenerator): void {
+  generators.set(generator.name, generator);
+}
+
+export function getGenerator(name: string): FrameworkGenerator {
+  const generator = generators.get(name);
+  if (!generator) {
+    throw new Error(`Unknown framework '${name}'. Available: ${generatorNames().join(', ')}`);
+  }
+  return generator;
+}
+
+export function generatorNames(): string[] {
+  return Array.from(generators.keys());
+}
+
+/**
+ * The dialect a generator writes: the one asked for, or its default
+ */
+export function generatorDialect(generator: FrameworkGenerator, dialect?: string): string | undefined {
+  if (dialect === undefined) return generator.dialects?.[0];
+  if (!generator.dialects?.includes(dialect)) {
+    const available = generator.dialects?.join(', ') || 'none';
+    throw new Error(`Unknown dialect '${dialect}' for ${generator.name}. Available: ${available}`);
+  }
+  return dialect;
+}
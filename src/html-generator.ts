@@ -0,0 +1,146 @@
+import type { FrameworkGenerator } from './generator';
+import { companionFile, importPath } from './ir';
+import { keepRegion } from './manifest';
+import {
+  escapeAttribute,
+  escapeText,
+  inlineCSS,
+  MarkupDialect,
+  RenderElement,
+  renderMarkup,
+  templateDialect
+} from './renderer';
+import { generateStylesheet } from './stylesheet';
+
+/**
+ * Plain HTML. Trees are resolved to their default props first, so nothing is dynamic.
+ */
+const HTML_DIALECT: MarkupDialect = {
+  ...templateDialect(
+    staticClasses => (staticClasses ? `class="${staticClasses}"` : null),
+    css => (Object.keys(css).length > 0 ? [`style="${escapeAttribute(inlineCSS(css))}"`] : []),
+    (_, markup) => markup,
+    {
+      componentProp: () => '',
+      componentBinding: () => '',
+      instanceSlot: () => ({})
+    }
+  ),
+  text: escapeText
+};
+
+/**
+ * Static HTML pages with a plain stylesheet, e.g. for marketing pages.
+ * Pages show each component with its default props, and instances render
+ * their layers in place since there is nothing to import.
+ */
+export const htmlGenerator: FrameworkGenerator = {
+  name: 'html',
+  extension: () => 'html',
+  stylesheet: { naming: 'kebab-case' },
+  inlineInstances: true,
+
+  generate(ir, options) {
+    const defaults = Object.fromEntries(ir.props.map(p => [p.name, p.defaultValue]));
+    const tree = withDefaults(ir.tree, defaults)!;
+    const used = usedClasses(tree);
+    const rules = ir.rules.filter(rule => used.has(rule.className));
+
+    const markup = renderMarkup(tree, { dialect: HTML_DIALECT, tailwind: options.styling === 'tailwind' }, 1, {
+      attributes: [`data-testid="${ir.testId}"`]
+    });
+    const stylesheet = companionFile(ir.filename, '.css');
+    const stylesheets = [
+      ...(options.tokens ? ['tokens.css'] : []),
+      ...(options.styling === 'tailwind' ? ['tailwind.css'] : []),
+      ...(options.styling === 'stylesheet' ? [stylesheet] : [])
+    ];
+
+    const code = `<!DOCTYPE html>
+<!--
+  ${ir.name}
+  Auto-generated from Figma design
+  Original Figma ID: ${ir.node.id}
+-->
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeText(ir.node.name)}</title>
+${stylesheets.map(file => `  <link rel="stylesheet" href="${importPath(ir.filename, file)}">\n`).join('')}${keepRegion('head', '  ', 'html')}
+</head>
+<body>
+${markup}
+</body>
+</html>
+`;
+
+    const files = [{ filename: ir.filename, code }];
+    if (options.styling === 'stylesheet') {
+      files.push({
+        filename: stylesheet,
+        code: `${generateStylesheet(rules)}\n\n${keepRegion('styles', '', 'css')}\n`
+      });
+    }
+    return files;
+  }
+};
+
+/**
+ * Resolve everything that depends on props to the value it has with these
+ * props: conditions, bound text, variant styles, hover and press styles and variant classes
+ */
+function withDefaults(element: RenderElement, values: Record<string, unknown>): RenderElement | null {
+  if (element.condition && !evaluate(element.condition, values)) return null;
+
+  const styles = { ...element.styles };
+  for (const variant of element.variantStyles || []) {
+    Object.assign(styles, lookup(variant.cases, variant.props, values) || {});
+  }
+  const stateStyles = element.stateStyles?.map(state => ({
+    ...state,
+    props: [],
+    cases: lookup(state.cases, state.props, values) || {}
+  }));
+  const classes = element.classes && {
+    name: [
+      element.classes.name,
+      ...element.classes.variants.map(variant => lookup(variant.cases, variant.props, values))
+    ].filter(Boolean).join(' '),
+    variants: []
+  };
+
+  return {
+    ...element,
+    styles,
+    variantStyles: undefined,
+    stateStyles,
+    classes,
+    condition: undefined,
+    slot: undefined,
+    textBinding: undefined,
+    text: element.textBinding ? String(evaluate(element.textBinding, values) ?? '') : element.text,
+    spans: element.textBinding ? undefined : element.spans,
+    children: element.children
+      .map(child => withDefaults(child, values))
+      .filter((child): child is RenderElement => child !== null)
+  };
+}
+
+function lookup(cases: Record<string, any>, props: string[], values: Record<string, unknown>): any {
+  return props.reduce((table, prop) => table?.[String(values[prop])], cases);
+}
+
+/**
+ * Evaluate a generated expression, e.g. `showIcon && ({ sm: false, md: true })[size]`,
+ * with the props as variables
+ */
+function evaluate(expression: string, values: Record<string, unknown>): unknown {
+  return new Function(...Object.keys(values), `return (${expression});`)(...Object.values(values));
+}
+
+function usedClasses(element: RenderElement, used = new Set<string>()): Set<string> {
+  element.classes?.name?.split(' ').forEach(name => used.add(name));
+  [...element.children, ...(element.spans || [])].forEach(child => usedClasses(child, used));
+  return used;
+}
@@ -1,40 +1,157 @@
 #!/usr/bin/env node
 
-export interface FigmaNode {
+import { Asset, AssetSet, ExportProperties, iconName } from './assets';
+import { generateTests } from './component-tests';
+import { FrameworkGenerator, GeneratedFile, generatorDialect, GeneratorOptions, getGenerator } from './generator';
+import { ComponentReference, ComponentRegistry, registerComponents } from './instances';
+import { InteractionFields, overlayDestinations, routePath } from './interactions';
+import { buildComponentIR, ComponentIR, StyleMode } from './ir';
+import { AutoLayoutProperties } from './layout';
+import { componentNaming, FileNaming, NameCollision, OutputLayout } from './naming';
+import { ResponsiveFields } from './responsive';
+import { AppRouter, routerLink } from './scaffold';
+import { NodeOverride, nodeOverride } from './selection';
+import { generateStories, generateStoryPreview, storyTitle } from './stories';
+import { paintToCSS, VisualProperties } from './styles';
+import { TokenSet } from './tokens';
+import { TextProperties } from './typography';
+import { ComponentPropertyFields } from './variants';
+
+export interface FigmaNode
+  extends AutoLayoutProperties,
+    ComponentPropertyFields,
+    VisualProperties,
+    TextProperties,
+    ExportProperties,
+    ResponsiveFields,
+    InteractionFields {
   id: string;
   name: string;
   type: string;
   visible?: boolean;
   children?: FigmaNode[];
-  fills?: Array<{ type: string; color?: { r: number; g: number; b: number; a: number } }>;
-  strokes?: Array<{ type: string; color?: { r: number; g: number; b: number; a: number } }>;
-  effects?: Array<{ type: string }>;
   constraints?: { horizontal: string; vertical: string };
   absoluteBoundingBox?: { x: number; y: number; width: number; height: number };
-  characters?: string;
   fontSize?: number;
+  fontFamily?: string;
   fontWeight?: number;
+  layoutGrids?: Array<{
+    pattern: 'COLUMNS' | 'ROWS' | 'GRID';
+    count?: number;
+    gutterSize?: number;
+    offset?: number;
+    sectionSize?: number;
+  }>;
+  styles?: Partial<Record<'fill' | 'stroke' | 'text' | 'effect' | 'grid', string>>;
+  boundVariables?: Record<string, any>;
+  /** Description written for the layer in Figma, e.g. a component's */
+  description?: string;
+  fillGeometry?: Array<{ path: string; windingRule?: string }>;
+  strokeGeometry?: Array<{ path: string; windingRule?: string }>;
 }
 
 export interface ComponentConfig {
-  framework: 'react' | 'vue' | 'svelte';
+  /** Name of the target: react, vue, svelte, angular, solid, lit, html, or one added with `registerGenerator` */
+  framework: string;
+  /** Output dialect of the target, e.g. `options` for the Vue Options API; the target's default when unset */
+  dialect?: string;
   outputDir: string;
   typescript: boolean;
   tailwind: boolean;
   includeStyles: boolean;
+  /** Design tokens to reference instead of hard-coded values */
+  tokens?: TokenSet;
+  /** Exported images and layer renders, written to the `assets/` directory */
+  assets?: AssetSet;
+  /** `flat` writes every component to the output directory, `folders` each to a folder of its own */
+  layout: OutputLayout;
+  /** Case of generated file names; component identifiers are always PascalCase */
+  fileNaming: FileNaming;
+  /** Renamed and extracted nodes, keyed by node id or layer name */
+  overrides?: Record<string, NodeOverride>;
+  /** Render buttons, text fields, headings, links and lists as such, inferred from the design */
+  semantics: boolean;
+  /** Write a Storybook story file next to every component, for targets that support it */
+  stories?: boolean;
+  /** Pages and layers above each node, keyed by node id, that story titles start with */
+  nodePaths?: Map<string, string[]>;
+  /** Key of the Figma file, which stories link to */
+  fileKey?: string;
+  /** Write a Testing Library test next to every component, for targets that support it */
+  tests?: boolean;
+  /** Add a snapshot test to the generated tests */
+  snapshots?: boolean;
+  /** Paths prototype links navigate to, keyed by frame id; other frames are linked at their kebab-case name */
+  routes?: Record<string, string>;
+  /** Files other exports generate to the output directory; a node asking for one gets a suffixed name */
+  reservedFiles?: string[];
+  /** Router of the app the components are generated into, whose link component links to its `routes` */
+  router?: AppRouter;
+}
+
+export interface GeneratedComponent {
+  code: string;
+  filename: string;
+  /** Identifier of the component, e.g. `LoginCard` */
+  name: string;
+  /** Id of the Figma node the component is generated from */
+  nodeId: string;
+  /** Other files generated with the component, such as its CSS Module */
+  files: GeneratedFile[];
 }
 
 export class DesignToCode {
   private config: ComponentConfig;
+  private generator: FrameworkGenerator;
+  private components: ComponentRegistry = new Map();
+  /** Paths prototype links navigate to, by the id of the screen's frame */
+  private routes = new Map<string, string>();
+  /** Icon components keyed by the SVG asset they are generated from */
+  private icons = new Map<string, ComponentReference>();
+  private naming: ReturnType<typeof componentNaming>;
 
   constructor(config: Partial<ComponentConfig> = {}) {
     this.config = {
       framework: config.framework || 'react',
+      dialect: config.dialect,
       outputDir: config.outputDir || './components',
       typescript: config.typescript !== false,
       tailwind: config.tailwind !== false,
-      includeStyles: config.includeStyles !== false
+      includeStyles: config.includeStyles !== false,
+      tokens: config.tokens,
+      assets: config.assets,
+      layout: config.layout || 'flat',
+      fileNaming: config.fileNaming || 'PascalCase',
+      overrides: config.overrides,
+      semantics: config.semantics !== false,
+      stories: config.stories,
+      nodePaths: config.nodePaths,
+      fileKey: config.fileKey,
+      tests: config.tests,
+      snapshots: config.snapshots,
+      routes: config.routes,
+      reservedFiles: config.reservedFiles,
+      router: config.router
     };
+    this.generator = getGenerator(this.config.framework);
+    this.config.dialect = generatorDialect(this.generator, this.config.dialect);
+    this.naming = componentNaming({
+      layout: this.config.layout,
+      files: this.generator.fileNaming ?? this.config.fileNaming,
+      extension: this.componentExtension,
+      reserved: this.config.reservedFiles
+    });
+
+    // Targets without icon components show SVGs with an `<img>`
+    const icons = this.generator.generateIcon && !this.generator.inlineInstances;
+    for (const asset of icons ? this.svgAssets() : []) {
+      this.icons.set(asset.filename, {
+        ...this.naming.icon(iconName(asset)),
+        node: asset.node,
+        main: asset.node,
+        props: []
+      });
+    }
   }
 
   /**
@@ -55,317 +172,228 @@ export class DesignToCode {
       };
     }
 
-    if (node.fills && node.fills.length > 0) {
-      props.backgroundColor = this.colorToHex(node.fills[0]);
+    const fill = node.fills?.filter(f => f.visible !== false).pop();
+    const background = fill && paintToCSS(fill, node);
+    if (background) {
+      props.backgroundColor = background;
     }
 
     if (node.characters) {
       props.text = node.characters;
-      props.fontSize = node.fontSize || 14;
-      props.fontWeight = node.fontWeight || 400;
+      props.fontSize = node.style?.fontSize ?? node.fontSize ?? 14;
+      props.fontWeight = node.style?.fontWeight ?? node.fontWeight ?? 400;
     }
 
     return props;
   }
 
   /**
-   * Generate React component code
+   * Build the framework-independent IR of the component generated from a node
    */
-  generateReactComponent(node: FigmaNode, props: Record<string, any>): string {
-    const componentName = this.toPascalCase(props.name);
-    const isTS = this.config.typescript;
-    const ext = isTS ? 'tsx' : 'jsx';
-    
-    const typeAnnotation = isTS ? ': React.FC<Props>' : '';
-    const propsInterface = isTS ? `
-interface Props {
-  children?: React.ReactNode;
-  className?: string;
-}
-` : '';
-
-    const styles = this.config.tailwind 
-      ? this.generateTailwindClasses(props)
-      : this.generateCSSClasses(props);
-
-    const code = `import React${isTS ? ', { FC }' : ''} from 'react';
-${this.config.includeStyles && !this.config.tailwind ? `import styles from './${componentName}.module.css';\n` : ''}
-
-${propsInterface}
-/**
- * ${componentName} Component
- * Auto-generated from Figma design
- * Original Figma ID: ${props.id}
- */
-const ${componentName}${typeAnnotation} = ({ children, className = '' }) => {
-  return (
-    <div
-      className="${styles} \${className}"
-      role="presentation"
-      data-testid="${this.toKebabCase(componentName)}"
-    >
-      {children}
-    </div>
-  );
-};
-
-export default ${componentName};
-export { ${componentName} };
-`;
-
-    return code;
+  buildIR(node: FigmaNode): ComponentIR {
+    return buildComponentIR(node, this.componentFile(node), {
+      tokens: this.config.tokens,
+      components: this.components,
+      assets: this.config.assets,
+      icons: this.icons,
+      semantics: {
+        infer: this.config.semantics,
+        overrides: this.config.overrides,
+        router: this.config.router && routerLink(this.config.router)
+      },
+      routes: this.routes
+    }, this.styling, this.generator.stylesheet);
   }
 
-  /**
-   * Generate Vue component code
-   */
-  generateVueComponent(node: FigmaNode, props: Record<string, any>): string {
-    const componentName = this.toPascalCase(props.name);
-    const styles = this.config.tailwind
-      ? this.generateTailwindClasses(props)
-      : this.generateCSSClasses(props);
-
-    const code = `<template>
-  <div
-    :class="['${styles}', className]"
-    role="presentation"
-    :data-testid="testId"
-  >
-    <slot></slot>
-  </div>
-</template>
-
-<script${this.config.typescript ? ' lang="ts"' : ''}>
-${this.config.typescript ? `
-interface Props {
-  className?: string;
-}
-
-export default {
-  name: '${componentName}',
-  props: {
-    className: {
-      type: String,
-      default: ''
-    }
-  },
-  data() {
+  private get generatorOptions(): GeneratorOptions {
     return {
-      testId: '${this.toKebabCase(componentName)}'
+      typescript: this.config.typescript,
+      styling: this.styling,
+      tokens: Boolean(this.config.tokens),
+      dialect: this.config.dialect
     };
   }
-};
-` : `
-export default {
-  name: '${componentName}',
-  props: {
-    className: {
-      type: String,
-      default: ''
-    }
-  },
-  data() {
-    return {
-      testId: '${this.toKebabCase(componentName)}'
-    };
-  }
-};
-`}
-</script>
-
-<style${this.config.tailwind ? '' : ' scoped'}>
-${!this.config.tailwind ? this.generateCSSContent(props) : '/* Tailwind CSS is enabled */'}
-</style>
-`;
-
-    return code;
-  }
 
   /**
-   * Generate Svelte component code
+   * How generated markup is styled: Tailwind classes, a stylesheet
+   * (CSS Modules for React, scoped styles for Vue and Svelte) or inline styles
    */
-  generateSvelteComponent(node: FigmaNode, props: Record<string, any>): string {
-    const componentName = this.toPascalCase(props.name);
-    const styles = this.config.tailwind
-      ? this.generateTailwindClasses(props)
-      : this.generateCSSClasses(props);
-
-    const code = `<script${this.config.typescript ? ' lang="ts"' : ''}>
-  let className = '';
-  export { className as class };
-  
-  ${this.config.typescript ? `
-  interface Props {
-    class?: string;
+  private get styling(): StyleMode {
+    if (this.config.tailwind) return 'tailwind';
+    return this.config.includeStyles ? 'stylesheet' : 'inline';
   }
-  ` : ''}
 
-  const testId = '${this.toKebabCase(componentName)}';
-</script>
-
-<div
-  class="${styles} {className}"
-  role="presentation"
-  data-testid="{testId}"
->
-  <slot></slot>
-</div>
-
-<style${!this.config.tailwind ? ' scoped' : ''}>
-  ${!this.config.tailwind ? `
-  div {
-    ${Object.entries(this.styleObjectToCSS(props)).join('\n    ')}
-  }
-  ` : '/* Tailwind CSS is enabled */'}
-</style>
-`;
-
-    return code;
+  /**
+   * Sanitize component name
+   */
+  private sanitizeName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9]/g, '');
   }
 
   /**
-   * Generate Tailwind classes from design props
+   * Generate component from Figma node
    */
-  private generateTailwindClasses(props: Record<string, any>): string {
-    const classes: string[] = [];
-
-    if (props.dimensions) {
-      classes.push(`w-[${Math.round(props.dimensions.width)}px]`);
-      classes.push(`h-[${Math.round(props.dimensions.height)}px]`);
+  generateComponent(node: FigmaNode): GeneratedComponent {
+    const ir = this.buildIR(node);
+    const [component, ...files] = this.generator.generate(ir, this.generatorOptions);
+    if (this.config.stories && this.generator.stories) {
+      const title = storyTitle(
+        this.config.nodePaths?.get(node.id) || [],
+        nodeOverride(node, this.config.overrides).name || node.name
+      );
+      files.push(generateStories(ir, this.generator.stories, { title, fileKey: this.config.fileKey }, this.generatorOptions));
     }
-
-    if (props.backgroundColor) {
-      const hex = props.backgroundColor;
-      classes.push(`bg-[${hex}]`);
+    if (this.config.tests && this.generator.tests) {
+      files.push(generateTests(ir, this.generator.tests, { snapshots: this.config.snapshots }, this.generatorOptions));
     }
-
-    if (props.fontSize) {
-      const size = Math.round(props.fontSize / 4);
-      classes.push(`text-${size > 16 ? `[${props.fontSize}px]` : size}`);
-    }
-
-    return classes.join(' ');
+    return { ...component, name: ir.name, nodeId: node.id, files };
   }
 
   /**
-   * Generate CSS classes from design props
+   * Storybook preview loading what the generated components need, such as the
+   * design tokens' stylesheet; undefined for targets without stories
    */
-  private generateCSSClasses(props: Record<string, any>): string {
-    return 'component-auto-generated';
+  generateStoryPreview(): GeneratedFile | undefined {
+    return this.generator.stories && generateStoryPreview(this.generator.stories, this.generatorOptions);
   }
 
   /**
-   * Generate CSS content
+   * Name and file name of the component generated from a node
    */
-  private generateCSSContent(props: Record<string, any>): string {
-    const styles = this.styleObjectToCSS(props);
-    return Object.entries(styles)
-      .map(([key, value]) => `  ${key}: ${value};`)
-      .join('\n');
+  componentFile(node: FigmaNode): { name: string; filename: string } {
+    return this.naming.component(node, nodeOverride(node, this.config.overrides).name);
   }
 
   /**
-   * Convert style object to CSS
+   * Nodes named differently than their layer name asks for, because another node took the name
    */
-  private styleObjectToCSS(props: Record<string, any>): Record<string, string> {
-    const css: Record<string, string> = {};
-
-    if (props.dimensions) {
-      css['width'] = `${props.dimensions.width}px`;
-      css['height'] = `${props.dimensions.height}px`;
-    }
-
-    if (props.backgroundColor) {
-      css['background-color'] = props.backgroundColor;
-    }
-
-    if (props.fontSize) {
-      css['font-size'] = `${props.fontSize}px`;
-    }
-
-    if (props.fontWeight) {
-      css['font-weight'] = `${props.fontWeight}`;
-    }
-
-    return css;
+  get nameCollisions(): NameCollision[] {
+    return this.naming.collisions;
   }
 
-  /**
-   * Convert color object to hex
-   */
-  private colorToHex(fill: any): string {
-    if (fill.type !== 'SOLID' || !fill.color) return '#000000';
-    
-    const { r, g, b } = fill.color;
-    const toHex = (n: number) => {
-      const hex = Math.round(n * 255).toString(16);
-      return hex.length === 1 ? '0' + hex : hex;
-    };
-    
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+  private get componentExtension(): string {
+    return this.generator.extension(this.generatorOptions);
   }
 
   /**
-   * Sanitize component name
+   * SVG renders of layers, each generated as an icon component
    */
-  private sanitizeName(name: string): string {
-    return name.replace(/[^a-zA-Z0-9]/g, '');
+  private svgAssets(): Asset[] {
+    // Only layer renders become icons; image fills stay backgrounds
+    const rendered = Array.from(new Set(this.config.assets?.nodes.values()));
+    return rendered.filter(asset => asset.format === 'svg');
   }
 
   /**
-   * Convert to PascalCase
+   * Generate the icon component that draws an SVG asset inline
    */
-  private toPascalCase(str: string): string {
-    return str
-      .split(/[\s\-_]+/)
-      .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-      .join('');
+  generateIcon(asset: Asset): GeneratedComponent {
+    const { name, filename } = this.icons.get(asset.filename)!;
+    const icon = { name, filename, asset, svg: asset.content.toString('utf8') };
+    const [component, ...files] = this.generator.generateIcon!(icon, this.generatorOptions);
+    return { ...component, name, nodeId: asset.node.id, files };
   }
 
   /**
-   * Convert to kebab-case
+   * Register the components generated from these nodes, so instances of
+   * them elsewhere import the generated component instead of repeating its markup
    */
-  private toKebabCase(str: string): string {
-    return str.replace(/([A-Z])/g, '-$1').toLowerCase().replace(/^-/, '');
+  registerComponents(nodes: FigmaNode[]): void {
+    // Named up front, so which of two same-named nodes gets a suffix follows document order
+    nodes.forEach(node => this.componentFile(node));
+    // Links to a screen designed at several widths can point at any of its frames
+    for (const node of nodes.filter(node => node.type !== 'COMPONENT' && node.type !== 'COMPONENT_SET')) {
+      [node, ...(node.breakpointFrames || []).map(frame => frame.node)].forEach(frame => this.routes.set(frame.id, routePath(node)));
+    }
+    Object.entries(this.config.routes || {}).forEach(([id, path]) => this.routes.set(id, path));
+    if (this.generator.inlineInstances) return;
+    // Frames opened as overlays are rendered by the components opening them
+    const overlays = new Set(overlayDestinations(nodes));
+    const extracted = (node: FigmaNode) =>
+      Boolean(nodeOverride(node, this.config.overrides).component) || overlays.has(node.id);
+    for (const [id, reference] of registerComponents(nodes, node => this.componentFile(node), extracted)) {
+      this.components.set(id, reference);
+    }
   }
 
   /**
-   * Generate component from Figma node
+   * Process multiple nodes into components
    */
-  generateComponent(node: FigmaNode): { code: string; filename: string } {
-    const props = this.extractProps(node);
-    const componentName = this.toPascalCase(props.name);
-    
-    let code = '';
-    let ext = '';
-
-    switch (this.config.framework) {
-      case 'react':
-        code = this.generateReactComponent(node, props);
-        ext = this.config.typescript ? 'tsx' : 'jsx';
-        break;
-      case 'vue':
-        code = this.generateVueComponent(node, props);
-        ext = 'vue';
-        break;
-      case 'svelte':
-        code = this.generateSvelteComponent(node, props);
-        ext = 'svelte';
-        break;
-    }
-
-    return {
-      code,
-      filename: `${componentName}.${ext}`
-    };
+  processDesign(nodes: FigmaNode[]): GeneratedComponent[] {
+    this.registerComponents(nodes);
+    return [...nodes.map(node => this.generateComponent(node)), ...this.generateIcons()];
   }
 
   /**
-   * Process multiple nodes into components
+   * Generate the icon components for the SVG assets
    */
-  processDesign(nodes: FigmaNode[]): Array<{ code: string; filename: string }> {
-    return nodes.map(node => this.generateComponent(node));
+  generateIcons(): GeneratedComponent[] {
+    return this.svgAssets()
+      .filter(asset => this.icons.has(asset.filename))
+      .map(asset => this.generateIcon(asset));
   }
 }
 
+export {
+  extractTokens,
+  tokenSourceFromFile,
+  tokenSourceFromJSON,
+  mergeTokenSources,
+  generateTokensCSS,
+  generateTailwindTheme,
+  generateTokensJSON
+} from './tokens';
+export type { DesignToken, TokenSet, TokenSource } from './tokens';
+export type { ComponentReference, ComponentRegistry } from './instances';
+export { generatorDialect, generatorNames, getGenerator, registerGenerator } from './generator';
+export type { FrameworkGenerator, GeneratedFile, GeneratorOptions } from './generator';
+export { componentNaming, pascalCase } from './naming';
+export type { FileNaming, NameCollision, NamingOptions, OutputLayout } from './naming';
+export { collectComponentRoots, nodeOverride, nodePaths, skippedNodes } from './selection';
+export type { NodeFilter, NodeOverride, NodeSelection, SkippedNode } from './selection';
+export { defineConfig, loadConfig, resolveSettings } from './config';
+export type { DesignToCodeConfig, GenerationSettings, LoadedConfig } from './config';
+export { buildComponentIR, companionFile, importPath } from './ir';
+export type { ComponentIR, IconIR, StyleMode } from './ir';
+export { DIALECTS, jsLiteral, renderMarkup } from './renderer';
+export type { InteractionBindings, MarkupDialect, RenderElement, RenderOptions, RootBindings, StateStyle } from './renderer';
+export { generateStylesheet } from './stylesheet';
+export type { StyleRule, StylesheetOptions } from './stylesheet';
+export { generateTests, jsxElement, objectLiteral } from './component-tests';
+export type { TestOptions, TestSupport } from './component-tests';
+export { defaultExportStories, generateStories, generateStoryPreview, storyTitle } from './stories';
+export type { StoryContext, StorySupport } from './stories';
+export { buildResponsiveTree, DEFAULT_BREAKPOINTS, DEFAULT_FRAME_PATTERN, groupBreakpoints, unmatchedLayers } from './responsive';
+export type { Breakpoint, BreakpointFrame, ResponsiveOptions, UnmatchedLayer } from './responsive';
+export { applySemantics, presentationRole } from './semantics';
+export type { SemanticsOptions } from './semantics';
+export { contrastIssues, contrastRatio } from './contrast';
+export type { ContrastIssue } from './contrast';
+export { unsupportedFeatures } from './unsupported';
+export type { UnsupportedFeature } from './unsupported';
+export { cssEasing, cssTransition, hasPointerStates, nodeReactions, routePath } from './interactions';
+export type { ClickAction, Easing, InteractionFields, PointerState, Reaction, Transition } from './interactions';
+export { appRouter, APP_ROUTERS, componentsDirectory, generateApp, pageRoutes, routeTable, routerLink } from './scaffold';
+export type { AppOptions, AppPage, AppRouter, Route, RouterLink } from './scaffold';
+export { keepRegion } from './manifest';
+export { propTypeScript } from './variants';
+export type { ComponentProp } from './variants';
+export { assetList, localAssetSource, planAssets, resolveAssets } from './assets';
+export type { Asset, AssetSet, AssetSource } from './assets';
+export {
+  axiosTransport,
+  extractFileId,
+  extractNodeIds,
+  fetchFigmaFile,
+  fetchFigmaNodes,
+  fetchFigmaPages,
+  fetchFigmaVariables,
+  fetchFigmaVersion,
+  FigmaApiError,
+  figmaAssetSource
+} from './figma-client';
+export type { FigmaFileVersion, FigmaTransport } from './figma-client';
+export { pollFigmaFile, watchFiles } from './watch';
+export type { PollOptions, Watcher, WatchOptions } from './watch';
+
 export default DesignToCode;
@@ -0,0 +1,223 @@
+import type { FigmaNode } from './index';
+import { extractPlacementStyles } from './layout';
+import { BuildContext, buildElementTree, RenderElement } from './renderer';
+import { px } from './styles';
+import { ComponentProp, extractComponentProps, variantValues } from './variants';
+
+/**
+ * A component generated from the same document, which instances of it import
+ */
+export interface ComponentReference {
+  /** Identifier of the generated component */
+  name: string;
+  /** Generated file name, relative to the other components */
+  filename: string;
+  /** The COMPONENT or COMPONENT_SET the component is generated from */
+  node: FigmaNode;
+  /** The main COMPONENT instances point to; a variant for components inside a set */
+  main: FigmaNode;
+  props: ComponentProp[];
+  /** Variant values of the main component, for components inside a set */
+  variant?: Record<string, string>;
+}
+
+/**
+ * The generated component an element renders, with the props set on the instance
+ */
+export interface InstanceBinding {
+  component: ComponentReference;
+  /** Props that differ from the component's defaults */
+  props: Record<string, string | boolean>;
+  /** Props bound to JS expressions, e.g. lookups on the enclosing variant */
+  bindings?: Record<string, string>;
+  /** Markup passed to instance-swap props */
+  slots: Record<string, RenderElement>;
+}
+
+/**
+ * Generated components keyed by the id of every main COMPONENT they cover
+ */
+export type ComponentRegistry = Map<string, ComponentReference>;
+
+/**
+ * Register the COMPONENT and COMPONENT_SET nodes among the generated roots.
+ * Variants are registered under their set, so instances of any variant
+ * render the set's component with the variant's values as props.
+ * Other roots are registered under their own id when `extracted`, so the
+ * layers containing them render the generated component.
+ */
+export function registerComponents(
+  nodes: FigmaNode[],
+  naming: (node: FigmaNode) => { name: string; filename: string },
+  extracted: (node: FigmaNode) => boolean = () => false
+): ComponentRegistry {
+  const registry: ComponentRegistry = new Map();
+
+  for (const node of nodes) {
+    if (node.type !== 'COMPONENT' && node.type !== 'COMPONENT_SET') {
+      if (extracted(node)) {
+        registry.set(node.id, { ...naming(node), node, main: node, props: [] });
+      }
+      continue;
+    }
+
+    const reference = { ...naming(node), node, main: node, props: extractComponentProps(node) };
+    if (node.type === 'COMPONENT') {
+      registry.set(node.id, reference);
+      continue;
+    }
+
+    for (const variant of node.children || []) {
+      if (variant.type === 'COMPONENT') {
+        registry.set(variant.id, { ...reference, main: variant, variant: variantValues(variant) });
+      }
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Render an INSTANCE as its generated component, or return null when its
+ * main component is not part of this generation run
+ */
+export function buildInstanceElement(
+  node: FigmaNode,
+  parent: FigmaNode | undefined,
+  context: BuildContext
+): RenderElement | null {
+  const reference = node.componentId ? context.components?.get(node.componentId) : undefined;
+  if (!reference) return null;
+
+  const props: Record<string, string | boolean> = {};
+  const slots: Record<string, RenderElement> = {};
+
+  for (const prop of reference.props) {
+    if (prop.kind === 'instance') {
+      const slot = swappedInstance(node, prop, reference, context);
+      if (slot) slots[prop.name] = slot;
+      continue;
+    }
+
+    const value = instancePropValue(node, prop, reference);
+    if (value !== undefined && value !== prop.defaultValue) {
+      props[prop.name] = value;
+    }
+  }
+
+  return componentElement(node, parent, { component: reference, props, slots });
+}
+
+/**
+ * Render a layer generated as a component of its own as that component, or
+ * return null when it isn't one. Roots and variants render their own layers.
+ */
+export function buildExtractedElement(
+  node: FigmaNode,
+  parent: FigmaNode | undefined,
+  context: BuildContext
+): RenderElement | null {
+  const reference = parent && node.type !== 'COMPONENT' ? context.components?.get(node.id) : undefined;
+  if (!reference) return null;
+
+  return componentElement(node, parent, { component: reference, props: {}, slots: {} });
+}
+
+function componentElement(node: FigmaNode, parent: FigmaNode | undefined, instance: InstanceBinding): RenderElement {
+  // The component already renders at its main component's size
+  const styles = extractPlacementStyles(node, parent);
+  const box = node.absoluteBoundingBox;
+  const mainBox = instance.component.main.absoluteBoundingBox;
+  if (box && mainBox && styles['width'] === px(mainBox.width) && styles['height'] === px(mainBox.height)) {
+    delete styles['width'];
+    delete styles['height'];
+  }
+
+  return {
+    tag: instance.component.name,
+    node,
+    styles,
+    attributes: {},
+    children: [],
+    instance
+  };
+}
+
+/**
+ * Value of a variant, boolean or text prop on an instance: the instance's
+ * `componentProperties` when the export has them, otherwise the main
+ * component's variant and the overridden layers bound to the property
+ */
+function instancePropValue(
+  instance: FigmaNode,
+  prop: ComponentProp,
+  reference: ComponentReference
+): string | boolean | undefined {
+  const property = instance.componentProperties?.[prop.figmaName];
+  if (property) return property.value;
+
+  if (prop.kind === 'variant') {
+    return reference.variant?.[prop.figmaName];
+  }
+
+  const field = prop.kind === 'boolean' ? 'visible' : 'characters';
+  const layer = findLayer(instance, layer => layer.componentPropertyReferences?.[field] === prop.figmaName);
+  if (!layer || !isOverridden(instance, layer, field)) return undefined;
+
+  return prop.kind === 'boolean' ? layer.visible !== false : layer.characters;
+}
+
+/**
+ * The nested instance an instance-swap property was set to, when it differs
+ * from the main component's default
+ */
+function swappedInstance(
+  instance: FigmaNode,
+  prop: ComponentProp,
+  reference: ComponentReference,
+  context: BuildContext
+): RenderElement | null {
+  const defaultValue = reference.node.componentPropertyDefinitions?.[prop.figmaName]?.defaultValue;
+  const value = instance.componentProperties?.[prop.figmaName]?.value;
+  if (value === undefined || value === defaultValue) return null;
+
+  const layer = findLayer(instance, layer => layer.componentPropertyReferences?.mainComponent === prop.figmaName);
+  if (!layer) return null;
+
+  return buildElementTree({ ...layer, visible: true }, undefined, { ...context, componentProps: undefined });
+}
+
+function isOverridden(instance: FigmaNode, layer: FigmaNode, field: string): boolean {
+  // Without an overrides list, trust the layer as exported
+  if (!instance.overrides) return true;
+  return instance.overrides.some(o => o.id === layer.id && o.overriddenFields.includes(field));
+}
+
+function findLayer(node: FigmaNode, predicate: (layer: FigmaNode) => boolean): FigmaNode | undefined {
+  for (const child of node.children || []) {
+    if (predicate(child)) return child;
+    // Nested instances own their own properties
+    if (child.type === 'INSTANCE') continue;
+    const found = findLayer(child, predicate);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Components rendered anywhere in an element tree, in first-use order
+ */
+export function usedComponents(element: RenderElement): ComponentReference[] {
+  const used = new Map<string, ComponentReference>();
+
+  const visit = (current: RenderElement) => {
+    if (current.instance) {
+      used.set(current.instance.component.name, current.instance.component);
+      Object.values(current.instance.slots).forEach(visit);
+    }
+    current.children.forEach(visit);
+  };
+  visit(element);
+
+  return Array.from(used.values());
+}
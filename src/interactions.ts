@@ -0,0 +1,395 @@
+import type { FigmaNode } from './index';
+import type { ComponentReference, ComponentRegistry } from './instances';
+import { toKebabCase } from './ir';
+import type { BuildContext, RenderElement } from './renderer';
+import { colorToCSS, CSSDeclarations } from './styles';
+import { ComponentProp, toPropName } from './variants';
+
+export type EasingType =
+  | 'LINEAR'
+  | 'EASE_IN'
+  | 'EASE_OUT'
+  | 'EASE_IN_AND_OUT'
+  | 'EASE_IN_BACK'
+  | 'EASE_OUT_BACK'
+  | 'EASE_IN_AND_OUT_BACK'
+  | 'CUSTOM_CUBIC_BEZIER'
+  | 'GENTLE'
+  | 'QUICK'
+  | 'BOUNCY'
+  | 'SLOW'
+  | 'CUSTOM_SPRING';
+
+export interface Easing {
+  type: EasingType;
+  easingFunctionCubicBezier?: { x1: number; y1: number; x2: number; y2: number };
+}
+
+export interface Transition {
+  /** `SMART_ANIMATE`, `DISSOLVE`, or a directional transition such as `MOVE_IN` */
+  type: string;
+  /** In milliseconds, or seconds in plugin exports */
+  duration: number;
+  easing?: Easing;
+}
+
+export interface Action {
+  type: 'NODE' | 'URL' | 'BACK' | 'CLOSE' | string;
+  destinationId?: string | null;
+  navigation?: 'NAVIGATE' | 'SWAP' | 'OVERLAY' | 'SCROLL_TO' | 'CHANGE_TO';
+  /** Null for instant changes */
+  transition?: Transition | null;
+  url?: string;
+  openInNewTab?: boolean;
+}
+
+/**
+ * A prototype interaction: what a trigger on a layer does
+ */
+export interface Reaction {
+  trigger: { type: string } | null;
+  /** Older exports have a single action */
+  action?: Action | null;
+  actions?: Action[];
+}
+
+/**
+ * Prototype fields of a layer, of frames shown as overlays and of pages
+ */
+export interface InteractionFields {
+  reactions?: Reaction[];
+  /** Interactions as newer exports call them */
+  interactions?: Reaction[];
+  overlayPositionType?: string;
+  overlayBackground?: { type: 'NONE' | 'SOLID_COLOR'; color?: { r: number; g: number; b: number; a?: number } };
+  overlayBackgroundInteraction?: 'NONE' | 'CLOSE_ON_CLICK_OUTSIDE';
+  /** Frames the page's prototype flows start at */
+  flowStartingPoints?: Array<{ nodeId: string; name: string }>;
+}
+
+/**
+ * Pointer states a component's variants can stand for, as CSS pseudo-classes
+ */
+export type PointerState = 'hover' | 'active';
+
+/** Figma triggers whose variant change lasts while the pointer is over or down on the layer */
+export const POINTER_TRIGGERS: Record<string, PointerState> = { ON_HOVER: 'hover', ON_PRESS: 'active' };
+
+/**
+ * What clicking an element does: move a variant prop, kept as component
+ * state, to its next value; open or close an overlay; or follow a link
+ */
+export type ClickAction =
+  | { type: 'state'; prop: string; next: Record<string, string> }
+  | { type: 'overlay'; prop: string; open: boolean }
+  | { type: 'link'; href: string; newTab?: boolean; route?: boolean };
+
+/**
+ * A trigger on a layer changing the component to another variant
+ */
+export interface VariantChange {
+  /** Layer the trigger is on */
+  node: FigmaNode;
+  trigger: string;
+  destinationId: string;
+  transition?: Transition;
+}
+
+const EASINGS: Partial<Record<EasingType, string>> = {
+  LINEAR: 'linear',
+  EASE_IN: 'cubic-bezier(0.42, 0, 1, 1)',
+  EASE_OUT: 'cubic-bezier(0, 0, 0.58, 1)',
+  EASE_IN_AND_OUT: 'cubic-bezier(0.42, 0, 0.58, 1)',
+  EASE_IN_BACK: 'cubic-bezier(0.3, -0.05, 0.7, -0.5)',
+  EASE_OUT_BACK: 'cubic-bezier(0.45, 1.45, 0.8, 1)',
+  EASE_IN_AND_OUT_BACK: 'cubic-bezier(0.7, -0.4, 0.4, 1.4)',
+  // Springs have no CSS curve; these settle about as they do
+  GENTLE: 'cubic-bezier(0.34, 1.36, 0.64, 1)',
+  QUICK: 'cubic-bezier(0.2, 1.2, 0.4, 1)',
+  BOUNCY: 'cubic-bezier(0.34, 1.8, 0.64, 1)',
+  SLOW: 'cubic-bezier(0.25, 1.1, 0.5, 1)',
+  CUSTOM_SPRING: 'cubic-bezier(0.34, 1.36, 0.64, 1)'
+};
+
+/**
+ * Transitions animating property changes rather than swapping screens
+ */
+const ANIMATED_TRANSITIONS = ['SMART_ANIMATE', 'DISSOLVE'];
+
+/**
+ * Interactions of a layer, each with its list of actions
+ */
+export function nodeReactions(node: FigmaNode): Array<{ trigger: string; actions: Action[] }> {
+  return (node.interactions || node.reactions || []).flatMap(reaction => {
+    if (!reaction.trigger) return [];
+    const actions = reaction.actions || (reaction.action ? [reaction.action] : []);
+    return [{ trigger: reaction.trigger.type, actions: actions.filter(Boolean) }];
+  });
+}
+
+/**
+ * Variant changes triggered on a layer and the layers inside it, leaving
+ * out nested instances, whose interactions belong to their own component
+ */
+export function variantChanges(node: FigmaNode): VariantChange[] {
+  const changes: VariantChange[] = [];
+  const visit = (layer: FigmaNode) => {
+    for (const { trigger, actions } of nodeReactions(layer)) {
+      for (const action of actions) {
+        if (action.type !== 'NODE' || action.navigation !== 'CHANGE_TO' || !action.destinationId) continue;
+        changes.push({ node: layer, trigger, destinationId: action.destinationId, transition: action.transition || undefined });
+      }
+    }
+    if (layer === node || layer.type !== 'INSTANCE') {
+      (layer.children || []).forEach(visit);
+    }
+  };
+  visit(node);
+  return changes;
+}
+
+/**
+ * The CSS timing function closest to a Figma easing
+ */
+export function cssEasing(easing: Easing | undefined): string {
+  const bezier = easing?.easingFunctionCubicBezier;
+  if (easing?.type === 'CUSTOM_CUBIC_BEZIER' && bezier) {
+    return `cubic-bezier(${[bezier.x1, bezier.y1, bezier.x2, bezier.y2].map(round).join(', ')})`;
+  }
+  return (easing && EASINGS[easing.type]) || 'ease-out';
+}
+
+/**
+ * `transition` value animating the properties as a Smart Animate or
+ * dissolve transition does; undefined for instant changes
+ */
+export function cssTransition(properties: string[], transition: Transition | undefined): string | undefined {
+  if (!transition || !ANIMATED_TRANSITIONS.includes(transition.type) || properties.length === 0) return undefined;
+  // Plugins export seconds, the REST API milliseconds
+  const duration = Math.round(transition.duration < 10 ? transition.duration * 1000 : transition.duration);
+  const easing = cssEasing(transition.easing);
+  return properties.map(property => `${property} ${duration}ms ${easing}`).join(', ');
+}
+
+/**
+ * Declaration animating the properties that change between two variants,
+ * merged into `transition` declarations already there; properties already
+ * animated keep their first transition
+ */
+export function addTransition(
+  styles: CSSDeclarations,
+  changes: CSSDeclarations,
+  transition: Transition | undefined
+): CSSDeclarations {
+  const animated = Array.from((styles.transition || '').matchAll(/(?:^|, )([\w-]+) \d+ms/g), match => match[1]);
+  // `display` switches at once whatever the transition
+  const properties = Object.keys(changes).filter(property => property !== 'display' && !animated.includes(property));
+  const value = cssTransition(properties, transition);
+  if (!value) return styles;
+  return { ...styles, transition: styles.transition ? `${styles.transition}, ${value}` : value };
+}
+
+/**
+ * The click action of a layer linking to another screen or a URL, or
+ * opening a generated component as an overlay
+ */
+export function clickAction(node: FigmaNode, context: BuildContext): ClickAction | undefined {
+  for (const { trigger, actions } of nodeReactions(node)) {
+    if (trigger !== 'ON_CLICK') continue;
+    for (const action of actions) {
+      if (action.type === 'URL' && action.url) {
+        return { type: 'link', href: action.url, newTab: action.openInNewTab };
+      }
+      if (action.type !== 'NODE' || !action.destinationId) continue;
+      if (action.navigation === 'NAVIGATE') {
+        const route = context.routes?.get(action.destinationId);
+        return route === undefined ? { type: 'link', href: '#' } : { type: 'link', href: route, route: true };
+      }
+      const prop = action.navigation === 'OVERLAY' &&
+        context.componentProps?.find(p => p.overlay === action.destinationId);
+      if (prop) {
+        return { type: 'overlay', prop: prop.name, open: true };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Boolean props opening the generated components a component's layers show
+ * as overlays, e.g. `menuOpen`, named clear of the props in `existing`
+ */
+export function overlayProps(node: FigmaNode, existing: ComponentProp[], components?: ComponentRegistry): ComponentProp[] {
+  const used = new Set(existing.map(p => p.name));
+  const props: ComponentProp[] = [];
+
+  for (const id of overlayDestinations([node])) {
+    const reference = components?.get(id);
+    if (!reference) continue;
+
+    const figmaName = `${reference.name} open`;
+    let name = toPropName(figmaName);
+    for (let i = 2; used.has(name); i++) {
+      name = `${toPropName(figmaName)}${i}`;
+    }
+    used.add(name);
+    props.push({ name, figmaName, kind: 'boolean', defaultValue: false, overlay: id });
+  }
+  return props;
+}
+
+/**
+ * Ids of the frames layers of these nodes open as overlays
+ */
+export function overlayDestinations(nodes: FigmaNode[]): string[] {
+  const ids = new Set<string>();
+  const visit = (layer: FigmaNode) => {
+    for (const { trigger, actions } of nodeReactions(layer)) {
+      if (trigger !== 'ON_CLICK') continue;
+      for (const action of actions) {
+        if (action.type === 'NODE' && action.navigation === 'OVERLAY' && action.destinationId) {
+          ids.add(action.destinationId);
+        }
+      }
+    }
+    (layer.children || []).forEach(visit);
+    layer.breakpointFrames?.forEach(frame => visit(frame.node));
+  };
+  nodes.forEach(visit);
+  return Array.from(ids);
+}
+
+/**
+ * Render the overlays the props open at the end of the tree: the overlay's
+ * component over the page, placed as the frame's overlay settings say, on
+ * a backdrop that closes it when clicked outside
+ */
+export function addOverlays(tree: RenderElement, props: ComponentProp[], components?: ComponentRegistry): void {
+  for (const prop of props) {
+    const reference = prop.overlay ? components?.get(prop.overlay) : undefined;
+    if (reference) tree.children.push(overlayElement(prop, reference));
+  }
+}
+
+const OVERLAY_ALIGNMENT: Record<string, [string, string]> = {
+  TOP_LEFT: ['flex-start', 'flex-start'],
+  TOP_CENTER: ['flex-start', 'center'],
+  TOP_RIGHT: ['flex-start', 'flex-end'],
+  BOTTOM_LEFT: ['flex-end', 'flex-start'],
+  BOTTOM_CENTER: ['flex-end', 'center'],
+  BOTTOM_RIGHT: ['flex-end', 'flex-end']
+};
+
+function overlayElement(prop: ComponentProp, reference: ComponentReference): RenderElement {
+  const frame = reference.node;
+  const [alignItems, justifyContent] = OVERLAY_ALIGNMENT[frame.overlayPositionType || ''] || ['center', 'center'];
+  const background = frame.overlayBackground?.type === 'SOLID_COLOR' ? frame.overlayBackground.color : undefined;
+  const closes = frame.overlayBackgroundInteraction === 'CLOSE_ON_CLICK_OUTSIDE';
+
+  const children: RenderElement[] = [];
+  if (background || closes) {
+    children.push({
+      tag: 'div',
+      node: { ...frame, name: `${reference.name} backdrop` },
+      styles: {
+        'position': 'absolute',
+        'inset': '0',
+        ...(background ? { 'background-color': colorToCSS(background) } : {})
+      },
+      attributes: {},
+      children: [],
+      click: closes ? { type: 'overlay', prop: prop.name, open: false } : undefined
+    });
+  }
+  children.push({
+    tag: reference.name,
+    node: frame,
+    styles: { position: 'relative' },
+    attributes: {},
+    children: [],
+    instance: { component: reference, props: {}, slots: {} }
+  });
+
+  return {
+    tag: 'div',
+    node: { ...frame, name: `${reference.name} overlay` },
+    styles: {
+      'position': 'fixed',
+      'inset': '0',
+      'display': 'flex',
+      'align-items': alignItems,
+      'justify-content': justifyContent
+    },
+    attributes: { 'role': 'dialog', 'aria-modal': 'true' },
+    children,
+    condition: prop.name
+  };
+}
+
+/**
+ * The variant props clicks in the tree change, which the component keeps as
+ * state starting from the prop's value
+ */
+export function componentStates(tree: RenderElement, props: ComponentProp[]): ComponentProp[] {
+  const names = new Set<string>();
+  const visit = (element: RenderElement) => {
+    if (element.click?.type === 'state') names.add(element.click.prop);
+    element.children.forEach(visit);
+  };
+  visit(tree);
+  return props.filter(p => names.has(p.name));
+}
+
+/**
+ * Whether a component set has variants shown while hovering or pressing,
+ * which inline styles can't express
+ */
+export function hasPointerStates(node: FigmaNode): boolean {
+  return node.type === 'COMPONENT_SET' && (node.children || []).some(variant =>
+    variantChanges(variant).some(change => change.node === variant && POINTER_TRIGGERS[change.trigger])
+  );
+}
+
+/**
+ * Path a screen is linked to at, e.g. `/account-settings` for "Account Settings"
+ */
+export function routePath(node: FigmaNode): string {
+  const slug = toKebabCase(node.name.replace(/[^a-zA-Z0-9]+/g, ' ').trim().replace(/ (\w)/g, (_, c: string) => c.toUpperCase()));
+  return `/${slug}`;
+}
+
+/**
+ * Variable holding the state a prop starts, e.g. `currentState` for `state`
+ */
+export function stateVariable(prop: string): string {
+  return `current${capitalize(prop)}`;
+}
+
+/**
+ * Function setting a state variable, e.g. `setCurrentState`
+ */
+export function stateSetter(prop: string): string {
+  return `set${capitalize(stateVariable(prop))}`;
+}
+
+/**
+ * Callback asking the parent to change an overlay prop, e.g. `onMenuOpenChange`
+ */
+export function openChangeCallback(prop: string): string {
+  return `on${capitalize(prop)}Change`;
+}
+
+/**
+ * Name of the DOM event announcing an overlay prop change, e.g. `menu-open-change`
+ */
+export function openChangeEvent(prop: string): string {
+  return `${toKebabCase(prop)}-change`;
+}
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
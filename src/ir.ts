@@ -0,0 +1,121 @@
+import path from 'path';
+import { Asset, usedAssets } from './assets';
+import type { FigmaNode } from './index';
+import { ComponentReference, usedComponents } from './instances';
+import { addOverlays, componentStates, overlayProps } from './interactions';
+import { BuildContext, buildElementTree, RenderElement } from './renderer';
+import { buildResponsiveTree } from './responsive';
+import type { RouterLink } from './scaffold';
+import { applySemantics, containsTag } from './semantics';
+import { extractStylesheet, StyleRule, StylesheetOptions } from './stylesheet';
+import { buildVariantTree, ComponentProp, extractComponentProps } from './variants';
+
+/**
+ * How generated markup is styled: Tailwind classes, a stylesheet
+ * (e.g. CSS Modules or scoped styles) or inline styles
+ */
+export type StyleMode = 'tailwind' | 'stylesheet' | 'inline';
+
+/**
+ * Everything a framework generator needs to know about one component:
+ * its props and the normalized layout/style tree of its layers
+ */
+export interface ComponentIR {
+  /** Component identifier, e.g. `LoginCard` */
+  name: string;
+  /** File the component is generated to, which other components import it from */
+  filename: string;
+  /** Value of the root's `data-testid`, e.g. `login-card` */
+  testId: string;
+  node: FigmaNode;
+  props: ComponentProp[];
+  /** Variant props clicks change, which the component keeps as state starting from the prop */
+  states: ComponentProp[];
+  tree: RenderElement;
+  /** Stylesheet rules the tree's styles were moved to, in `stylesheet` mode */
+  rules: StyleRule[];
+  /** Generated components the tree's instances render */
+  components: ComponentReference[];
+  /** Assets shown by `<img>` elements in the tree */
+  assets: Asset[];
+  /** Router link component the tree's links to other screens render as, if any */
+  routerLink?: RouterLink;
+}
+
+/**
+ * An icon component drawing an exported SVG inline
+ */
+export interface IconIR {
+  name: string;
+  filename: string;
+  asset: Asset;
+  svg: string;
+}
+
+/**
+ * Build the IR of the component generated from a node. In `stylesheet` mode
+ * the tree's styles are moved into rules named and scoped as `stylesheet` says.
+ */
+export function buildComponentIR(
+  node: FigmaNode,
+  file: { name: string; filename: string },
+  context: Omit<BuildContext, 'componentProps' | 'filename'>,
+  styling: StyleMode,
+  stylesheet: StylesheetOptions = { naming: 'kebab-case' }
+): ComponentIR {
+  const componentProps = extractComponentProps(node);
+  const props = [...componentProps, ...overlayProps(node, componentProps, context.components)];
+  const treeContext = { ...context, componentProps: props, filename: file.filename };
+  const tree = (node.type === 'COMPONENT_SET' && buildVariantTree(node, props, treeContext)) ||
+    (node.breakpointFrames && buildResponsiveTree(node, treeContext)) ||
+    buildElementTree({ ...node, visible: true }, undefined, treeContext)!;
+  addOverlays(tree, props, context.components);
+  if (context.semantics) {
+    applySemantics(tree, context.semantics);
+  }
+  const rules = styling === 'stylesheet' ? extractStylesheet(tree, stylesheet) : [];
+  const router = context.semantics?.router;
+
+  return {
+    ...file,
+    testId: toKebabCase(file.name),
+    node,
+    props,
+    states: componentStates(tree, props),
+    tree,
+    rules,
+    components: usedComponents(tree),
+    assets: usedAssets(tree),
+    routerLink: router && containsTag(tree, router.tag) ? router : undefined
+  };
+}
+
+/**
+ * Module path one generated file imports another by, e.g. `./Button.tsx`
+ * or `../icons/HeartIcon.tsx`; both paths are relative to the output directory
+ */
+export function importPath(from: string, to: string): string {
+  const relative = path.posix.relative(path.posix.dirname(from), to);
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
+
+/**
+ * Path of a file generated next to a component, named after it,
+ * e.g. `Button.module.css` for `Button.tsx`
+ */
+export function companionFile(filename: string, suffix: string): string {
+  const directory = path.posix.dirname(filename);
+  const stem = path.posix.basename(filename).split('.')[0];
+  return directory === '.' ? `${stem}${suffix}` : `${directory}/${stem}${suffix}`;
+}
+
+/**
+ * Convert a component name to kebab-case, e.g. `LoginCard` → `login-card`
+ * and `IOSApp` → `ios-app`
+ */
+export function toKebabCase(str: string): string {
+  return str
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .toLowerCase();
+}
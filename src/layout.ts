@@ -0,0 +1,387 @@
+import type { FigmaNode } from './index';
+import { CSSDeclarations, px } from './styles';
+
+type Sizing = 'FIXED' | 'HUG' | 'FILL';
+
+/**
+ * Auto Layout properties shared by every Figma node model
+ */
+export interface AutoLayoutProperties {
+  layoutMode?: 'NONE' | 'HORIZONTAL' | 'VERTICAL' | 'GRID';
+  layoutWrap?: 'NO_WRAP' | 'WRAP';
+  itemSpacing?: number;
+  counterAxisSpacing?: number;
+  paddingLeft?: number;
+  paddingRight?: number;
+  paddingTop?: number;
+  paddingBottom?: number;
+  primaryAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'SPACE_BETWEEN';
+  counterAxisAlignItems?: 'MIN' | 'CENTER' | 'MAX' | 'BASELINE';
+  counterAxisAlignContent?: 'AUTO' | 'SPACE_BETWEEN';
+  primaryAxisSizingMode?: 'FIXED' | 'AUTO';
+  counterAxisSizingMode?: 'FIXED' | 'AUTO';
+  layoutSizingHorizontal?: Sizing;
+  layoutSizingVertical?: Sizing;
+  layoutGrow?: number;
+  layoutAlign?: 'INHERIT' | 'STRETCH' | 'MIN' | 'CENTER' | 'MAX';
+  layoutPositioning?: 'AUTO' | 'ABSOLUTE';
+  gridRowCount?: number;
+  gridColumnCount?: number;
+  gridRowGap?: number;
+  gridColumnGap?: number;
+  gridRowsSizing?: string;
+  gridColumnsSizing?: string;
+  gridRowAnchorIndex?: number;
+  gridColumnAnchorIndex?: number;
+  gridRowSpan?: number;
+  gridColumnSpan?: number;
+  gridChildHorizontalAlign?: 'AUTO' | 'MIN' | 'CENTER' | 'MAX';
+  gridChildVerticalAlign?: 'AUTO' | 'MIN' | 'CENTER' | 'MAX';
+}
+
+const JUSTIFY: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  SPACE_BETWEEN: 'space-between'
+};
+
+const ALIGN: Record<string, string> = {
+  MIN: 'flex-start',
+  CENTER: 'center',
+  MAX: 'flex-end',
+  BASELINE: 'baseline',
+  STRETCH: 'stretch'
+};
+
+const GRID_ALIGN: Record<string, string> = {
+  MIN: 'start',
+  CENTER: 'center',
+  MAX: 'end'
+};
+
+/**
+ * Whether children of this node are placed by Auto Layout
+ */
+export function isAutoLayout(node: FigmaNode | undefined): boolean {
+  return Boolean(node?.layoutMode) && node!.layoutMode !== 'NONE';
+}
+
+/**
+ * Extract sizing, flexbox and grid declarations for a node
+ */
+export function extractLayoutStyles(node: FigmaNode, parent?: FigmaNode): CSSDeclarations {
+  const css: CSSDeclarations = {
+    ...extractSizing(node, parent),
+    ...extractContainerLayout(node),
+    ...extractChildLayout(node, parent)
+  };
+
+  if (isAbsolutelyPositioned(node, parent)) {
+    applyConstraints(css, node, parent!);
+  }
+
+  return css;
+}
+
+/**
+ * Extract only the declarations that place a node inside its parent. Component
+ * instances use this, since the generated component lays out its own children.
+ */
+export function extractPlacementStyles(node: FigmaNode, parent?: FigmaNode): CSSDeclarations {
+  const css: CSSDeclarations = {
+    ...extractSizing(node, parent),
+    ...extractChildLayout(node, parent)
+  };
+
+  if (isAbsolutelyPositioned(node, parent)) {
+    applyConstraints(css, node, parent!);
+  }
+
+  return css;
+}
+
+/**
+ * Whether the node is placed by coordinates rather than by its parent's flow:
+ * children of frames without Auto Layout, and Auto Layout children that opted out
+ */
+export function isAbsolutelyPositioned(node: FigmaNode, parent?: FigmaNode): boolean {
+  if (!parent?.absoluteBoundingBox || !node.absoluteBoundingBox) return false;
+  return !isAutoLayout(parent) || node.layoutPositioning === 'ABSOLUTE';
+}
+
+/**
+ * Anchor an absolutely positioned node inside its parent according to its
+ * Figma constraints, so it keeps its behavior when the parent is resized
+ */
+function applyConstraints(css: CSSDeclarations, node: FigmaNode, parent: FigmaNode): void {
+  const box = node.absoluteBoundingBox!;
+  const parentBox = parent.absoluteBoundingBox!;
+
+  css['position'] = 'absolute';
+
+  const horizontal = anchorAxis(
+    normalizeConstraint(node.constraints?.horizontal),
+    box.x - parentBox.x,
+    box.width,
+    parentBox.width,
+    { start: 'left', end: 'right', size: 'width' }
+  );
+  const vertical = anchorAxis(
+    normalizeConstraint(node.constraints?.vertical),
+    box.y - parentBox.y,
+    box.height,
+    parentBox.height,
+    { start: 'top', end: 'bottom', size: 'height' }
+  );
+
+  for (const result of [horizontal, vertical]) {
+    Object.assign(css, result.css);
+    for (const property of result.remove) {
+      delete css[property];
+    }
+  }
+
+  if (horizontal.centered && vertical.centered) {
+    css['transform'] = 'translate(-50%, -50%)';
+  } else if (horizontal.centered) {
+    css['transform'] = 'translateX(-50%)';
+  } else if (vertical.centered) {
+    css['transform'] = 'translateY(-50%)';
+  }
+}
+
+type Constraint = 'MIN' | 'MAX' | 'STRETCH' | 'CENTER' | 'SCALE';
+
+/**
+ * Fold the horizontal/vertical constraint names onto one set
+ */
+function normalizeConstraint(value: string | undefined): Constraint {
+  switch (value) {
+    case 'RIGHT':
+    case 'BOTTOM':
+    case 'MAX':
+      return 'MAX';
+    case 'LEFT_RIGHT':
+    case 'TOP_BOTTOM':
+    case 'STRETCH':
+      return 'STRETCH';
+    case 'CENTER':
+      return 'CENTER';
+    case 'SCALE':
+      return 'SCALE';
+    default:
+      return 'MIN';
+  }
+}
+
+function anchorAxis(
+  constraint: Constraint,
+  offset: number,
+  size: number,
+  parentSize: number,
+  properties: { start: string; end: string; size: string }
+): { css: CSSDeclarations; remove: string[]; centered: boolean } {
+  const endOffset = parentSize - offset - size;
+
+  switch (constraint) {
+    case 'MAX':
+      return { css: { [properties.end]: px(endOffset) }, remove: [], centered: false };
+    case 'STRETCH':
+      return {
+        css: { [properties.start]: px(offset), [properties.end]: px(endOffset) },
+        remove: [properties.size],
+        centered: false
+      };
+    case 'CENTER': {
+      const fromCenter = offset + size / 2 - parentSize / 2;
+      const position = fromCenter === 0
+        ? '50%'
+        : `calc(50% ${fromCenter < 0 ? '-' : '+'} ${px(Math.abs(fromCenter))})`;
+      return { css: { [properties.start]: position }, remove: [], centered: true };
+    }
+    case 'SCALE':
+      return {
+        css: {
+          [properties.start]: percent(offset, parentSize),
+          [properties.size]: percent(size, parentSize)
+        },
+        remove: [],
+        centered: false
+      };
+    default:
+      return { css: { [properties.start]: px(offset) }, remove: [], centered: false };
+  }
+}
+
+function percent(value: number, total: number): string {
+  if (!total) return '0%';
+  return `${Math.round((value / total) * 10000) / 100}%`;
+}
+
+function extractSizing(node: FigmaNode, parent?: FigmaNode): CSSDeclarations {
+  const css: CSSDeclarations = {};
+  const box = node.absoluteBoundingBox;
+  if (!box) return css;
+
+  const horizontal = resolveSizing(node, parent, 'horizontal');
+  const vertical = resolveSizing(node, parent, 'vertical');
+
+  if (horizontal === 'FIXED') {
+    css['width'] = px(box.width);
+  } else if (horizontal === 'FILL' && !isAutoLayout(parent)) {
+    css['width'] = '100%';
+  }
+
+  if (vertical === 'FIXED') {
+    css['height'] = px(box.height);
+  } else if (vertical === 'FILL' && !isAutoLayout(parent)) {
+    css['height'] = '100%';
+  }
+
+  return css;
+}
+
+/**
+ * Resolve how a node is sized along one axis, preferring the newer
+ * `layoutSizing*` fields and falling back to the legacy Auto Layout ones
+ */
+function resolveSizing(node: FigmaNode, parent: FigmaNode | undefined, axis: 'horizontal' | 'vertical'): Sizing {
+  const explicit = axis === 'horizontal' ? node.layoutSizingHorizontal : node.layoutSizingVertical;
+  if (explicit) return explicit;
+
+  // Auto-resizing text grows with its content
+  const resize = node.type === 'TEXT' ? node.style?.textAutoResize : undefined;
+  if (resize === 'WIDTH_AND_HEIGHT' || (resize === 'HEIGHT' && axis === 'vertical')) return 'HUG';
+
+  if (isAutoLayout(parent) && parent!.layoutMode !== 'GRID' && node.layoutPositioning !== 'ABSOLUTE') {
+    const primary = parent!.layoutMode === 'HORIZONTAL' ? 'horizontal' : 'vertical';
+    if (axis === primary && node.layoutGrow === 1) return 'FILL';
+    if (axis !== primary && node.layoutAlign === 'STRETCH') return 'FILL';
+  }
+
+  if (isAutoLayout(node) && node.layoutMode !== 'GRID') {
+    const primary = node.layoutMode === 'HORIZONTAL' ? 'horizontal' : 'vertical';
+    const mode = axis === primary ? node.primaryAxisSizingMode : node.counterAxisSizingMode;
+    if (mode === 'AUTO') return 'HUG';
+  }
+
+  return 'FIXED';
+}
+
+function extractContainerLayout(node: FigmaNode): CSSDeclarations {
+  const css: CSSDeclarations = {};
+
+  if (node.children?.some(child => child.visible !== false && isAbsolutelyPositioned(child, node))) {
+    css['position'] = 'relative';
+  }
+
+  if (!isAutoLayout(node)) return css;
+
+  if (node.layoutMode === 'GRID') {
+    css['display'] = 'grid';
+    css['grid-template-columns'] = node.gridColumnsSizing ||
+      `repeat(${node.gridColumnCount || 1}, minmax(0, 1fr))`;
+    if (node.gridRowsSizing || node.gridRowCount) {
+      css['grid-template-rows'] = node.gridRowsSizing || `repeat(${node.gridRowCount}, auto)`;
+    }
+    const gap = gapValue(node.gridRowGap, node.gridColumnGap);
+    if (gap) css['gap'] = gap;
+  } else {
+    const horizontal = node.layoutMode === 'HORIZONTAL';
+    const spaceBetween = node.primaryAxisAlignItems === 'SPACE_BETWEEN';
+    const wraps = node.layoutWrap === 'WRAP';
+
+    css['display'] = 'flex';
+    css['flex-direction'] = horizontal ? 'row' : 'column';
+    if (wraps) {
+      css['flex-wrap'] = 'wrap';
+    }
+
+    const mainGap = spaceBetween ? 0 : node.itemSpacing;
+    const crossGap = wraps ? node.counterAxisSpacing : undefined;
+    const gap = !wraps
+      ? gapValue(mainGap, mainGap)
+      : horizontal ? gapValue(crossGap, mainGap) : gapValue(mainGap, crossGap);
+    if (gap) css['gap'] = gap;
+
+    if (node.primaryAxisAlignItems && node.primaryAxisAlignItems !== 'MIN') {
+      css['justify-content'] = JUSTIFY[node.primaryAxisAlignItems];
+    }
+    if (node.counterAxisAlignItems && node.counterAxisAlignItems !== 'MIN') {
+      css['align-items'] = ALIGN[node.counterAxisAlignItems];
+    } else {
+      css['align-items'] = 'flex-start';
+    }
+    if (wraps && node.counterAxisAlignContent === 'SPACE_BETWEEN') {
+      css['align-content'] = 'space-between';
+    }
+  }
+
+  const padding = paddingValue(node);
+  if (padding) {
+    css['padding'] = padding;
+    css['box-sizing'] = 'border-box';
+  }
+
+  return css;
+}
+
+function extractChildLayout(node: FigmaNode, parent?: FigmaNode): CSSDeclarations {
+  const css: CSSDeclarations = {};
+  if (!isAutoLayout(parent) || node.layoutPositioning === 'ABSOLUTE') return css;
+
+  if (parent!.layoutMode === 'GRID') {
+    if (node.gridColumnAnchorIndex !== undefined) {
+      css['grid-column'] = `${node.gridColumnAnchorIndex + 1} / span ${node.gridColumnSpan || 1}`;
+    }
+    if (node.gridRowAnchorIndex !== undefined) {
+      css['grid-row'] = `${node.gridRowAnchorIndex + 1} / span ${node.gridRowSpan || 1}`;
+    }
+    if (node.gridChildHorizontalAlign && GRID_ALIGN[node.gridChildHorizontalAlign]) {
+      css['justify-self'] = GRID_ALIGN[node.gridChildHorizontalAlign];
+    }
+    if (node.gridChildVerticalAlign && GRID_ALIGN[node.gridChildVerticalAlign]) {
+      css['align-self'] = GRID_ALIGN[node.gridChildVerticalAlign];
+    }
+    return css;
+  }
+
+  const primary = parent!.layoutMode === 'HORIZONTAL' ? 'horizontal' : 'vertical';
+  const counter = primary === 'horizontal' ? 'vertical' : 'horizontal';
+
+  if (resolveSizing(node, parent, primary) === 'FILL') {
+    css['flex'] = '1 1 0';
+    css[primary === 'horizontal' ? 'min-width' : 'min-height'] = '0';
+  } else {
+    css['flex-shrink'] = '0';
+  }
+
+  if (resolveSizing(node, parent, counter) === 'FILL') {
+    css['align-self'] = 'stretch';
+  } else if (node.layoutAlign && ALIGN[node.layoutAlign]) {
+    css['align-self'] = ALIGN[node.layoutAlign];
+  }
+
+  return css;
+}
+
+function gapValue(row?: number, column?: number): string | null {
+  const r = row || 0;
+  const c = column || 0;
+  if (!r && !c) return null;
+  return r === c ? px(r) : `${px(r)} ${px(c)}`;
+}
+
+function paddingValue(node: FigmaNode): string | null {
+  const top = node.paddingTop || 0;
+  const right = node.paddingRight || 0;
+  const bottom = node.paddingBottom || 0;
+  const left = node.paddingLeft || 0;
+
+  if (!top && !right && !bottom && !left) return null;
+  if (top === bottom && left === right) {
+    return top === left ? px(top) : `${px(top)} ${px(right)}`;
+  }
+  return `${px(top)} ${px(right)} ${px(bottom)} ${px(left)}`;
+}
@@ -0,0 +1,209 @@
+import type { FrameworkGenerator } from './generator';
+import { openChangeEvent, stateVariable } from './interactions';
+import { importPath, toKebabCase } from './ir';
+import { keepRegion } from './manifest';
+import {
+  escapeAttribute,
+  escapeTemplateLiteral,
+  escapeText,
+  inlineCSS,
+  jsLiteral,
+  MarkupDialect,
+  renderMarkup,
+  templateDialect
+} from './renderer';
+import { presentationRole } from './semantics';
+import { generateStylesheet } from './stylesheet';
+import { ComponentProp, propTypeScript } from './variants';
+
+/**
+ * Prefix of custom element names, which must contain a hyphen
+ */
+const TAG_PREFIX = 'app';
+
+/**
+ * Lit `html` templates: `${}` bindings, nested templates for conditions,
+ * property bindings on child elements and native slots
+ */
+const LIT_DIALECT: MarkupDialect = {
+  ...templateDialect(
+    (staticClasses, dynamic) => {
+      const parts = [...(staticClasses ? [staticClasses] : []), ...dynamic.map(d => `\${${d}}`)];
+      return parts.length ? `class="${parts.join(' ')}"` : null;
+    },
+    (css, dynamic) => {
+      const parts = [
+        ...(Object.keys(css).length > 0 ? [escapeTemplateLiteral(escapeAttribute(inlineCSS(css)))] : []),
+        ...dynamic.map(d => `\${${d}}`)
+      ];
+      return parts.length ? [`style="${parts.join('; ')}"`] : [];
+    },
+    (expression, markup, indent) => `${indent}\${${expression} ? html\`\n${markup}\n${indent}\` : nothing}`,
+    {
+      componentProp: (name, value) => `.${name}=\${${jsLiteral(value)}}`,
+      componentBinding: (name, expression) => `.${name}=\${${expression}}`,
+      instanceSlot: (name, slot, options, depth) => ({
+        child: renderMarkup({ ...slot, attributes: { ...slot.attributes, slot: name } }, options, depth)
+      })
+    }
+  ),
+  attribute: (name, value) => `${name}="${escapeTemplateLiteral(escapeAttribute(value))}"`,
+  text: value => escapeTemplateLiteral(escapeText(value)),
+  textBinding: expression => `\${${expression}}`,
+  // Custom elements always need a closing tag
+  selfClosing: tag => ['svg', 'path', 'img', 'input'].includes(tag),
+  assetSource: asset => `src=\${${asset.importName}}`,
+  componentTag: name => `${TAG_PREFIX}-${toKebabCase(name)}`,
+  clickHandler: statement => `@click=\${() => ${statement}}`
+};
+
+const PROPERTY_TYPES: Record<string, string> = { variant: 'String', boolean: 'Boolean', text: 'String' };
+
+/**
+ * Lit web components with reactive properties and `static styles`.
+ * Instance swaps are named slots.
+ */
+export const litGenerator: FrameworkGenerator = {
+  name: 'lit',
+  extension: options => (options.typescript ? 'ts' : 'js'),
+  stylesheet: { naming: 'kebab-case' },
+  // Storybook renders the custom element the component defines when imported
+  stories: {
+    renderer: '@storybook/web-components',
+    extension: options => (options.typescript ? 'ts' : 'js'),
+    component: (ir, storyFile) => ({
+      imports: `import '${importPath(storyFile, ir.filename).replace(/\.[jt]s$/, '')}';\n`,
+      component: jsLiteral(`${TAG_PREFIX}-${ir.testId}`)
+    })
+  },
+  indexExport: ({ name, filename }) => `export { default as ${name} } from '${importPath('index', filename).replace(/\.[jt]s$/, '')}';`,
+
+  generate(ir, options) {
+    const isTS = options.typescript;
+    const tag = `${TAG_PREFIX}-${ir.testId}`;
+    const properties = ir.props.filter(p => p.kind !== 'instance');
+
+    const markup = renderMarkup(ir.tree, {
+      dialect: LIT_DIALECT,
+      tailwind: options.styling === 'tailwind',
+      propAccess: { prefix: 'this.', names: properties.map(p => p.name) },
+      // Clicked state is unset until the first click, showing the property's variant;
+      // overlays dispatch `menu-open-change` for the page to set `menuOpen`
+      interactions: {
+        states: Object.fromEntries(ir.states.map(p => [p.name, `(this.${stateVariable(p.name)} ?? this.${p.name})`])),
+        setState: (prop, value) => `this.${stateVariable(prop)} = ${value}`,
+        setOpen: (prop, open) => `this.dispatchEvent(new CustomEvent('${openChangeEvent(prop)}', { detail: ${open} }))`
+      }
+    }, 3, {
+      attributes: [...presentationRole(ir.tree), `data-testid="${ir.testId}"`],
+      slot: '<slot></slot>'
+    });
+
+    // Child components define their custom elements when imported
+    const imports = [
+      ...ir.components.map(c => `import '${importPath(ir.filename, c.filename).replace(/\.[jt]s$/, '')}';\n`),
+      ...ir.assets.map(a => `import ${a.importName} from '${importPath(ir.filename, a.filename)}';\n`)
+    ].join('');
+    const usesNothing = markup.includes(': nothing}');
+    const styles = [
+      '    :host {\n      display: block;\n    }',
+      ...(ir.rules.length ? [escapeTemplateLiteral(generateStylesheet(ir.rules, '    '))] : []),
+      keepRegion('styles', '    ', 'css')
+    ].join('\n\n');
+
+    const code = `import { LitElement, css, html${usesNothing ? ', nothing' : ''} } from 'lit';
+${isTS ? `import { customElement, property${ir.states.length ? ', state' : ''} } from 'lit/decorators.js';\n` : ''}${imports}${keepRegion('imports')}
+
+/**
+ * ${ir.name} Component
+ * Auto-generated from Figma design
+ * Original Figma ID: ${ir.node.id}
+ */
+${isTS ? `@customElement('${tag}')\n` : ''}export class ${ir.name} extends LitElement {
+${isTS ? typedProperties(properties, ir.states) : untypedProperties(properties, ir.states)}
+  static styles = css\`
+${styles}
+  \`;
+
+${keepRegion('logic', '  ')}
+
+  render() {
+    return html\`
+${markup}
+    \`;
+  }
+}
+${isTS ? `
+declare global {
+  interface HTMLElementTagNameMap {
+    '${tag}': ${ir.name};
+  }
+}
+` : `
+customElements.define('${tag}', ${ir.name});
+`}
+export default ${ir.name};
+`;
+
+    return [{ filename: ir.filename, code }];
+  },
+
+  generateIcon(icon, options) {
+    const tag = `${TAG_PREFIX}-${toKebabCase(icon.name)}`;
+    const svg = escapeTemplateLiteral(icon.svg.split('\n').map(line => `      ${line}`).join('\n'));
+    const code = `import { LitElement, css, html } from 'lit';
+${options.typescript ? "import { customElement } from 'lit/decorators.js';\n" : ''}
+/**
+ * ${icon.name}
+ * Auto-generated from Figma design
+ * Original Figma ID: ${icon.asset.node.id}
+ */
+${options.typescript ? `@customElement('${tag}')\n` : ''}export class ${icon.name} extends LitElement {
+  static styles = css\`
+    :host {
+      display: inline-flex;
+    }
+  \`;
+
+  render() {
+    return html\`
+${svg}
+    \`;
+  }
+}
+${options.typescript ? '' : `\ncustomElements.define('${tag}', ${icon.name});\n`}
+export default ${icon.name};
+`;
+    return [{ filename: icon.filename, code }];
+  }
+};
+
+function typedProperties(props: ComponentProp[], states: ComponentProp[]): string {
+  return [
+    ...props.map(p => {
+      const options = p.kind === 'boolean' ? '{ type: Boolean }' : '';
+      return `  @property(${options}) ${p.name}: ${propTypeScript(p, '')} = ${jsLiteral(p.defaultValue)};\n`;
+    }),
+    ...states.map(p => `  @state() private ${stateVariable(p.name)}?: ${propTypeScript(p, '')};\n`)
+  ].join('');
+}
+
+/**
+ * Reactive properties declared without decorators, set to their defaults in the constructor
+ */
+function untypedProperties(props: ComponentProp[], states: ComponentProp[]): string {
+  if (props.length === 0) return '';
+  const declarations = [
+    ...props.map(p => `    ${p.name}: { type: ${PROPERTY_TYPES[p.kind]} }`),
+    ...states.map(p => `    ${stateVariable(p.name)}: { state: true }`)
+  ];
+  return `  static properties = {
+${declarations.join(',\n')}
+  };
+
+  constructor() {
+    super();
+${props.map(p => `    this.${p.name} = ${jsLiteral(p.defaultValue)};`).join('\n')}
+  }
+`;
+}
@@ -0,0 +1,217 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Location of the manifest inside the output directory
+ */
+export const MANIFEST_FILE = path.join('.design-to-code', 'manifest.json');
+
+/**
+ * What was generated from one Figma node
+ */
+export interface ManifestEntry {
+  /** Layer name, for reporting the node once it is gone */
+  name: string;
+  /** Hash of the node as it was last generated from */
+  sourceHash: string;
+  /** Hash of each generated file outside its keep regions, keyed by file name */
+  files: Record<string, string>;
+}
+
+/**
+ * What one source generated: a Figma file, or an export of a batch
+ */
+export interface ManifestScope {
+  /** Hash of the generation settings the files were last generated with */
+  settingsHash?: string;
+  /** Entries keyed by node id */
+  nodes: Record<string, ManifestEntry>;
+}
+
+export interface Manifest extends ManifestScope {
+  version: 1;
+  /** What each export of a batch generated, keyed by export file name */
+  exports?: Record<string, ManifestScope>;
+}
+
+/**
+ * How a generated file was written
+ * - `created`, `updated`: written from the new output
+ * - `merged`: written from the new output with the file's keep regions carried over
+ * - `unchanged`: the file already matches the output
+ * - `protected`: left alone because it was edited outside its keep regions
+ * - `deleted`: removed because its node no longer generates it
+ */
+export type WriteStatus = 'created' | 'updated' | 'merged' | 'unchanged' | 'protected' | 'deleted';
+
+/**
+ * What writing a generated file does, or would do
+ */
+export interface FilePlan {
+  status: WriteStatus;
+  /** What the manifest should record for the file, if anything */
+  hash?: string;
+  /** The file as it is on disk, if it exists */
+  existing?: string;
+  /** What the file is written with; unset when it is left alone or deleted */
+  content?: string;
+}
+
+export async function readManifest(outputDir: string): Promise<Manifest> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(path.join(outputDir, MANIFEST_FILE), 'utf8'));
+    if (manifest.version === 1 && manifest.nodes) return manifest;
+  } catch {
+    // No manifest yet: everything is generated from scratch
+  }
+  return { version: 1, nodes: {} };
+}
+
+export async function writeManifest(outputDir: string, manifest: Manifest): Promise<void> {
+  const file = path.join(outputDir, MANIFEST_FILE);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, `${JSON.stringify(manifest, null, 2)}\n`);
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16);
+}
+
+/**
+ * Matches a keep region: a line marking `@d2c-keep <name>` in any comment
+ * syntax, the hand-written lines, and a line marking `@d2c-keep end`
+ */
+const KEEP_REGION = /^([^\n]*@d2c-keep (?!end\b)([\w-]+)[^\n]*\n)([\s\S]*?)(^[^\n]*@d2c-keep end[^\n]*$)/gm;
+
+/**
+ * The hand-written contents of each keep region, keyed by region name
+ */
+export function extractKeepRegions(content: string): Record<string, string> {
+  const regions: Record<string, string> = {};
+  for (const match of content.matchAll(KEEP_REGION)) {
+    regions[match[2]] = match[3];
+  }
+  return regions;
+}
+
+/**
+ * The file with its keep regions emptied, i.e. the part the generator owns
+ */
+export function stripKeepRegions(content: string): string {
+  return content.replace(KEEP_REGION, (_, start: string, name: string, body: string, end: string) => `${start}${end}`);
+}
+
+/**
+ * Put hand-written region contents back into freshly generated output.
+ * Returns null when a non-empty region no longer exists in the output.
+ */
+export function mergeKeepRegions(output: string, regions: Record<string, string>): string | null {
+  const placed = new Set<string>();
+  const merged = output.replace(KEEP_REGION, (match, start: string, name: string, body: string, end: string) => {
+    if (!(name in regions)) return match;
+    placed.add(name);
+    return `${start}${regions[name]}${end}`;
+  });
+
+  const lost = Object.entries(regions).some(([name, body]) => !placed.has(name) && body.trim());
+  return lost ? null : merged;
+}
+
+async function readExisting(file: string): Promise<string | undefined> {
+  try {
+    return await fs.readFile(file, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Work out how a generated file is written without losing hand edits.
+ * `previousHash` is the file's manifest hash; a file whose generated part no
+ * longer matches it was edited, and is only overwritten with `force`. Keep
+ * regions are carried over either way. Nothing is written.
+ */
+export async function planGeneratedFile(
+  outputDir: string,
+  filename: string,
+  code: string,
+  previousHash: string | undefined,
+  force = false
+): Promise<FilePlan> {
+  const hash = hashContent(stripKeepRegions(code));
+  const existing = await readExisting(path.join(outputDir, filename));
+
+  if (existing === undefined) {
+    return { status: 'created', hash, content: code };
+  }
+
+  const existingHash = hashContent(stripKeepRegions(existing));
+  // Without a manifest entry, only a file matching the new output is known to be untouched
+  const edited = existingHash !== (previousHash ?? hash);
+  // Protected files keep their old hash, so they stay protected on later runs
+  if (edited && !force) {
+    return { status: 'protected', hash: previousHash, existing };
+  }
+  if (!edited && existingHash === hash) {
+    return { status: 'unchanged', hash, existing };
+  }
+
+  const regions = extractKeepRegions(existing);
+  const merged = mergeKeepRegions(code, regions);
+  if (merged === null && !force) {
+    return { status: 'protected', hash: previousHash, existing };
+  }
+
+  const kept = Object.values(regions).some(body => body.trim());
+  return { status: kept && merged !== null ? 'merged' : 'updated', hash, existing, content: merged ?? code };
+}
+
+/**
+ * Write a generated file as `planGeneratedFile` works out
+ */
+export async function writeGeneratedFile(
+  outputDir: string,
+  filename: string,
+  code: string,
+  previousHash: string | undefined,
+  force = false
+): Promise<FilePlan> {
+  const plan = await planGeneratedFile(outputDir, filename, code, previousHash, force);
+  if (plan.content !== undefined) {
+    const file = path.join(outputDir, filename);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, plan.content);
+  }
+  return plan;
+}
+
+/**
+ * Work out whether a file its node no longer generates can go: only when
+ * it has no hand edits, or with `force`. Returns undefined once it is gone
+ * already. Nothing is deleted.
+ */
+export async function planStaleFile(
+  outputDir: string,
+  filename: string,
+  previousHash: string,
+  force = false
+): Promise<FilePlan | undefined> {
+  const existing = await readExisting(path.join(outputDir, filename));
+  if (existing === undefined) return undefined;
+
+  const edited = hashContent(stripKeepRegions(existing)) !== previousHash;
+  const regions = Object.values(extractKeepRegions(existing)).some(body => body.trim());
+  if ((edited || regions) && !force) {
+    return { status: 'protected', hash: previousHash, existing };
+  }
+  return { status: 'deleted', existing };
+}
+
+/**
+ * An empty keep region: hand-written lines placed inside it survive regeneration
+ */
+export function keepRegion(name: string, indent = '', comment: 'js' | 'css' | 'html' = 'js'): string {
+  const [open, close] = { js: ['// ', ''], css: ['/* ', ' */'], html: ['<!-- ', ' -->'] }[comment];
+  return `${indent}${open}@d2c-keep ${name}${close}\n${indent}${open}@d2c-keep end${close}`;
+}
@@ -0,0 +1,126 @@
+import type { FigmaNode } from './index';
+import { toKebabCase } from './ir';
+
+/**
+ * `flat` writes every component to the output directory, `folders` each to a folder of its own
+ */
+export type OutputLayout = 'flat' | 'folders';
+
+/**
+ * Case of generated file names; component identifiers are always PascalCase
+ */
+export type FileNaming = 'PascalCase' | 'kebab-case';
+
+export interface NamingOptions {
+  layout: OutputLayout;
+  files: FileNaming;
+  /** Extension of component files, without the dot */
+  extension: string;
+  /** Files other sources generate to the same directory, which no node here can take */
+  reserved?: string[];
+}
+
+/**
+ * A name taken by another node, and the one the node got instead
+ */
+export interface NameCollision {
+  node: FigmaNode;
+  requested: string;
+  name: string;
+}
+
+/**
+ * Identifiers generated code defines or imports next to the component,
+ * e.g. `interface Props` or Vue's `type: String` prop options
+ */
+const RESERVED = new Set([
+  'Array', 'BigInt', 'Boolean', 'Date', 'Error', 'Function', 'Infinity', 'Intl', 'JSON', 'Map', 'Math',
+  'NaN', 'Number', 'Object', 'Promise', 'Proxy', 'Reflect', 'RegExp', 'Set', 'String', 'Symbol',
+  'WeakMap', 'WeakSet', 'React', 'FC', 'Fragment', 'Component', 'JSX', 'Props', 'PropType', 'Snippet',
+  'LitElement', 'Input'
+]);
+
+/**
+ * Names components and the files they are generated to. Slash-separated
+ * Figma names (`Button/Primary`) become directories (`button/Primary.tsx`)
+ * and a PascalCase identifier of every part (`ButtonPrimary`). Nodes are
+ * named in the order they are first asked for: when a name or file is taken,
+ * the later node gets a numeric suffix (`Card2`).
+ */
+export function componentNaming(options: NamingOptions) {
+  const named = new Map<string, { name: string; filename: string }>();
+  const identifiers = new Set<string>();
+  // Case-insensitive file systems treat `Card.tsx` and `card.tsx` as one file
+  const files = new Set((options.reserved || []).map(file => file.toLowerCase()));
+  const collisions: NameCollision[] = [];
+
+  const fileStem = (name: string) => (options.files === 'kebab-case' ? toKebabCase(name) : name);
+
+  const claim = (name: string, directory: string, stem: string) => {
+    for (let i = 1; ; i++) {
+      const suffix = i === 1 ? '' : String(i);
+      const file = `${stem}${suffix}`;
+      const filename = `${directory}${options.layout === 'folders' ? `${file}/` : ''}${file}.${options.extension}`;
+      if (!identifiers.has(`${name}${suffix}`) && !files.has(filename.toLowerCase())) {
+        identifiers.add(`${name}${suffix}`);
+        files.add(filename.toLowerCase());
+        return { name: `${name}${suffix}`, filename };
+      }
+    }
+  };
+
+  return {
+    /**
+     * Name and file of the component generated from a node, or `name` when given
+     */
+    component(node: FigmaNode, name?: string): { name: string; filename: string } {
+      const existing = named.get(node.id);
+      if (existing) return existing;
+
+      const segments = name ? [name] : node.name.split('/').map(pascalCase).filter(Boolean);
+      const identifier = componentIdentifier(segments.join(''));
+      const directory = segments.slice(0, -1).map(segment => `${toKebabCase(segment)}/`).join('');
+      const stem = fileStem(segments.length > 1 ? componentIdentifier(segments[segments.length - 1]) : identifier);
+
+      const result = claim(identifier, directory, stem);
+      if (result.name !== identifier) {
+        collisions.push({ node, requested: identifier, name: result.name });
+      }
+      named.set(node.id, result);
+      return result;
+    },
+
+    /**
+     * Name and file of an icon component, generated to `icons/`
+     */
+    icon(name: string): { name: string; filename: string } {
+      return claim(name, 'icons/', fileStem(name));
+    },
+
+    /** Nodes that didn't get the name asked for */
+    collisions
+  };
+}
+
+/**
+ * PascalCase words of a name, keeping the case inside each word,
+ * e.g. `login card` → `LoginCard` and `iOS app` → `IOSApp`
+ */
+export function pascalCase(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * A valid PascalCase identifier that doesn't shadow what generated code uses
+ */
+function componentIdentifier(name: string): string {
+  if (!name) return 'Unnamed';
+  if (/^[0-9]/.test(name)) return `Component${name}`;
+  return RESERVED.has(name) ? `${name}Component` : name;
+}
@@ -0,0 +1,133 @@
+import { svgMarkup, svgToJsx } from './assets';
+import { jsxElement } from './component-tests';
+import type { FrameworkGenerator } from './generator';
+import { openChangeCallback, stateSetter, stateVariable } from './interactions';
+import { companionFile, importPath } from './ir';
+import { keepRegion } from './manifest';
+import { DIALECTS, jsLiteral, renderMarkup } from './renderer';
+import { presentationRole } from './semantics';
+import { defaultExportStories } from './stories';
+import { generateStylesheet } from './stylesheet';
+import { propTypeScript } from './variants';
+
+/**
+ * React function components, styled with a CSS Module
+ */
+export const reactGenerator: FrameworkGenerator = {
+  name: 'react',
+  extension: options => (options.typescript ? 'tsx' : 'jsx'),
+  stylesheet: { naming: 'camelCase' },
+  stories: defaultExportStories('@storybook/react', options => (options.typescript ? 'tsx' : 'jsx'), /\.[jt]sx$/),
+  tests: {
+    library: '@testing-library/react',
+    extension: options => (options.typescript ? 'test.tsx' : 'test.jsx'),
+    imports: (ir, testFile) =>
+      `${ir.routerLink?.provider?.imports ?? ''}import ${ir.name} from '${importPath(testFile, ir.filename).replace(/\.[jt]sx$/, '')}';\n`,
+    render: (ir, props, className) => {
+      const element = jsxElement(ir.name, props, className ? { className } : {});
+      // Router links need a router above them
+      const provider = ir.routerLink?.provider?.name;
+      return `render(${provider ? `<${provider}>${element}</${provider}>` : element})`;
+    },
+    forwardsClass: true
+  },
+  indexExport: ({ name, filename }) => `export { default as ${name} } from '${importPath('index', filename).replace(/\.[jt]sx$/, '')}';`,
+
+  generate(ir, options) {
+    const isTS = options.typescript;
+    const inlineStyles = options.styling === 'inline';
+
+    const overlays = ir.props.filter(p => p.overlay);
+
+    const typeAnnotation = isTS ? ': React.FC<Props>' : '';
+    const propsInterface = isTS ? `
+interface Props {
+${ir.props.map(p => `  ${p.name}?: ${propTypeScript(p, 'React.ReactNode')};\n`).join('')}${
+  overlays.map(p => `  ${openChangeCallback(p.name)}?: (open: boolean) => void;\n`).join('')}  children?: React.ReactNode;
+  className?: string;${inlineStyles ? '\n  style?: React.CSSProperties;' : ''}
+}
+` : '';
+    const destructured = [
+      ...ir.props.map(p => p.defaultValue !== undefined ? `${p.name} = ${jsLiteral(p.defaultValue)}` : p.name),
+      ...overlays.map(p => openChangeCallback(p.name)),
+      'children',
+      "className = ''",
+      ...(inlineStyles ? ['style'] : [])
+    ].join(', ');
+
+    const markup = renderMarkup(ir.tree, {
+      dialect: DIALECTS.react,
+      tailwind: options.styling === 'tailwind',
+      interactions: {
+        states: Object.fromEntries(ir.states.map(p => [p.name, stateVariable(p.name)])),
+        setState: (prop, value) => `${stateSetter(prop)}(${value})`,
+        setOpen: (prop, open) => `${openChangeCallback(prop)}?.(${open})`
+      }
+    }, 2, {
+      classProp: 'className',
+      attributes: [...presentationRole(ir.tree), `data-testid="${ir.testId}"`],
+      slot: '{children}',
+      styleProp: inlineStyles ? 'style' : undefined
+    });
+    const imports = [
+      ...(ir.routerLink?.imports ? [ir.routerLink.imports] : []),
+      ...ir.components.map(c => `import ${c.name} from '${importPath(ir.filename, c.filename).replace(/\.[jt]sx$/, '')}';\n`),
+      ...ir.assets.map(a => `import ${a.importName} from '${importPath(ir.filename, a.filename)}';\n`)
+    ].join('');
+    const stylesheet = companionFile(ir.filename, '.module.css');
+
+    const hooks = [...(isTS ? ['FC'] : []), ...(ir.states.length ? ['useState'] : [])];
+    // Clicks change the variant from the one the props start at
+    const state = ir.states
+      .map(p => `  const [${stateVariable(p.name)}, ${stateSetter(p.name)}] = useState(${p.name});\n`)
+      .join('');
+
+    const code = `import React${hooks.length ? `, { ${hooks.join(', ')} }` : ''} from 'react';
+${options.styling === 'stylesheet' ? `import styles from '${importPath(ir.filename, stylesheet)}';\n` : ''}${imports}${keepRegion('imports')}
+${propsInterface}
+/**
+ * ${ir.name} Component
+ * Auto-generated from Figma design
+ * Original Figma ID: ${ir.node.id}
+ */
+const ${ir.name}${typeAnnotation} = ({ ${destructured} }) => {
+${state ? `${state}\n` : ''}${keepRegion('logic', '  ')}
+
+  return (
+${markup}
+  );
+};
+
+export default ${ir.name};
+export { ${ir.name} };
+`;
+
+    const files = [{ filename: ir.filename, code }];
+    if (options.styling === 'stylesheet') {
+      files.push({
+        filename: stylesheet,
+        code: `${generateStylesheet(ir.rules)}\n\n${keepRegion('styles', '', 'css')}\n`
+      });
+    }
+    return files;
+  },
+
+  generateIcon(icon, options) {
+    const svg = svgToJsx(svgMarkup(icon.svg, '{...props}')).split('\n').map(line => `  ${line}`).join('\n');
+    const code = `import React from 'react';
+
+/**
+ * ${icon.name}
+ * Auto-generated from Figma design
+ * Original Figma ID: ${icon.asset.node.id}
+ */
+const ${icon.name} = (props${options.typescript ? ': React.SVGProps<SVGSVGElement>' : ''}) => (
+${svg}
+);
+
+export default ${icon.name};
+export { ${icon.name} };
+`;
+    return [{ filename: icon.filename, code }];
+  }
+};
@@ -0,0 +1,792 @@
+import { Asset, AssetSet, assetURL, buildAssetElement, imageResolver } from './assets';
+import type { FigmaNode } from './index';
+import { ClickAction, clickAction, PointerState } from './interactions';
+import {
+  buildExtractedElement,
+  buildInstanceElement,
+  ComponentReference,
+  ComponentRegistry,
+  InstanceBinding
+} from './instances';
+import { CSSDeclarations, extractStyles, isVectorNode, paintToCSS } from './styles';
+import type { Breakpoint } from './responsive';
+import { cssToTailwind, screenClasses, stateClasses } from './tailwind';
+import type { ElementClasses } from './stylesheet';
+import type { SemanticsOptions } from './semantics';
+import { applyTokens, TokenSet } from './tokens';
+import { textRuns } from './typography';
+import type { ComponentProp } from './variants';
+
+export interface RenderElement {
+  tag: string;
+  node: FigmaNode;
+  styles: CSSDeclarations;
+  attributes: Record<string, string>;
+  text?: string;
+  /** Styled runs of mixed-style text, rendered inline in place of `text` */
+  spans?: RenderElement[];
+  children: RenderElement[];
+  /** Declarations that switch on component props */
+  variantStyles?: VariantStyle[];
+  /** Declarations that change from a breakpoint up, narrowest first */
+  mediaStyles?: MediaStyle[];
+  /** Declarations that change while the pointer is over or down on the component */
+  stateStyles?: StateStyle[];
+  /** JS expression that must be truthy for the element to render */
+  condition?: string;
+  /** JS expression rendered instead of the static text */
+  textBinding?: string;
+  /** Prop or named slot that can replace the element */
+  slot?: string;
+  /** Generated component rendered in place of an INSTANCE */
+  instance?: InstanceBinding;
+  /** Stylesheet classes used instead of inline styles */
+  classes?: ElementClasses;
+  /** Exported file an `<img>` element shows */
+  asset?: Asset;
+  /** URL of `asset` relative to the generated component */
+  src?: string;
+  /** What clicking the element does */
+  click?: ClickAction;
+}
+
+/**
+ * Declarations looked up by the values of one or more props,
+ * e.g. `{ sm: {...}, lg: {...} }[size]`
+ */
+export interface VariantStyle {
+  props: string[];
+  /** Nested by each prop's value in order, with declarations at the leaves */
+  cases: Record<string, any>;
+}
+
+/**
+ * Declarations that apply from a breakpoint's viewport width up
+ */
+export interface MediaStyle {
+  breakpoint: Breakpoint;
+  styles: CSSDeclarations;
+}
+
+/**
+ * Declarations that apply while the pointer is over (`hover`) or down on
+ * (`active`) the component's root, by variant props as in `VariantStyle`;
+ * with no props, `cases` holds the declarations themselves
+ */
+export interface StateStyle {
+  state: PointerState;
+  props: string[];
+  cases: Record<string, any>;
+}
+
+/**
+ * Document-wide data the element tree is built against
+ */
+export interface BuildContext {
+  tokens?: TokenSet;
+  /** Properties of the component being generated, for layers that reference them */
+  componentProps?: ComponentProp[];
+  /** Components generated alongside this one, which instances render as */
+  components?: ComponentRegistry;
+  /** Exported images and layer renders */
+  assets?: AssetSet;
+  /** Icon components generated from SVG assets, keyed by asset file name */
+  icons?: Map<string, ComponentReference>;
+  /** File the component is generated to, which asset URLs are relative to */
+  filename?: string;
+  /** HTML elements layers are rendered as, beyond `div` and `p` */
+  semantics?: SemanticsOptions;
+  /** Paths of the screens prototype links navigate to, by frame id */
+  routes?: Map<string, string>;
+}
+
+export interface RenderOptions {
+  /** Markup syntax of the target framework */
+  dialect: MarkupDialect;
+  tailwind: boolean;
+  /** Read these props through an object in expressions, e.g. `size` → `props.size` */
+  propAccess?: { prefix: string; names: string[] };
+  /** How clicks change state and overlays; without them, only links work */
+  interactions?: InteractionBindings;
+  /** Tailwind group the component root is named as, which state classes of its layers refer to */
+  group?: string;
+}
+
+/**
+ * Framework code for component state and the overlays a component opens
+ */
+export interface InteractionBindings {
+  /** Expressions reading the state that stands in for a prop, by prop name, e.g. `currentState` */
+  states: Record<string, string>;
+  /** Statement setting the state standing in for a prop, e.g. `setCurrentState(value)` */
+  setState(prop: string, value: string): string;
+  /** Statement asking the parent to change an overlay prop, e.g. `onMenuOpenChange?.(true)` */
+  setOpen(prop: string, open: boolean): string;
+}
+
+/**
+ * Framework bindings applied to the component's root element only
+ */
+export interface RootBindings {
+  /** Name of the prop holding caller-supplied classes, when the framework needs one */
+  classProp?: string;
+  /** Raw attributes appended to the root element */
+  attributes: string[];
+  /** Markup rendered after the generated children, e.g. `{children}` */
+  slot?: string;
+  /** Expression holding caller-supplied inline styles, when the framework needs one */
+  styleProp?: string;
+}
+
+const CONTAINER_TYPES = ['DOCUMENT', 'CANVAS', 'FRAME', 'GROUP', 'COMPONENT', 'COMPONENT_SET', 'INSTANCE', 'SECTION'];
+
+/**
+ * Build the element tree for a node and all of its visible descendants
+ */
+export function buildElementTree(
+  node: FigmaNode,
+  parent?: FigmaNode,
+  context: BuildContext = {}
+): RenderElement | null {
+  const bindings = propertyBindings(node, context);
+  if (node.visible === false && !bindings.visible) return null;
+
+  const element = buildElement(node, parent, context);
+
+  if (bindings.visible) {
+    element.condition = bindings.visible.name;
+  }
+  if (bindings.characters && element.text !== undefined) {
+    element.textBinding = bindings.characters.name;
+  }
+  if (bindings.mainComponent) {
+    element.slot = bindings.mainComponent.name;
+  }
+  // Generated components handle their own clicks
+  const click = element.instance ? undefined : clickAction(node, context);
+  if (click) {
+    element.click = click;
+  }
+
+  return element;
+}
+
+function buildElement(node: FigmaNode, parent: FigmaNode | undefined, context: BuildContext): RenderElement {
+  if (node.type === 'TEXT') {
+    return {
+      tag: 'p',
+      node,
+      styles: nodeStyles(node, parent, context),
+      attributes: {},
+      text: node.characters ?? node.name,
+      spans: textSpans(node, context),
+      children: []
+    };
+  }
+
+  const extracted = buildExtractedElement(node, parent, context);
+  if (extracted) return extracted;
+
+  if (node.type === 'INSTANCE') {
+    const instance = buildInstanceElement(node, parent, context);
+    if (instance) return instance;
+  }
+
+  const asset = buildAssetElement(node, parent, context);
+  if (asset) return asset;
+
+  if (isVectorNode(node)) {
+    return buildVectorElement(node, parent, context);
+  }
+
+  const children = CONTAINER_TYPES.includes(node.type)
+    ? (node.children || [])
+        .map(child => buildElementTree(child, node, context))
+        .filter((child): child is RenderElement => child !== null)
+    : [];
+
+  return {
+    tag: 'div',
+    node,
+    styles: nodeStyles(node, parent, context),
+    attributes: {},
+    children
+  };
+}
+
+/**
+ * One span per styled run of a mixed-style TEXT node, its values referencing
+ * tokens as the node's own do; runs in the node's own style render as bare text
+ */
+function textSpans(node: FigmaNode, context: BuildContext): RenderElement[] | undefined {
+  const runs = textRuns(node);
+  if (!runs) return undefined;
+
+  return runs.map(run => ({
+    tag: 'span',
+    node: { ...node, name: `${node.name} run` },
+    styles: context.tokens ? applyTokens(run.styles, node, context.tokens) : run.styles,
+    attributes: {},
+    text: run.text,
+    children: []
+  }));
+}
+
+/**
+ * Resolve the component properties a layer's visibility, text or swapped instance is bound to
+ */
+function propertyBindings(
+  node: FigmaNode,
+  context: BuildContext
+): Partial<Record<'visible' | 'characters' | 'mainComponent', ComponentProp>> {
+  const bindings: Partial<Record<'visible' | 'characters' | 'mainComponent', ComponentProp>> = {};
+  if (!context.componentProps || !node.componentPropertyReferences) return bindings;
+
+  for (const [field, figmaName] of Object.entries(node.componentPropertyReferences)) {
+    const prop = context.componentProps.find(p => p.figmaName === figmaName);
+    if (prop) {
+      bindings[field as keyof typeof bindings] = prop;
+    }
+  }
+  return bindings;
+}
+
+function nodeStyles(node: FigmaNode, parent: FigmaNode | undefined, context: BuildContext): CSSDeclarations {
+  const css = extractStyles(node, parent, imageResolver(context.assets, context.filename));
+  return context.tokens ? applyTokens(css, node, context.tokens) : css;
+}
+
+/**
+ * Draw VECTOR-like nodes as inline SVG using their exported path geometry
+ */
+function buildVectorElement(node: FigmaNode, parent: FigmaNode | undefined, context: BuildContext): RenderElement {
+  const box = node.absoluteBoundingBox;
+  const width = box ? Math.round(box.width * 100) / 100 : 0;
+  const height = box ? Math.round(box.height * 100) / 100 : 0;
+
+  const fill = node.fills?.find(f => f.type === 'SOLID' && f.color && f.visible !== false);
+  const stroke = node.strokes?.find(s => s.type === 'SOLID' && s.color && s.visible !== false);
+
+  const paths: RenderElement[] = [
+    ...(node.fillGeometry || []).map(geometry => pathElement(node, geometry, fill ? paintToCSS(fill)! : 'currentColor')),
+    ...(node.strokeGeometry || []).map(geometry => pathElement(node, geometry, stroke ? paintToCSS(stroke)! : 'currentColor'))
+  ];
+
+  return {
+    tag: 'svg',
+    node,
+    styles: nodeStyles(node, parent, context),
+    attributes: {
+      viewBox: `0 0 ${width} ${height}`,
+      fill: 'none',
+      xmlns: 'http://www.w3.org/2000/svg'
+    },
+    children: paths
+  };
+}
+
+function pathElement(
+  node: FigmaNode,
+  geometry: { path: string; windingRule?: string },
+  fill: string
+): RenderElement {
+  const attributes: Record<string, string> = { d: geometry.path, fill };
+  if (geometry.windingRule === 'EVENODD') {
+    attributes['fill-rule'] = 'evenodd';
+    attributes['clip-rule'] = 'evenodd';
+  }
+  return { tag: 'path', node, styles: {}, attributes, children: [] };
+}
+
+/**
+ * Serialize an element tree in a framework's markup dialect, e.g. JSX or a Vue template
+ */
+export function renderMarkup(
+  element: RenderElement,
+  options: RenderOptions,
+  depth: number,
+  root?: RootBindings
+): string {
+  const { dialect } = options;
+  const wrappers = dialect.wrapDepth(element);
+  const markup = renderElement(element, options, depth + wrappers, root);
+  if (wrappers === 0) return markup;
+
+  const condition = element.condition && qualifyProps(element.condition, options);
+  return dialect.wrap({ ...element, condition }, markup, '  '.repeat(depth));
+}
+
+function renderElement(
+  element: RenderElement,
+  options: RenderOptions,
+  depth: number,
+  root?: RootBindings
+): string {
+  const { dialect } = options;
+  const indent = '  '.repeat(depth);
+  // Layers with state classes refer to the root as their Tailwind group
+  if (root && options.tailwind && element.children.some(hasStateStyles)) {
+    options = { ...options, group: tailwindGroup(element.node.name) };
+  }
+  const attributes = elementAttributes(element, options, root);
+
+  const body: string[] = [];
+  if (element.instance) {
+    const { props, bindings = {}, slots } = element.instance;
+    for (const [name, value] of Object.entries(props)) {
+      if (!(name in bindings)) attributes.push(dialect.componentProp(name, value));
+    }
+    for (const [name, expression] of Object.entries(bindings)) {
+      attributes.push(dialect.componentBinding(name, qualifyProps(expression, options)));
+    }
+    for (const [name, slot] of Object.entries(slots)) {
+      const content = dialect.instanceSlot(name, slot, options, depth + 1);
+      if (content.attribute) attributes.push(content.attribute);
+      if (content.child) body.push(content.child);
+    }
+  }
+  if (element.textBinding) {
+    body.push(`${indent}  ${dialect.textBinding(qualifyProps(element.textBinding, options))}`);
+  } else if (element.spans) {
+    // Runs stay on one line so no whitespace is added between them
+    body.push(`${indent}  ${element.spans.map(span => renderSpan(span, options)).join('')}`);
+  } else if (element.text !== undefined) {
+    body.push(`${indent}  ${dialect.text(element.text)}`);
+  }
+  for (const child of element.children) {
+    body.push(renderMarkup(child, options, depth + 1));
+  }
+  if (root?.slot) {
+    body.push(`${indent}  ${root.slot}`);
+  }
+
+  const tag = element.instance && dialect.componentTag ? dialect.componentTag(element.tag) : element.tag;
+  const open = root
+    ? `${indent}<${tag}\n${attributes.map(a => `${indent}  ${a}`).join('\n')}\n${indent}`
+    : `${indent}<${tag}${attributes.length ? ' ' + attributes.join(' ') : ''}`;
+
+  if (body.length === 0) {
+    return dialect.selfClosing(element.tag)
+      ? `${open}${root ? '' : ' '}/>`
+      : `${open}></${tag}>`;
+  }
+
+  return `${open}>\n${body.join('\n')}\n${indent}</${tag}>`;
+}
+
+function renderSpan(span: RenderElement, options: RenderOptions): string {
+  const { dialect } = options;
+  const text = dialect.text(span.text ?? '');
+  const attributes = elementAttributes(span, options);
+  if (attributes.length === 0) return text;
+  return `<${span.tag} ${attributes.join(' ')}>${text}</${span.tag}>`;
+}
+
+/**
+ * Class, style and plain attributes of an element
+ */
+function elementAttributes(element: RenderElement, options: RenderOptions, root?: RootBindings): string[] {
+  const { dialect } = options;
+  const attributes: string[] = [];
+
+  // State classes apply while the root is hovered or pressed, so layers below it go through its group
+  const group = root ? undefined : options.group;
+  const states = element.stateStyles || [];
+  let staticClasses = options.tailwind
+    ? [
+        ...(root && options.group ? [`group/${options.group}`] : []),
+        ...cssToTailwind(element.styles),
+        ...(element.mediaStyles || []).flatMap(media => screenClasses(media.styles, media.breakpoint.minWidth)),
+        ...states.filter(s => s.props.length === 0).flatMap(s => stateClasses(s.cases, s.state, group))
+      ].join(' ')
+    : '';
+  let dynamicClasses = options.tailwind
+    ? [
+        ...(element.variantStyles || []).map(v => variantLookup(v, css => cssToTailwind(css).join(' '))),
+        ...states.filter(s => s.props.length > 0).map(s => variantLookup(s, css => stateClasses(css, s.state, group).join(' ')))
+      ]
+    : [];
+  if (element.classes) {
+    ({ staticClasses, dynamicClasses } = dialect.stylesheetClasses(element.classes));
+  }
+  const classAttribute = dialect.classAttribute(staticClasses, [
+    ...dynamicClasses.map(expression => qualifyProps(expression, options)),
+    ...(root?.classProp ? [root.classProp] : [])
+  ]);
+  if (classAttribute) attributes.push(classAttribute);
+
+  if (!options.tailwind) {
+    const dynamicStyles = (element.variantStyles || [])
+      .map(v => qualifyProps(variantLookup(v, dialect.styleCase), options));
+    if (root?.styleProp) dynamicStyles.push(root.styleProp);
+    attributes.push(...dialect.styleAttributes(element.styles, dynamicStyles));
+  }
+
+  if (element.asset) {
+    attributes.push(dialect.assetSource(element.asset, element.src ?? assetURL(element.asset)));
+  }
+  const click = element.click && clickStatement(element.click, options);
+  if (click && dialect.clickHandler) {
+    attributes.push(dialect.clickHandler(click));
+  }
+  for (const [name, value] of Object.entries(element.attributes)) {
+    attributes.push(dialect.attribute(name, value));
+  }
+
+  if (root) {
+    attributes.push(...root.attributes);
+  }
+
+  return attributes;
+}
+
+/**
+ * Apply `propAccess` and the component's states to the prop references in
+ * an expression, leaving string literals, member names and object keys alone
+ */
+function qualifyProps(expression: string, options: RenderOptions): string {
+  const access = options.propAccess;
+  const states = options.interactions?.states || {};
+  if (!access && Object.keys(states).length === 0) return expression;
+  return expression.replace(
+    /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|(?<![\w$.])[A-Za-z_$][\w$]*(?![\w$]|\s*:)/g,
+    match => {
+      if (Object.prototype.hasOwnProperty.call(states, match)) return states[match];
+      return access?.names.includes(match) ? `${access.prefix}${match}` : match;
+    }
+  );
+}
+
+/**
+ * Statement run on click, or null when the framework can't run one, as in static HTML
+ */
+function clickStatement(click: ClickAction, options: RenderOptions): string | null {
+  const interactions = options.interactions;
+  if (!interactions) return null;
+  switch (click.type) {
+    case 'state':
+      return interactions.setState(click.prop, nextValue(click.next, qualifyProps(click.prop, options)));
+    case 'overlay':
+      return interactions.setOpen(click.prop, click.open);
+    case 'link':
+      return null;
+  }
+}
+
+/**
+ * The value a click changes a variant to, as a conditional rather than a
+ * lookup so it keeps the variant's union type, e.g. `checked === 'Off' ? 'On' : 'Off'`
+ */
+function nextValue(next: Record<string, string>, current: string): string {
+  const changed = Object.entries(next).filter(([value, to]) => value !== to);
+  const unchanged = changed.length < Object.keys(next).length;
+  const branches = unchanged ? changed : changed.slice(0, -1);
+  const fallback = unchanged ? current : jsLiteral(changed[changed.length - 1][1]);
+  return branches.reduceRight((rest, [value, to]) => `${current} === ${jsLiteral(value)} ? ${jsLiteral(to)} : ${rest}`, fallback);
+}
+
+/**
+ * Whether an element or any layer below it changes on hover or press
+ */
+export function hasStateStyles(element: RenderElement): boolean {
+  return Boolean(element.stateStyles?.length) || element.children.some(hasStateStyles);
+}
+
+/**
+ * Name of a Tailwind group, e.g. `group/primary-button`
+ */
+function tailwindGroup(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).join('-') || 'component';
+}
+
+function variantLookup(variant: VariantStyle | StateStyle, toCase: (css: CSSDeclarations) => unknown): string {
+  return lookupExpression(mapCases(variant.cases, variant.props.length, toCase), variant.props);
+}
+
+function mapCases(cases: Record<string, any>, depth: number, toCase: (leaf: any) => unknown): any {
+  if (depth === 0) return toCase(cases);
+  const mapped: Record<string, any> = {};
+  for (const [key, value] of Object.entries(cases)) {
+    mapped[key] = mapCases(value, depth - 1, toCase);
+  }
+  return mapped;
+}
+
+/**
+ * Index a lookup table with the props it was built for, e.g. `{ sm: 1, lg: 2 }[size]`
+ */
+export function lookupExpression(table: any, props: string[]): string {
+  return `(${jsLiteral(table)})${props.map(prop => `[${prop}]`).join('')}`;
+}
+
+/**
+ * Serialize a plain value as a JS literal using single-quoted strings,
+ * so it can sit inside double-quoted template attributes
+ */
+export function jsLiteral(value: unknown): string {
+  if (value instanceof JsExpression) {
+    return value.code;
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (value === null || value === undefined) {
+    return 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(jsLiteral).join(', ')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return '{}';
+  return `{ ${entries.map(([key, item]) => `${objectKey(key)}: ${jsLiteral(item)}`).join(', ')} }`;
+}
+
+/**
+ * Code that `jsLiteral` emits verbatim instead of as a string
+ */
+export class JsExpression {
+  constructor(readonly code: string) {}
+}
+
+export function objectKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : jsLiteral(key);
+}
+
+/**
+ * How a framework writes elements, attributes, bindings and component usage
+ */
+export interface MarkupDialect {
+  classAttribute(staticClasses: string, dynamic: string[]): string | null;
+  styleAttributes(css: CSSDeclarations, dynamic: string[]): string[];
+  /** Form of one case in a dynamic style lookup */
+  styleCase(css: CSSDeclarations): unknown;
+  attribute(name: string, value: string): string;
+  text(value: string): string;
+  textBinding(expression: string): string;
+  /** Number of indentation levels added by condition/slot wrappers */
+  wrapDepth(element: RenderElement): number;
+  wrap(element: RenderElement, markup: string, indent: string): string;
+  selfClosing(tag: string): boolean;
+  /** `src` attribute of an `<img>` showing an exported asset, at `url` relative to the component */
+  assetSource(asset: Asset, url: string): string;
+  /** Reference stylesheet classes, e.g. `styles.title` for CSS Modules */
+  stylesheetClasses(classes: ElementClasses): { staticClasses: string; dynamicClasses: string[] };
+  /** Static prop passed to a generated component */
+  componentProp(name: string, value: string | boolean): string;
+  componentBinding(name: string, expression: string): string;
+  /** Markup passed to an instance-swap prop, as an attribute or as child content */
+  instanceSlot(name: string, slot: RenderElement, options: RenderOptions, depth: number): { attribute?: string; child?: string };
+  /** Tag of a generated component, when it isn't the component's name (e.g. a custom element) */
+  componentTag?(name: string): string;
+  /** Attribute running a statement on click; clicks do nothing without it */
+  clickHandler?(statement: string): string;
+}
+
+const SVG_TAGS = ['svg', 'path'];
+const VOID_TAGS = ['img', 'input'];
+
+/**
+ * Base for HTML-like template dialects, with `<slot>` elements for instance swaps
+ */
+export const templateDialect = (
+  classAttribute: MarkupDialect['classAttribute'],
+  styleAttributes: MarkupDialect['styleAttributes'],
+  condition: (expression: string, markup: string, indent: string) => string,
+  instance: Pick<MarkupDialect, 'componentProp' | 'componentBinding' | 'instanceSlot'>
+): MarkupDialect => ({
+  ...instance,
+  stylesheetClasses: classes => ({
+    staticClasses: classes.name || '',
+    dynamicClasses: classes.variants.map(v => lookupExpression(v.cases, v.props))
+  }),
+  classAttribute,
+  styleAttributes,
+  styleCase: css => inlineCSS(css),
+  attribute: (name, value) => `${name}="${escapeAttribute(value)}"`,
+  text: value => escapeText(value).replace(/\{/g, '&#123;').replace(/\}/g, '&#125;'),
+  textBinding: expression => `{{ ${expression} }}`,
+  wrapDepth: element => (element.condition ? 1 : 0) + (element.slot ? 1 : 0),
+  wrap: (element, markup, indent) => {
+    let wrapped = markup;
+    const inner = element.condition ? `${indent}  ` : indent;
+    if (element.slot) {
+      wrapped = `${inner}<slot name="${element.slot}">\n${wrapped}\n${inner}</slot>`;
+    }
+    return element.condition ? condition(element.condition, wrapped, indent) : wrapped;
+  },
+  selfClosing: tag => SVG_TAGS.includes(tag) || VOID_TAGS.includes(tag) || isComponentTag(tag),
+  // Vue's template compiler turns relative URLs into imports
+  assetSource: (_, url) => `src="${url}"`
+});
+
+export const DIALECTS: Record<'react' | 'vue' | 'svelte', MarkupDialect> = {
+  react: {
+    classAttribute: (staticClasses, dynamic) => {
+      if (dynamic.length === 0) return staticClasses ? `className="${staticClasses}"` : null;
+      if (!staticClasses && dynamic.length === 1) return `className={${dynamic[0]}}`;
+      const parts = [...(staticClasses ? [staticClasses] : []), ...dynamic.map(d => `\${${d}}`)];
+      return `className={\`${parts.join(' ')}\`}`;
+    },
+    styleAttributes: (css, dynamic) => {
+      const entries = [
+        ...Object.entries(css).map(([property, value]) => `${objectKey(jsxStyleKey(property))}: ${jsLiteral(value)}`),
+        ...dynamic.map(d => `...${d}`)
+      ];
+      return entries.length ? [`style={{ ${entries.join(', ')} }}`] : [];
+    },
+    styleCase: css => Object.fromEntries(Object.entries(css).map(([property, value]) => [jsxStyleKey(property), value])),
+    attribute: (name, value) => `${jsxAttributeName(name)}="${escapeAttribute(value)}"`,
+    text: value => (/[{}<>"'\n]|^\s|\s$/.test(value) ? `{${JSON.stringify(value)}}` : value),
+    textBinding: expression => `{${expression}}`,
+    wrapDepth: element => (element.condition || element.slot ? 1 : 0),
+    wrap: (element, markup, indent) => {
+      let expression = `(\n${markup}\n${indent})`;
+      if (element.slot) {
+        expression = `${element.slot} ?? ${expression}`;
+      }
+      if (element.condition) {
+        expression = `${element.condition} && ${element.slot ? `(${expression})` : expression}`;
+      }
+      return `${indent}{${expression}}`;
+    },
+    selfClosing: () => true,
+    assetSource: asset => `src={${asset.importName}}`,
+    stylesheetClasses: classes => ({
+      staticClasses: '',
+      dynamicClasses: [
+        ...(classes.name ? [`styles.${classes.name}`] : []),
+        ...classes.variants.map(v => lookupExpression(mapCases(v.cases, v.props.length, (name: any) =>
+          name ? new JsExpression(`styles.${name}`) : ''), v.props))
+      ]
+    }),
+    componentProp: (name, value) => {
+      if (value === true) return name;
+      if (typeof value === 'string' && !/["{}<>\\\n]/.test(value)) return `${name}="${value}"`;
+      return `${name}={${typeof value === 'string' ? JSON.stringify(value) : value}}`;
+    },
+    componentBinding: (name, expression) => `${name}={${expression}}`,
+    clickHandler: statement => `onClick={() => ${statement}}`,
+    instanceSlot: (name, slot, options, depth) => {
+      const markup = renderMarkup(slot, options, depth);
+      return {
+        attribute: markup.includes('\n')
+          ? `${name}={(\n${markup}\n${'  '.repeat(depth - 1)})}`
+          : `${name}={${markup.trim()}}`
+      };
+    }
+  },
+  vue: {
+    ...templateDialect(
+    (staticClasses, dynamic) => {
+      if (dynamic.length === 0) return staticClasses ? `class="${staticClasses}"` : null;
+      const parts = [...(staticClasses ? [jsLiteral(staticClasses)] : []), ...dynamic];
+      return `:class="${escapeExpression(parts.length === 1 ? parts[0] : `[${parts.join(', ')}]`)}"`;
+    },
+    (css, dynamic) => {
+      const attributes: string[] = [];
+      if (Object.keys(css).length > 0) attributes.push(`style="${escapeAttribute(inlineCSS(css))}"`);
+      if (dynamic.length > 0) {
+        attributes.push(`:style="${escapeExpression(dynamic.length === 1 ? dynamic[0] : `[${dynamic.join(', ')}]`)}"`);
+      }
+      return attributes;
+    },
+    (expression, markup, indent) => `${indent}<template v-if="${escapeExpression(expression)}">\n${markup}\n${indent}</template>`,
+    {
+      componentProp: (name, value) => typeof value === 'string'
+        ? `${kebabCase(name)}="${escapeAttribute(value)}"`
+        : `:${kebabCase(name)}="${value}"`,
+      componentBinding: (name, expression) => `:${kebabCase(name)}="${escapeExpression(expression)}"`,
+      instanceSlot: (name, slot, options, depth) => {
+        const indent = '  '.repeat(depth);
+        return { child: `${indent}<template #${name}>\n${renderMarkup(slot, options, depth + 1)}\n${indent}</template>` };
+      }
+    }
+    ),
+    clickHandler: statement => `@click="${escapeExpression(statement)}"`
+  },
+  svelte: {
+    ...templateDialect(
+    (staticClasses, dynamic) => {
+      const parts = [...(staticClasses ? [staticClasses] : []), ...dynamic.map(d => `{${d}}`)];
+      return parts.length ? `class="${parts.join(' ')}"` : null;
+    },
+    (css, dynamic) => {
+      const parts = [
+        ...(Object.keys(css).length > 0 ? [escapeAttribute(inlineCSS(css))] : []),
+        ...dynamic.map(d => `{${d}}`)
+      ];
+      return parts.length ? [`style="${parts.join('; ')}"`] : [];
+    },
+    (expression, markup, indent) => `${indent}{#if ${expression}}\n${markup}\n${indent}{/if}`,
+    {
+      componentProp: (name, value) => typeof value === 'string'
+        ? `${name}="${escapeAttribute(value).replace(/\{/g, '&#123;').replace(/\}/g, '&#125;')}"`
+        : `${name}={${value}}`,
+      componentBinding: (name, expression) => `${name}={${expression}}`,
+      instanceSlot: (name, slot, options, depth) => {
+        const indent = '  '.repeat(depth);
+        return {
+          child: `${indent}<svelte:fragment slot="${name}">\n${renderMarkup(slot, options, depth + 1)}\n${indent}</svelte:fragment>`
+        };
+      }
+    }
+    ),
+    textBinding: expression => `{${expression}}`,
+    assetSource: asset => `src={${asset.importName}}`,
+    clickHandler: statement => `on:click={() => ${statement}}`
+  }
+};
+
+export function isComponentTag(tag: string): boolean {
+  return /^[A-Z]/.test(tag);
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+function jsxAttributeName(name: string): string {
+  if (name === 'class') return 'className';
+  if (/^(aria|data)-/.test(name)) return name;
+  return name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+function jsxStyleKey(property: string): string {
+  if (property.startsWith('--')) return property;
+  return property.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+}
+
+/**
+ * Serialize declarations as an inline `style` attribute value
+ */
+export function inlineCSS(css: CSSDeclarations): string {
+  return Object.entries(css)
+    .map(([property, value]) => `${property}: ${value}`)
+    .join('; ');
+}
+
+export function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Escape a JS expression placed in a double-quoted template attribute
+ */
+export function escapeExpression(value: string): string {
+  return value.replace(/"/g, '&quot;');
+}
+
+/**
+ * Escape text placed in a JS template literal, e.g. a Lit `html` template
+ */
+export function escapeTemplateLiteral(value: string): string {
+  return value.replace(/[`\\]|\$\{/g, match => `\\${match}`);
+}
+
+export function escapeText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
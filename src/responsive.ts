@@ -0,0 +1,261 @@
+import type { FigmaNode } from './index';
+import { BuildContext, buildElementTree, MediaStyle, RenderElement } from './renderer';
+import { CSSDeclarations, styleChanges } from './styles';
+
+/**
+ * A viewport width range a screen is designed for, from `minWidth` up
+ */
+export interface Breakpoint {
+  /** Name as it appears in frame names, e.g. `Tablet` */
+  name: string;
+  /** Viewport width, in px, from which the breakpoint applies */
+  minWidth: number;
+}
+
+/**
+ * How frames of one screen at several widths are recognized
+ */
+export interface ResponsiveOptions {
+  /** Breakpoint names and the viewport width each starts at, in px */
+  breakpoints?: Record<string, number>;
+  /** How frame names combine the screen and breakpoint names, e.g. `{breakpoint}/{name}` */
+  pattern?: string;
+}
+
+export interface BreakpointFrame {
+  breakpoint: Breakpoint;
+  node: FigmaNode;
+}
+
+/**
+ * Responsive fields of the node generated from several frames
+ */
+export interface ResponsiveFields {
+  /** Frames of the screen, narrowest breakpoint first, that the node stands for */
+  breakpointFrames?: BreakpointFrame[];
+}
+
+/**
+ * A layer missing from some frames of a screen, usually because it is named differently there
+ */
+export interface UnmatchedLayer {
+  node: FigmaNode;
+  /** Breakpoints whose frames have the layer */
+  present: string[];
+  missing: string[];
+}
+
+export const DEFAULT_BREAKPOINTS: Record<string, number> = { Mobile: 0, Tablet: 768, Desktop: 1024 };
+export const DEFAULT_FRAME_PATTERN = '{name}/{breakpoint}';
+
+/**
+ * Replace the frames of a screen designed at several widths, e.g.
+ * `Home / Mobile` and `Home / Desktop`, with one node generating a single
+ * component for all of them, where the first of the frames was
+ */
+export function groupBreakpoints(roots: FigmaNode[], options: ResponsiveOptions = {}): FigmaNode[] {
+  const breakpoints = Object.entries(options.breakpoints || DEFAULT_BREAKPOINTS)
+    .map(([name, minWidth]) => ({ name, minWidth }));
+  const pattern = framePattern(options.pattern || DEFAULT_FRAME_PATTERN, breakpoints.map(b => b.name));
+
+  const screens = new Map<string, BreakpointFrame[]>();
+  for (const node of roots) {
+    const match = node.type !== 'COMPONENT_SET' ? node.name.match(pattern) : null;
+    if (!match) continue;
+
+    const breakpoint = breakpoints.find(b => b.name.toLowerCase() === match.groups!.breakpoint.toLowerCase())!;
+    const frames = screens.get(match.groups!.name) || [];
+    // A second frame for a breakpoint stays a component of its own
+    if (frames.some(frame => frame.breakpoint === breakpoint)) continue;
+    screens.set(match.groups!.name, [...frames, { breakpoint, node }]);
+  }
+
+  const groups = new Map<FigmaNode, FigmaNode>();
+  const group = (name: string, breakpointFrames: BreakpointFrame[]) => {
+    const node = { ...breakpointFrames[0].node, name, breakpointFrames };
+    breakpointFrames.forEach(frame => groups.set(frame.node, node));
+  };
+  const isRoot = new Set(roots);
+  for (const [name, frames] of screens) {
+    if (frames.length < 2) continue;
+    const breakpointFrames = [...frames].sort((a, b) => a.breakpoint.minWidth - b.breakpoint.minWidth);
+    group(name, breakpointFrames);
+
+    // Frames in the screen's frames are themselves one frame at several widths
+    visitMatchedLayers(breakpointFrames, layers => {
+      const nested = breakpointFrames.flatMap((frame, i) => {
+        const layer = layers[i];
+        return layer && isRoot.has(layer) && layer.type !== 'COMPONENT_SET' ? [{ breakpoint: frame.breakpoint, node: layer }] : [];
+      });
+      if (nested.length >= 2) group(nested[0].node.name, nested);
+    });
+  }
+
+  const emitted = new Set<FigmaNode>();
+  return roots.flatMap(node => {
+    const group = groups.get(node);
+    if (!group) return [node];
+    if (emitted.has(group)) return [];
+    emitted.add(group);
+    return [group];
+  });
+}
+
+/**
+ * Build one element tree for the frames of a screen. Layers are matched
+ * across frames by name; the narrowest frame's styles apply at every width
+ * and wider frames add what they change, switching layers missing from a
+ * frame off there. Text and structure come from the first frame with the layer.
+ */
+export function buildResponsiveTree(node: FigmaNode, context: BuildContext): RenderElement {
+  const frames = node.breakpointFrames!;
+  const trees = frames.map(frame => buildElementTree({ ...frame.node, visible: true }, undefined, context)!);
+
+  // A width changing with the frame's stands for the viewport's, so the
+  // screen and the layers as wide as it fill whatever they are shown in
+  const widths = frames.map(frame => frame.node.absoluteBoundingBox?.width);
+  if (widths.every(width => width !== undefined) && new Set(widths).size > 1) {
+    trees.forEach((tree, i) => fillWidth(tree, widths[i]!));
+  }
+
+  const merged = mergeLayers(trees, frames.map(frame => frame.breakpoint), frames.map(() => true));
+  merged.node = { ...merged.node, name: node.name };
+  return merged;
+}
+
+function fillWidth(element: RenderElement, width: number): void {
+  const box = element.node.absoluteBoundingBox;
+  if (element.styles.width !== undefined && box && Math.abs(box.width - width) < 0.5) {
+    element.styles = { ...element.styles, width: '100%' };
+  }
+  // Components keep the width they are designed at
+  if (!element.instance) {
+    element.children.forEach(child => fillWidth(child, width));
+  }
+}
+
+function mergeLayers(
+  elements: Array<RenderElement | undefined>,
+  breakpoints: Breakpoint[],
+  parentShown: boolean[]
+): RenderElement {
+  const base = elements.find(Boolean)!;
+  const hidden = (styles: CSSDeclarations): CSSDeclarations => ({ ...styles, display: 'none' });
+
+  let cascade = elements[0]?.styles || (parentShown[0] ? hidden(base.styles) : base.styles);
+  const merged: RenderElement = { ...base, styles: cascade, children: [] };
+  const mediaStyles: MediaStyle[] = [];
+
+  elements.forEach((element, i) => {
+    // Nothing shows while the parent is off, so nothing changes there
+    if (i === 0 || !parentShown[i]) return;
+    const styles = element?.styles || hidden(cascade);
+    const changes = styleChanges(cascade, styles);
+    if (Object.keys(changes).length > 0) {
+      mediaStyles.push({ breakpoint: breakpoints[i], styles: changes });
+    }
+    cascade = styles;
+  });
+  if (mediaStyles.length > 0) {
+    merged.mediaStyles = mediaStyles;
+  }
+
+  const shown = elements.map(Boolean);
+  for (const children of matchLayers(elements.map(element => element?.children || []), child => child.node)) {
+    merged.children.push(mergeLayers(children, breakpoints, shown));
+  }
+  return merged;
+}
+
+/**
+ * Find the layers of a grouped screen that aren't in all of its frames,
+ * leaving out those whose parent is already missing
+ */
+export function unmatchedLayers(node: FigmaNode): UnmatchedLayer[] {
+  const frames = node.breakpointFrames || [];
+  const unmatched: UnmatchedLayer[] = [];
+
+  visitMatchedLayers(frames, (layers, parentShown) => {
+    const relevant = frames.filter((_, i) => parentShown[i]);
+    const present = frames.filter((_, i) => parentShown[i] && layers[i]);
+    if (present.length < relevant.length) {
+      unmatched.push({
+        node: layers.find(Boolean)!,
+        present: present.map(frame => frame.breakpoint.name),
+        missing: relevant.filter(frame => !present.includes(frame)).map(frame => frame.breakpoint.name)
+      });
+    }
+  });
+  return unmatched;
+}
+
+/**
+ * Call `visit` with every visible layer of the frames matched across them,
+ * one slot per frame, and whether the layer's parent is in each frame
+ */
+function visitMatchedLayers(
+  frames: BreakpointFrame[],
+  visit: (layers: Array<FigmaNode | undefined>, parentShown: boolean[]) => void
+): void {
+  const walk = (parents: Array<FigmaNode | undefined>) => {
+    // Instances render as their component, whatever their layers
+    const children = parents.map(parent =>
+      parent && parent.type !== 'INSTANCE' ? (parent.children || []).filter(child => child.visible !== false) : []
+    );
+    const shown = parents.map(Boolean);
+    for (const layers of matchLayers(children, child => child)) {
+      visit(layers, shown);
+      walk(layers);
+    }
+  };
+  walk(frames.map(frame => frame.node));
+}
+
+/**
+ * Group layers across frames by type and name (and repeat index for
+ * duplicate names), one slot per frame, keeping the order they first appear in
+ */
+function matchLayers<T>(lists: T[][], nodeOf: (item: T) => FigmaNode): Array<Array<T | undefined>> {
+  const order: string[] = [];
+  const groups = new Map<string, Array<T | undefined>>();
+
+  lists.forEach((list, frame) => {
+    const seen = new Map<string, number>();
+    let previous = -1;
+
+    for (const item of list) {
+      const node = nodeOf(item);
+      const name = `${node.type}:${node.name}`;
+      const index = seen.get(name) || 0;
+      seen.set(name, index + 1);
+
+      const key = `${name}#${index}`;
+      if (!groups.has(key)) {
+        groups.set(key, lists.map(() => undefined));
+        order.splice(previous + 1, 0, key);
+      }
+      groups.get(key)![frame] = item;
+      previous = order.indexOf(key);
+    }
+  });
+
+  return order.map(key => groups.get(key)!);
+}
+
+/**
+ * Match frame names such as `Home / Mobile` against a pattern with `{name}`
+ * and `{breakpoint}` placeholders, ignoring case and spaces around separators
+ */
+function framePattern(pattern: string, names: string[]): RegExp {
+  const escape = (text: string) => text.replace(/[\\^$.*+?()[\]{}|/]/g, '\\$&');
+  const source = pattern
+    .split(/(\{name\}|\{breakpoint\})/)
+    .map(part => {
+      if (part === '{name}') return '(?<name>.+?)';
+      if (part === '{breakpoint}') return `(?<breakpoint>${names.map(escape).join('|')})`;
+      if (part === '') return '';
+      return part.trim() ? `\\s*${escape(part.trim())}\\s*` : '\\s+';
+    })
+    .join('');
+  return new RegExp(`^\\s*${source}\\s*$`, 'i');
+}
@@ -0,0 +1,509 @@
+import type { GeneratedFile } from './generator';
+import type { FigmaNode } from './index';
+import { openChangeCallback, overlayDestinations, routePath } from './interactions';
+import { importPath, toKebabCase } from './ir';
+import { jsLiteral } from './renderer';
+import { groupBreakpoints, ResponsiveOptions } from './responsive';
+
+/**
+ * Router an app skeleton is built on
+ */
+export type AppRouter = 'react-router' | 'next' | 'vue-router' | 'sveltekit';
+
+/**
+ * Routers each framework's apps can be built on, the first being the default
+ */
+export const APP_ROUTERS: Record<string, AppRouter[]> = {
+  react: ['react-router', 'next'],
+  vue: ['vue-router'],
+  svelte: ['sveltekit']
+};
+
+/**
+ * Where each router's app keeps the generated components, relative to the app
+ */
+const COMPONENT_DIRECTORIES: Record<AppRouter, string> = {
+  'react-router': 'src/components',
+  'next': 'components',
+  'vue-router': 'src/components',
+  'sveltekit': 'src/lib/components'
+};
+
+/**
+ * Component a router links its routes with, where it has one; SvelteKit
+ * routes plain `<a>` elements on the client itself
+ */
+export interface RouterLink {
+  /** Element links render as, e.g. `Link` */
+  tag: string;
+  /** Attribute holding the route's path */
+  attribute: 'to' | 'href';
+  /** Import of the component; unset when the router registers it globally */
+  imports?: string;
+  /** Router components render inside outside the app, in tests and stories, with its import */
+  provider?: { name: string; imports: string };
+}
+
+const ROUTER_LINKS: Partial<Record<AppRouter, RouterLink>> = {
+  'react-router': {
+    tag: 'Link',
+    attribute: 'to',
+    imports: "import { Link } from 'react-router-dom';\n",
+    provider: { name: 'MemoryRouter', imports: "import { MemoryRouter } from 'react-router-dom';\n" }
+  },
+  'next': { tag: 'Link', attribute: 'href', imports: "import Link from 'next/link';\n" },
+  'vue-router': { tag: 'RouterLink', attribute: 'to' }
+};
+
+export function routerLink(router: AppRouter): RouterLink | undefined {
+  return ROUTER_LINKS[router];
+}
+
+/**
+ * A top-level frame of a page and the path it is served at
+ */
+export interface Route {
+  path: string;
+  node: FigmaNode;
+}
+
+/**
+ * A route of the app and the generated component showing it
+ */
+export interface AppPage {
+  path: string;
+  /** Identifier of the component, and its file relative to the components directory */
+  component: { name: string; filename: string };
+  /** Overlay props of the component, whose open state the page keeps */
+  overlays: string[];
+}
+
+export interface AppOptions {
+  router: AppRouter;
+  /** Name of the Figma file, which the app's package and title are named after */
+  title: string;
+  typescript: boolean;
+  /** Dialect the components are generated in, e.g. `legacy` for Svelte 3/4 */
+  dialect?: string;
+  /** Load the design tokens' stylesheet, written next to the components */
+  tokens: boolean;
+}
+
+/**
+ * The router asked for, or the framework's default; an error names the
+ * routers the framework has when it has none or the router isn't one of them
+ */
+export function appRouter(framework: string, router?: string): AppRouter {
+  const routers = APP_ROUTERS[framework];
+  if (!routers) {
+    throw new Error(`Cannot scaffold a ${framework} app. Frameworks with a router: ${Object.keys(APP_ROUTERS).join(', ')}`);
+  }
+  if (router === undefined) return routers[0];
+  if (!routers.includes(router as AppRouter)) {
+    throw new Error(`Unknown router '${router}' for ${framework}. Available: ${routers.join(', ')}`);
+  }
+  return router as AppRouter;
+}
+
+export function componentsDirectory(router: AppRouter): string {
+  return COMPONENT_DIRECTORIES[router];
+}
+
+/**
+ * The screens of a page, found by name or id (the first page when not
+ * given), as routes: the top-level frames other than those opened as
+ * overlays. The frame the prototype starts at, or else the first, is served
+ * at `/` and the others at their kebab-case name (`About Page` → `/about-page`).
+ */
+export function pageRoutes(document: FigmaNode | undefined, page?: string, responsive?: ResponsiveOptions | false): Route[] {
+  const pages = (document?.children || []).filter(node => node.type === 'CANVAS');
+  const wanted = page?.toLowerCase();
+  const canvas = page === undefined ? pages[0] : pages.find(p => p.id === page || p.name.toLowerCase() === wanted);
+  if (!canvas) {
+    throw new Error(`Page not found: ${page}. Pages: ${pages.map(p => p.name).join(', ')}`);
+  }
+
+  const frames = (canvas.children || []).filter(node => node.type === 'FRAME' && node.visible !== false);
+  const overlays = new Set(overlayDestinations(frames));
+  const screens = (responsive === false ? frames : groupBreakpoints(frames, responsive))
+    .filter(node => !overlays.has(node.id));
+
+  const frameIds = (node: FigmaNode) => [node.id, ...(node.breakpointFrames || []).map(frame => frame.node.id)];
+  const startId = canvas.flowStartingPoints?.[0]?.nodeId;
+  const start = screens.find(node => startId !== undefined && frameIds(node).includes(startId)) || screens[0];
+
+  const taken = new Set<string>();
+  return screens.map(node => {
+    const base = node === start ? '/' : routePath(node);
+    let path = base;
+    for (let i = 2; taken.has(path); i++) path = `${base}-${i}`;
+    taken.add(path);
+    return { path, node };
+  });
+}
+
+/**
+ * Paths prototype links navigate to, keyed by the id of every frame of each route
+ */
+export function routeTable(routes: Route[]): Record<string, string> {
+  return Object.fromEntries(routes.flatMap(({ path, node }) =>
+    [node, ...(node.breakpointFrames || []).map(frame => frame.node)].map(frame => [frame.id, path])
+  ));
+}
+
+/**
+ * Files of a runnable app serving every page at its route, relative to the
+ * app's directory; the components are generated into `componentsDirectory`
+ */
+export function generateApp(pages: AppPage[], options: AppOptions): GeneratedFile[] {
+  switch (options.router) {
+    case 'react-router':
+      return reactRouterApp(pages, options);
+    case 'next':
+      return nextApp(pages, options);
+    case 'vue-router':
+      return vueRouterApp(pages, options);
+    case 'sveltekit':
+      return svelteKitApp(pages, options);
+  }
+}
+
+function reactRouterApp(pages: AppPage[], options: AppOptions): GeneratedFile[] {
+  const ext = options.typescript ? 'tsx' : 'jsx';
+  const routes = pages.map(page => ({ page, name: `${page.component.name}Route`, filename: `src/routes/${page.component.name}Route.${ext}` }));
+
+  const app = `import { BrowserRouter, Route, Routes } from 'react-router-dom';
+${routes.map(route => `import ${route.name} from '${scriptImport(`src/App.${ext}`, route.filename)}';\n`).join('')}
+/**
+ * Screens of the Figma page, each at its route
+ */
+export default function App() {
+  return (
+    <BrowserRouter>
+      <Routes>
+${routes.map(route => `        <Route path="${route.page.path}" element={<${route.name} />} />\n`).join('')}      </Routes>
+    </BrowserRouter>
+  );
+}
+`;
+
+  const main = `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import App from './App';
+${tokensImport(`src/main.${ext}`, options)}
+createRoot(document.getElementById('root')${options.typescript ? '!' : ''}).render(
+  <React.StrictMode>
+    <App />
+  </React.StrictMode>
+);
+`;
+
+  return [
+    packageJson(options, { 'react': '^18.3.1', 'react-dom': '^18.3.1', 'react-router-dom': '^6.26.2' }, {
+      'vite': '^5.4.8',
+      '@vitejs/plugin-react': '^4.3.2',
+      ...(options.typescript ? { 'typescript': '^5.6.2', '@types/react': '^18.3.11', '@types/react-dom': '^18.3.0' } : {})
+    }, VITE_SCRIPTS),
+    viteConfig(options, '@vitejs/plugin-react', 'react'),
+    indexHtml(options, 'root', `main.${ext}`),
+    ...(options.typescript ? [tsconfig({ jsx: 'react-jsx' }, ['src'])] : []),
+    { filename: `src/main.${ext}`, code: main },
+    { filename: `src/App.${ext}`, code: app },
+    ...routes.map(route => ({ filename: route.filename, code: reactPage(route.page, route.name, route.filename, false) }))
+  ];
+}
+
+function nextApp(pages: AppPage[], options: AppOptions): GeneratedFile[] {
+  const ext = options.typescript ? 'tsx' : 'jsx';
+  const imports = `${tokensImport(`app/layout.${ext}`, options)}${options.typescript ? "import type { ReactNode } from 'react';\n" : ''}`;
+  const layout = `${imports ? `${imports}\n` : ''}export const metadata = { title: ${jsLiteral(options.title)} };
+
+export default function RootLayout({ children }${options.typescript ? ': { children: ReactNode }' : ''}) {
+  return (
+    <html lang="en">
+      <body>{children}</body>
+    </html>
+  );
+}
+`;
+
+  return [
+    packageJson(options, { 'next': '^14.2.15', 'react': '^18.3.1', 'react-dom': '^18.3.1' }, {
+      ...(options.typescript ? { 'typescript': '^5.6.2', '@types/node': '^20.16.0', '@types/react': '^18.3.11' } : {})
+    }, { dev: 'next dev', build: 'next build', start: 'next start' }),
+    { filename: `app/layout.${ext}`, code: layout },
+    ...pages.map(page => {
+      const filename = `app${page.path === '/' ? '' : page.path}/page.${ext}`;
+      // Generated components keep state with hooks, so pages render on the client
+      return { filename, code: reactPage(page, 'Page', filename, true) };
+    })
+  ];
+}
+
+/**
+ * A React page rendering its screen, keeping the open state of the screen's overlays
+ */
+function reactPage(page: AppPage, name: string, filename: string, client: boolean): string {
+  const { component } = page;
+  const setter = (prop: string) => `set${prop.charAt(0).toUpperCase()}${prop.slice(1)}`;
+  const state = page.overlays.map(prop => `  const [${prop}, ${setter(prop)}] = useState(false);\n`).join('');
+  const props = page.overlays.map(prop => ` ${prop}={${prop}} ${openChangeCallback(prop)}={${setter(prop)}}`).join('');
+  const componentFile = `${COMPONENT_DIRECTORIES[client ? 'next' : 'react-router']}/${component.filename}`;
+
+  return `${client ? "'use client';\n\n" : ''}${state ? "import { useState } from 'react';\n" : ''}import ${component.name} from '${scriptImport(filename, componentFile)}';
+
+export default function ${name}() {
+${state ? `${state}\n` : ''}  return <${component.name}${props} />;
+}
+`;
+}
+
+function vueRouterApp(pages: AppPage[], options: AppOptions): GeneratedFile[] {
+  const ext = options.typescript ? 'ts' : 'js';
+  const views = pages.map(page => ({ page, name: `${page.component.name}View`, filename: `src/views/${page.component.name}View.vue` }));
+
+  const router = `import { createRouter, createWebHistory } from 'vue-router';
+${views.map(view => `import ${view.name} from '${importPath(`src/router.${ext}`, view.filename)}';\n`).join('')}
+/**
+ * Screens of the Figma page, each at its route
+ */
+export default createRouter({
+  history: createWebHistory(),
+  routes: [
+${views.map(view => `    { path: '${view.page.path}', component: ${view.name} }`).join(',\n')}
+  ]
+});
+`;
+
+  const main = `import { createApp } from 'vue';
+import App from './App.vue';
+import router from './router';
+${tokensImport(`src/main.${ext}`, options)}
+createApp(App).use(router).mount('#app');
+`;
+
+  const view = ({ page, filename }: typeof views[number]) => {
+    const { component } = page;
+    const models = page.overlays.map(prop => ` v-model:${toKebabCase(prop)}="${prop}"`).join('');
+    const state = page.overlays.map(prop => `const ${prop} = ref(false);\n`).join('');
+    return `<template>
+  <${component.name}${models} />
+</template>
+
+<script setup${options.typescript ? ' lang="ts"' : ''}>
+${state ? "import { ref } from 'vue';\n" : ''}import ${component.name} from '${importPath(filename, `${COMPONENT_DIRECTORIES['vue-router']}/${component.filename}`)}';
+${state ? `\n${state}` : ''}</script>
+`;
+  };
+
+  return [
+    packageJson(options, { 'vue': '^3.5.12', 'vue-router': '^4.4.5' }, {
+      'vite': '^5.4.8',
+      '@vitejs/plugin-vue': '^5.1.4',
+      ...(options.typescript ? { 'typescript': '^5.6.2' } : {})
+    }, VITE_SCRIPTS),
+    viteConfig(options, '@vitejs/plugin-vue', 'vue'),
+    indexHtml(options, 'app', `main.${ext}`),
+    ...(options.typescript ? [
+      tsconfig({ jsx: 'preserve' }, ['src/**/*.ts', 'src/**/*.vue']),
+      {
+        filename: 'src/env.d.ts',
+        code: `/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue';
+  const component: DefineComponent;
+  export default component;
+}
+`
+      }
+    ] : []),
+    { filename: `src/main.${ext}`, code: main },
+    { filename: `src/router.${ext}`, code: router },
+    { filename: 'src/App.vue', code: '<template>\n  <RouterView />\n</template>\n' },
+    ...views.map(entry => ({ filename: entry.filename, code: view(entry) }))
+  ];
+}
+
+function svelteKitApp(pages: AppPage[], options: AppOptions): GeneratedFile[] {
+  const runes = options.dialect !== 'legacy';
+  const script = options.typescript ? '<script lang="ts">' : '<script>';
+
+  const page = ({ component, overlays }: AppPage) => {
+    const state = overlays.map(prop => `  let ${prop} = ${runes ? '$state(false)' : 'false'};\n`).join('');
+    return `${script}
+  import ${component.name} from '$lib/components/${component.filename}';
+${state ? `\n${state}` : ''}</script>
+
+<${component.name}${overlays.map(prop => ` bind:${prop}`).join('')} />
+`;
+  };
+
+  // The tokens' stylesheet is loaded by the layout every page renders in
+  const layout = runes
+    ? `${script}
+  import '$lib/components/tokens.css';
+${options.typescript ? "  import type { Snippet } from 'svelte';\n" : ''}
+  let { children }${options.typescript ? ': { children: Snippet }' : ''} = $props();
+</script>
+
+{@render children()}
+`
+    : `${script}
+  import '$lib/components/tokens.css';
+</script>
+
+<slot />
+`;
+
+  return [
+    packageJson(options, {}, {
+      '@sveltejs/adapter-auto': '^3.3.0',
+      '@sveltejs/kit': '^2.7.0',
+      '@sveltejs/vite-plugin-svelte': runes ? '^4.0.0' : '^3.1.2',
+      'svelte': runes ? '^5.0.0' : '^4.2.19',
+      'vite': '^5.4.8',
+      ...(options.typescript ? { 'typescript': '^5.6.2' } : {})
+    }, { dev: 'vite dev', build: 'vite build', preview: 'vite preview' }),
+    {
+      filename: 'svelte.config.js',
+      code: `import adapter from '@sveltejs/adapter-auto';
+import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+
+/** @type {import('@sveltejs/kit').Config} */
+const config = {
+  preprocess: vitePreprocess(),
+  kit: {
+    adapter: adapter()
+  }
+};
+
+export default config;
+`
+    },
+    {
+      filename: `vite.config.${options.typescript ? 'ts' : 'js'}`,
+      code: `import { sveltekit } from '@sveltejs/kit/vite';
+import { defineConfig } from 'vite';
+
+export default defineConfig({
+  plugins: [sveltekit()]
+});
+`
+    },
+    ...(options.typescript ? [{
+      filename: 'tsconfig.json',
+      code: `${JSON.stringify({ extends: './.svelte-kit/tsconfig.json', compilerOptions: { strict: true, skipLibCheck: true } }, null, 2)}\n`
+    }] : []),
+    {
+      filename: 'src/app.html',
+      code: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(options.title)}</title>
+    %sveltekit.head%
+  </head>
+  <body>
+    <div style="display: contents">%sveltekit.body%</div>
+  </body>
+</html>
+`
+    },
+    ...(options.tokens ? [{ filename: 'src/routes/+layout.svelte', code: layout }] : []),
+    ...pages.map(entry => ({
+      filename: `src/routes${entry.path === '/' ? '' : entry.path}/+page.svelte`,
+      code: page(entry)
+    }))
+  ];
+}
+
+const VITE_SCRIPTS = { dev: 'vite', build: 'vite build', preview: 'vite preview' };
+
+function packageJson(
+  options: AppOptions,
+  dependencies: Record<string, string>,
+  devDependencies: Record<string, string>,
+  scripts: Record<string, string>
+): GeneratedFile {
+  const name = options.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'app';
+  const manifest = {
+    name,
+    private: true,
+    version: '0.0.0',
+    type: 'module',
+    scripts,
+    ...(Object.keys(dependencies).length ? { dependencies } : {}),
+    ...(Object.keys(devDependencies).length ? { devDependencies } : {})
+  };
+  return { filename: 'package.json', code: `${JSON.stringify(manifest, null, 2)}\n` };
+}
+
+function viteConfig(options: AppOptions, plugin: string, name: string): GeneratedFile {
+  return {
+    filename: `vite.config.${options.typescript ? 'ts' : 'js'}`,
+    code: `import { defineConfig } from 'vite';
+import ${name} from '${plugin}';
+
+export default defineConfig({
+  plugins: [${name}()]
+});
+`
+  };
+}
+
+function indexHtml(options: AppOptions, mount: string, entry: string): GeneratedFile {
+  return {
+    filename: 'index.html',
+    code: `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHtml(options.title)}</title>
+  </head>
+  <body>
+    <div id="${mount}"></div>
+    <script type="module" src="/src/${entry}"></script>
+  </body>
+</html>
+`
+  };
+}
+
+function tsconfig(compilerOptions: Record<string, string>, include: string[]): GeneratedFile {
+  const config = {
+    compilerOptions: {
+      target: 'ES2020',
+      lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+      module: 'ESNext',
+      moduleResolution: 'bundler',
+      ...compilerOptions,
+      strict: true,
+      skipLibCheck: true,
+      noEmit: true,
+      types: ['vite/client']
+    },
+    include
+  };
+  return { filename: 'tsconfig.json', code: `${JSON.stringify(config, null, 2)}\n` };
+}
+
+/**
+ * Import of the design tokens' stylesheet from an app file, when tokens are generated
+ */
+function tokensImport(from: string, options: AppOptions): string {
+  return options.tokens ? `import '${importPath(from, `${COMPONENT_DIRECTORIES[options.router]}/tokens.css`)}';\n` : '';
+}
+
+/**
+ * Script modules are imported without their extension
+ */
+function scriptImport(from: string, to: string): string {
+  return importPath(from, to).replace(/\.[jt]sx?$/, '');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -0,0 +1,153 @@
+import type { FigmaNode } from './index';
+import { groupBreakpoints, ResponsiveOptions } from './responsive';
+
+/**
+ * Nodes a filter matches: every given field must match. A plain string is a name glob.
+ */
+export interface NodeFilter {
+  /** Glob matched against the layer name, where `*` matches any characters and `?` one */
+  name?: string;
+  /** Name of the page the node is on */
+  page?: string;
+  /** Figma node type, e.g. `COMPONENT` */
+  type?: string;
+}
+
+/**
+ * Settings for one node, keyed by its id or layer name
+ */
+export interface NodeOverride {
+  /** Component name to generate the node as, instead of one derived from its layer name */
+  name?: string;
+  /** Leave the node and its layers out of the run */
+  skip?: boolean;
+  /**
+   * Generate the node as a component even when it isn't a component, component set
+   * or frame; layers containing it render it as that component
+   */
+  component?: boolean;
+  /** HTML element to render the layer as, e.g. `section`, instead of the inferred one */
+  element?: string;
+  /** Alt text of an image layer */
+  alt?: string;
+}
+
+/**
+ * Which nodes of a document become components
+ */
+export interface NodeSelection {
+  include?: Array<NodeFilter | string>;
+  exclude?: Array<NodeFilter | string>;
+  overrides?: Record<string, NodeOverride>;
+  /** Frames of one screen at several widths, generated as one component; `false` keeps them apart */
+  responsive?: ResponsiveOptions | false;
+}
+
+/**
+ * A node a run leaves out, and why: `override` for nodes with `skip` set,
+ * `excluded` or `not-included` for frames and components the filters leave out
+ */
+export interface SkippedNode {
+  node: FigmaNode;
+  reason: 'override' | 'excluded' | 'not-included';
+}
+
+function isComponentRoot(node: FigmaNode): boolean {
+  return node.type === 'COMPONENT' || node.type === 'COMPONENT_SET' || node.type === 'FRAME';
+}
+
+/**
+ * Collect the nodes that become components, in document order, with the
+ * frames of a screen at several widths grouped into one node
+ */
+export function collectComponentRoots(document: FigmaNode | undefined, selection: NodeSelection = {}): FigmaNode[] {
+  const roots: FigmaNode[] = [];
+  selectNodes(document, selection, node => roots.push(node), () => undefined);
+  return selection.responsive === false ? roots : groupBreakpoints(roots, selection.responsive);
+}
+
+/**
+ * The nodes that would become components but are left out, in document order
+ */
+export function skippedNodes(document: FigmaNode | undefined, selection: NodeSelection = {}): SkippedNode[] {
+  const skipped: SkippedNode[] = [];
+  selectNodes(document, selection, () => undefined, (node, reason) => skipped.push({ node, reason }));
+  return skipped;
+}
+
+function selectNodes(
+  document: FigmaNode | undefined,
+  selection: NodeSelection,
+  select: (node: FigmaNode) => void,
+  skip: (node: FigmaNode, reason: SkippedNode['reason']) => void
+): void {
+  const include = (selection.include || []).map(normalizeFilter);
+  const exclude = (selection.exclude || []).map(normalizeFilter);
+
+  const visit = (node: FigmaNode, page?: string) => {
+    const override = nodeOverride(node, selection.overrides);
+    if (override.skip) {
+      skip(node, 'override');
+      return;
+    }
+
+    if (isComponentRoot(node) || override.component) {
+      if (exclude.some(filter => matchesFilter(node, page, filter))) {
+        skip(node, 'excluded');
+      } else if (include.length > 0 && !include.some(filter => matchesFilter(node, page, filter))) {
+        skip(node, 'not-included');
+      } else {
+        select(node);
+      }
+    }
+
+    // Variants are generated as part of their component set, and
+    // instances render as the component generated from their main component
+    if (node.children && node.type !== 'COMPONENT_SET' && node.type !== 'INSTANCE') {
+      node.children.forEach(child => visit(child, node.type === 'CANVAS' ? node.name : page));
+    }
+  };
+
+  document?.children?.forEach(child => visit(child));
+}
+
+/**
+ * Names of the pages and layers above each node, keyed by node id
+ */
+export function nodePaths(document: FigmaNode | undefined): Map<string, string[]> {
+  const paths = new Map<string, string[]>();
+  const visit = (node: FigmaNode, path: string[]) => {
+    paths.set(node.id, path);
+    if (node.children && node.type !== 'INSTANCE') {
+      const childPath = [...path, node.name];
+      node.children.forEach(child => visit(child, childPath));
+    }
+  };
+  document?.children?.forEach(child => visit(child, []));
+  return paths;
+}
+
+/**
+ * The override for a node, with settings keyed by its id taking precedence over its name
+ */
+export function nodeOverride(node: FigmaNode, overrides: Record<string, NodeOverride> = {}): NodeOverride {
+  return { ...overrides[node.name], ...overrides[node.id] };
+}
+
+function normalizeFilter(filter: NodeFilter | string): NodeFilter {
+  return typeof filter === 'string' ? { name: filter } : filter;
+}
+
+function matchesFilter(node: FigmaNode, page: string | undefined, filter: NodeFilter): boolean {
+  return (filter.name === undefined || globPattern(filter.name).test(node.name)) &&
+    (filter.page === undefined || filter.page === page) &&
+    (filter.type === undefined || filter.type === node.type);
+}
+
+function globPattern(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => (char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[\\^$.|+()[\]{}]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,287 @@
+import type { FigmaNode } from './index';
+import type { RenderElement } from './renderer';
+import type { RouterLink } from './scaffold';
+import { NodeOverride, nodeOverride } from './selection';
+import type { CSSDeclarations } from './styles';
+
+/**
+ * Options of the semantic element pass
+ */
+export interface SemanticsOptions {
+  /** Infer elements from layer names, structure and text styles; overrides apply either way */
+  infer: boolean;
+  overrides?: Record<string, NodeOverride>;
+  /** Component links to other screens render as, when they are routes of an app */
+  router?: RouterLink;
+}
+
+const BUTTON_WORDS = ['button', 'btn', 'cta'];
+const LINK_WORDS = ['link'];
+const INPUT_WORDS = ['input', 'textfield', 'textbox', 'searchbox', 'searchfield'];
+const NAV_WORDS = ['nav', 'navbar', 'navigation', 'menu'];
+
+/** Elements whose content can't hold other interactive elements or block-level text */
+const INTERACTIVE_TAGS = ['button', 'a', 'label'];
+
+/** Font sizes, in px, from which text becomes a heading of each level */
+const HEADING_SIZES: Array<[number, string]> = [[32, 'h1'], [24, 'h2'], [20, 'h3']];
+
+/**
+ * Browser styles reset on elements that replace a `div`, so they look as designed
+ */
+const RESETS: Record<string, CSSDeclarations> = {
+  button: {
+    'border': 'none',
+    'background-color': 'transparent',
+    'padding': '0',
+    'font': 'inherit',
+    'color': 'inherit',
+    'text-align': 'inherit',
+    'cursor': 'pointer'
+  },
+  a: { 'color': 'inherit', 'text-decoration': 'none' },
+  input: { 'border': 'none', 'background-color': 'transparent', 'padding': '0', 'width': '100%' },
+  ul: { 'list-style': 'none', 'margin': '0', 'padding': '0' }
+};
+
+/**
+ * Give the elements of a tree the HTML elements their layers stand for:
+ * buttons, links, text fields, headings, navigation and lists, from the
+ * `element` overrides or inferred from layer names, structure and text size
+ */
+export function applySemantics(tree: RenderElement, options: SemanticsOptions): void {
+  const visit = (element: RenderElement, interactive: boolean) => {
+    if (element.instance) return;
+
+    const override = nodeOverride(element.node, options.overrides);
+    if (element.asset && (options.infer || override.alt !== undefined)) {
+      element.attributes.alt = override.alt ?? imageAlt(element.node);
+    }
+
+    const tag = override.element || linkTag(element, interactive) ||
+      (options.infer ? inferTag(element, interactive) : undefined);
+    if (tag) setTag(element, tag);
+    if (options.infer && !override.element && element.tag === 'label') {
+      fieldInput(element);
+    }
+
+    const inside = interactive || INTERACTIVE_TAGS.includes(element.tag);
+    if (options.router && element.tag === 'a' && element.click?.type === 'link' && element.click.route) {
+      useRouterLink(element, options.router, element.click.href);
+    }
+    element.children.forEach(child => visit(child, inside));
+  };
+  visit(tree, false);
+}
+
+/**
+ * Attributes of a component's root: `role="presentation"` while the root
+ * is a plain `div`, so it adds nothing to the accessibility tree
+ */
+export function presentationRole(tree: RenderElement): string[] {
+  return tree.tag === 'div' ? ['role="presentation"'] : [];
+}
+
+/**
+ * Prototype links are links whatever the layer is named, unless inside another interactive element
+ */
+function linkTag(element: RenderElement, interactive: boolean): string | undefined {
+  if (element.click?.type !== 'link' || interactive || !['div', 'p'].includes(element.tag)) return undefined;
+  element.attributes.href = element.click.href;
+  if (element.click.newTab) {
+    element.attributes.target = '_blank';
+    element.attributes.rel = 'noopener noreferrer';
+  }
+  return 'a';
+}
+
+/**
+ * Render a link to another screen of the app with the router's link component
+ */
+function useRouterLink(element: RenderElement, router: RouterLink, path: string): void {
+  const { href, ...attributes } = element.attributes;
+  element.tag = router.tag;
+  element.attributes = { [router.attribute]: path, ...attributes };
+}
+
+/**
+ * Whether an element or any element below it renders as `tag`
+ */
+export function containsTag(element: RenderElement, tag: string): boolean {
+  return element.tag === tag || element.children.some(child => containsTag(child, tag));
+}
+
+function inferTag(element: RenderElement, interactive: boolean): string | undefined {
+  const { node } = element;
+  if (element.text !== undefined && element.tag === 'p') {
+    // Buttons, links and labels only hold phrasing content
+    return interactive ? 'span' : headingTag(node);
+  }
+  if (element.tag !== 'div') return undefined;
+
+  // Layers clicked to change state or open an overlay, unless they hold buttons or links themselves
+  const opens = element.click?.type === 'state' || (element.click?.type === 'overlay' && element.click.open);
+  if (!interactive && opens && !containsInteractive(element)) return 'button';
+  if (!interactive && nameIs(node.name, BUTTON_WORDS)) return 'button';
+  if (!interactive && nameIs(node.name, LINK_WORDS)) return 'a';
+  if (!interactive && nameIs(node.name, INPUT_WORDS) && placeholderText(element)) return 'label';
+  if (nameIs(node.name, NAV_WORDS)) return 'nav';
+  if (!interactive && isRepeated(element.children)) return 'ul';
+  return undefined;
+}
+
+function setTag(element: RenderElement, tag: string): void {
+  element.tag = tag;
+  if (tag === 'button') {
+    element.attributes.type = 'button';
+    phrasingFrames(element);
+  }
+  if (tag === 'a' && element.attributes.href === undefined) element.attributes.href = '#';
+  if (RESETS[tag]) {
+    element.styles = { ...resets(element, RESETS[tag]), ...element.styles };
+  }
+  if (tag === 'ul') {
+    element.children = element.children.map(listItem);
+  }
+}
+
+/**
+ * Buttons only hold phrasing content: the frames inside one become `span`s,
+ * block-level unless their layer sets a display. Instances render their own root.
+ */
+function phrasingFrames(element: RenderElement): void {
+  for (const child of element.children) {
+    if (child.instance) continue;
+    if (child.tag === 'div') {
+      child.tag = 'span';
+      child.styles = { ...resets(child, { display: 'block' }), ...child.styles };
+    }
+    phrasingFrames(child);
+  }
+}
+
+/**
+ * The browser style resets an element needs: those of properties its layer
+ * doesn't set itself in any variant or at any breakpoint, so no class has to win over another
+ */
+function resets(element: RenderElement, declarations: CSSDeclarations): CSSDeclarations {
+  const declared = new Set(Object.keys(element.styles));
+  const collect = (cases: Record<string, any>, depth: number): void => {
+    for (const value of Object.values(cases)) {
+      if (depth > 1) collect(value, depth - 1);
+      else Object.keys(value).forEach(property => declared.add(property));
+    }
+  };
+  element.variantStyles?.forEach(variant => collect(variant.cases, variant.props.length));
+  element.mediaStyles?.forEach(media => Object.keys(media.styles).forEach(property => declared.add(property)));
+
+  // `border` also covers `border-width`, and `font-size` sets part of `font`
+  const overlaps = (property: string) => Array.from(declared).some(other =>
+    other === property || other.startsWith(`${property}-`) || property.startsWith(`${other}-`)
+  );
+  return Object.fromEntries(Object.entries(declarations).filter(([property]) => !overlaps(property)));
+}
+
+function containsInteractive(element: RenderElement): boolean {
+  return element.children.some(child =>
+    Boolean(child.click) || nameIs(child.node.name, [...BUTTON_WORDS, ...LINK_WORDS]) || containsInteractive(child)
+  );
+}
+
+/**
+ * Heading level of a text layer, from a name such as `H2` or its font size
+ */
+function headingTag(node: FigmaNode): string | undefined {
+  const named = node.name.trim().match(/^h([1-6])$/i);
+  if (named) return `h${named[1]}`;
+
+  const size = node.style?.fontSize ?? node.fontSize ?? 0;
+  return HEADING_SIZES.find(([min]) => size >= min)?.[1];
+}
+
+/**
+ * Whether a layer name ends with one of `words` in any of its slash-separated
+ * parts, so `Primary Button` and `Button/Primary` match but `Button Group` doesn't
+ */
+function nameIs(name: string, words: string[]): boolean {
+  return name.split('/').some(part => {
+    const parts = part
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(Boolean);
+    const last = parts[parts.length - 1];
+    // `Text Field` is written as two words as often as one
+    const lastTwo = parts.slice(-2).join('');
+    return words.includes(last) || words.includes(lastTwo);
+  });
+}
+
+/**
+ * Three or more children made from the same component, or layers alike in type and name
+ */
+function isRepeated(children: RenderElement[]): boolean {
+  if (children.length < 3 || children.some(child => child.text !== undefined)) return false;
+  const key = (child: RenderElement) =>
+    child.instance ? `instance:${child.instance.component.name}` : `${child.node.type}:${child.node.name}`;
+  return children.every(child => key(child) === key(children[0]));
+}
+
+/**
+ * The element as a list item: containers become the `li`, while components,
+ * images, buttons and links get an `li` around them that leaves layout alone
+ */
+function listItem(child: RenderElement): RenderElement {
+  if (!child.instance && child.tag === 'div' && !nameIs(child.node.name, [...BUTTON_WORDS, ...LINK_WORDS])) {
+    return { ...child, tag: 'li' };
+  }
+  const { condition, ...rest } = child;
+  return {
+    tag: 'li',
+    node: { ...child.node, name: `${child.node.name} item` },
+    styles: { display: 'contents' },
+    attributes: {},
+    condition,
+    children: [rest]
+  };
+}
+
+/**
+ * Turn the placeholder text of a field into its `<input>`; the other text stays as the label
+ */
+function fieldInput(label: RenderElement): void {
+  const placeholder = placeholderText(label);
+  if (!placeholder) return;
+
+  const name = label.node.name.toLowerCase();
+  const type = ['password', 'email', 'search'].find(kind => name.includes(kind)) || 'text';
+  placeholder.tag = 'input';
+  placeholder.attributes = { ...placeholder.attributes, type, placeholder: placeholder.text! };
+  placeholder.styles = { ...resets(placeholder, RESETS.input), ...placeholder.styles };
+  delete placeholder.text;
+  delete placeholder.spans;
+}
+
+/**
+ * The last static text of a field, shown until something is typed
+ */
+function placeholderText(element: RenderElement): RenderElement | undefined {
+  const texts: RenderElement[] = [];
+  const visit = (current: RenderElement) => {
+    if (current.instance || current.condition) return;
+    if (current.text !== undefined && !current.textBinding && !current.spans) texts.push(current);
+    current.children.forEach(visit);
+  };
+  visit(element);
+  return texts[texts.length - 1];
+}
+
+/**
+ * Alt text of an image: its description, or its layer name unless Figma
+ * named it (`Rectangle 12`), in which case it is taken as decorative
+ */
+function imageAlt(node: FigmaNode): string {
+  if (node.description) return node.description;
+  const generic = /^(rectangle|ellipse|image|photo|vector|frame|group|polygon|star|line|mask group)( \d+)?$/i;
+  return generic.test(node.name.trim()) ? '' : node.name;
+}
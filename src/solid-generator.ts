@@ -0,0 +1,144 @@
+import { svgMarkup } from './assets';
+import { jsxElement } from './component-tests';
+import type { FrameworkGenerator } from './generator';
+import { openChangeCallback, stateSetter, stateVariable } from './interactions';
+import { companionFile, importPath } from './ir';
+import { keepRegion } from './manifest';
+import { DIALECTS, escapeAttribute, jsLiteral, MarkupDialect, objectKey, renderMarkup } from './renderer';
+import { presentationRole } from './semantics';
+import { defaultExportStories } from './stories';
+import { generateStylesheet } from './stylesheet';
+import { propTypeScript } from './variants';
+
+/**
+ * JSX as Solid writes it: `class`, HTML attribute names and style objects keyed by CSS property
+ */
+const SOLID_DIALECT: MarkupDialect = {
+  ...DIALECTS.react,
+  classAttribute: (staticClasses, dynamic) =>
+    DIALECTS.react.classAttribute(staticClasses, dynamic)?.replace(/^className=/, 'class=') ?? null,
+  styleAttributes: (css, dynamic) => {
+    const entries = [
+      ...Object.entries(css).map(([property, value]) => `${objectKey(property)}: ${jsLiteral(value)}`),
+      ...dynamic.map(d => `...${d}`)
+    ];
+    return entries.length ? [`style={{ ${entries.join(', ')} }}`] : [];
+  },
+  styleCase: css => css,
+  attribute: (name, value) => `${name}="${escapeAttribute(value)}"`,
+  // Swapped instances are read from the props object like every other prop
+  wrap: (element, markup, indent) =>
+    DIALECTS.react.wrap({ ...element, slot: element.slot && `props.${element.slot}` }, markup, indent)
+};
+
+/**
+ * SolidJS components, styled with a CSS Module. Props are read from the
+ * props object rather than destructured, so they stay reactive.
+ */
+export const solidGenerator: FrameworkGenerator = {
+  name: 'solid',
+  extension: options => (options.typescript ? 'tsx' : 'jsx'),
+  stylesheet: { naming: 'camelCase' },
+  stories: defaultExportStories('storybook-solidjs', options => (options.typescript ? 'tsx' : 'jsx'), /\.[jt]sx$/),
+  tests: {
+    library: '@solidjs/testing-library',
+    extension: options => (options.typescript ? 'test.tsx' : 'test.jsx'),
+    imports: (ir, testFile) => `import ${ir.name} from '${importPath(testFile, ir.filename).replace(/\.[jt]sx$/, '')}';\n`,
+    render: (ir, props, className) => `render(() => ${jsxElement(ir.name, props, className ? { class: className } : {})})`,
+    forwardsClass: true
+  },
+  indexExport: ({ name, filename }) => `export { default as ${name} } from '${importPath('index', filename).replace(/\.[jt]sx$/, '')}';`,
+
+  generate(ir, options) {
+    const isTS = options.typescript;
+    const inlineStyles = options.styling === 'inline';
+    const overlays = ir.props.filter(p => p.overlay);
+
+    const propsInterface = isTS ? `
+interface Props {
+${ir.props.map(p => `  ${p.name}?: ${propTypeScript(p, 'JSX.Element')};\n`).join('')}${
+  overlays.map(p => `  ${openChangeCallback(p.name)}?: (open: boolean) => void;\n`).join('')}  children?: JSX.Element;
+  class?: string;${inlineStyles ? '\n  style?: JSX.CSSProperties;' : ''}
+}
+` : '';
+    const defaults = [
+      ...ir.props.filter(p => p.defaultValue !== undefined).map(p => `${p.name}: ${jsLiteral(p.defaultValue)}`),
+      "class: ''"
+    ].join(', ');
+
+    const markup = renderMarkup(ir.tree, {
+      dialect: SOLID_DIALECT,
+      tailwind: options.styling === 'tailwind',
+      propAccess: { prefix: 'props.', names: ir.props.map(p => p.name) },
+      interactions: {
+        states: Object.fromEntries(ir.states.map(p => [p.name, `${stateVariable(p.name)}()`])),
+        setState: (prop, value) => `${stateSetter(prop)}(${value})`,
+        setOpen: (prop, open) => `props.${openChangeCallback(prop)}?.(${open})`
+      }
+    }, 2, {
+      classProp: 'props.class',
+      attributes: [...presentationRole(ir.tree), `data-testid="${ir.testId}"`],
+      slot: '{props.children}',
+      styleProp: inlineStyles ? 'props.style' : undefined
+    });
+    const imports = [
+      ...ir.components.map(c => `import ${c.name} from '${importPath(ir.filename, c.filename).replace(/\.[jt]sx$/, '')}';\n`),
+      ...ir.assets.map(a => `import ${a.importName} from '${importPath(ir.filename, a.filename)}';\n`)
+    ].join('');
+    const stylesheet = companionFile(ir.filename, '.module.css');
+
+    // Clicks change the variant from the one the props start at
+    const state = ir.states
+      .map(p => `  const [${stateVariable(p.name)}, ${stateSetter(p.name)}] = createSignal(props.${p.name});\n`)
+      .join('');
+    const solidImports = [...(isTS ? ['Component', 'JSX'] : []), ...(state ? ['createSignal'] : []), 'mergeProps'];
+
+    const code = `import { ${solidImports.join(', ')} } from 'solid-js';
+${options.styling === 'stylesheet' ? `import styles from '${importPath(ir.filename, stylesheet)}';\n` : ''}${imports}${keepRegion('imports')}
+${propsInterface}
+/**
+ * ${ir.name} Component
+ * Auto-generated from Figma design
+ * Original Figma ID: ${ir.node.id}
+ */
+const ${ir.name}${isTS ? ': Component<Props>' : ''} = (initialProps) => {
+  const props = mergeProps({ ${defaults} }, initialProps);
+${state}
+${keepRegion('logic', '  ')}
+
+  return (
+${markup}
+  );
+};
+
+export default ${ir.name};
+export { ${ir.name} };
+`;
+
+    const files = [{ filename: ir.filename, code }];
+    if (options.styling === 'stylesheet') {
+      files.push({
+        filename: stylesheet,
+        code: `${generateStylesheet(ir.rules)}\n\n${keepRegion('styles', '', 'css')}\n`
+      });
+    }
+    return files;
+  },
+
+  generateIcon(icon, options) {
+    const svg = svgMarkup(icon.svg, '{...props}').split('\n').map(line => `  ${line}`).join('\n');
+    const code = `${options.typescript ? "import { JSX } from 'solid-js';\n\n" : ''}/**
+ * ${icon.name}
+ * Auto-generated from Figma design
+ * Original Figma ID: ${icon.asset.node.id}
+ */
+const ${icon.name} = (props${options.typescript ? ': JSX.SvgSVGAttributes<SVGSVGElement>' : ''}) => (
+${svg}
+);
+
+export default ${icon.name};
+export { ${icon.name} };
+`;
+    return [{ filename: icon.filename, code }];
+  }
+};
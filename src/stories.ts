@@ -0,0 +1,211 @@
+import type { GeneratedFile, GeneratorOptions } from './generator';
+import type { FigmaNode } from './index';
+import { ComponentIR, companionFile, importPath } from './ir';
+import { keepRegion } from './manifest';
+import { pascalCase } from './naming';
+import { jsLiteral } from './renderer';
+import { ComponentProp, variantValues } from './variants';
+
+/**
+ * How a target's components are shown in Storybook
+ */
+export interface StorySupport {
+  /** Storybook renderer package the stories are written for, e.g. `@storybook/react` */
+  renderer: string;
+  /** Extension of story files, without the dot */
+  extension(options: GeneratorOptions): string;
+  /**
+   * Import of the component into its story file, the meta's `component` and,
+   * for typed stories, the type `Meta` and `StoryObj` are parameterized with
+   */
+  component(ir: ComponentIR, storyFile: string): { imports: string; component: string; type?: string };
+}
+
+/**
+ * Story support for targets whose components are default exports, imported
+ * by their file name without the part `extensionPattern` matches
+ */
+export function defaultExportStories(
+  renderer: string,
+  extension: (options: GeneratorOptions) => string,
+  extensionPattern?: RegExp
+): StorySupport {
+  return {
+    renderer,
+    extension,
+    component(ir, storyFile) {
+      const file = importPath(storyFile, ir.filename);
+      return {
+        imports: `import ${ir.name} from '${extensionPattern ? file.replace(extensionPattern, '') : file}';\n`,
+        component: ir.name,
+        type: `typeof ${ir.name}`
+      };
+    }
+  };
+}
+
+/**
+ * Where stories link back to the design
+ */
+export interface StoryContext {
+  /** Sidebar title, e.g. `Components/Buttons/Button` */
+  title: string;
+  /** Key of the Figma file, for a link to the node */
+  fileKey?: string;
+}
+
+interface Story {
+  name: string;
+  args: Record<string, string>;
+}
+
+/**
+ * Write a CSF3 story file for a component: one story per variant of a
+ * component set, or a `Default` story, with controls for every prop
+ */
+export function generateStories(
+  ir: ComponentIR,
+  support: StorySupport,
+  context: StoryContext,
+  options: GeneratorOptions
+): GeneratedFile {
+  const extension = support.extension(options);
+  const filename = companionFile(ir.filename, `.stories.${extension}`);
+  const { imports, component, type } = support.component(ir, filename);
+  const typed = isTypeScript(extension);
+  // Router links need a router above them; only JSX targets' routers have a provider
+  const provider = ir.routerLink?.provider;
+
+  const args = ir.props.filter(p => p.kind !== 'instance' && p.defaultValue !== undefined);
+  const design = context.fileKey
+    ? `{ type: 'figma', url: ${jsLiteral(figmaUrl(context.fileKey, ir.node.id))} }`
+    : `{ type: 'figma', nodeId: ${jsLiteral(ir.node.id)} }`;
+  const meta = [
+    `  title: ${jsLiteral(context.title)}`,
+    `  component: ${component}`,
+    `  parameters: {\n    design: ${design}\n  }`,
+    ...(provider ? [`  decorators: [\n    Story => (\n      <${provider.name}>\n        <Story />\n      </${provider.name}>\n    )\n  ]`] : []),
+    ...(ir.props.length ? [`  argTypes: {\n${ir.props.map(p => `    ${p.name}: ${argType(p)}`).join(',\n')}\n  }`] : []),
+    ...(args.length ? [`  args: {\n${args.map(p => `    ${p.name}: ${jsLiteral(p.defaultValue)}`).join(',\n')}\n  }`] : [])
+  ].join(',\n');
+
+  const typeArgument = type ? `<${type}>` : '';
+  const stories = variantStories(ir)
+    .map(story => {
+      const values = Object.entries(story.args).map(([name, value]) => `    ${name}: ${jsLiteral(value)}`);
+      const body = values.length ? `{\n  args: {\n${values.join(',\n')}\n  }\n}` : '{}';
+      return `export const ${story.name}${typed ? ': Story' : ''} = ${body};\n`;
+    })
+    .join('\n');
+
+  const code = `${provider ? `import React from 'react';\n${provider.imports}` : ''}${typed ? `import type { Meta, StoryObj } from '${support.renderer}';\n` : ''}${imports}${keepRegion('imports')}
+
+/**
+ * Stories for ${ir.name}
+ * Auto-generated from Figma design
+ * Original Figma ID: ${ir.node.id}
+ */
+const meta = {
+${meta}
+}${typed ? ` satisfies Meta${typeArgument}` : ''};
+
+export default meta;
+${typed ? `type Story = StoryObj<typeof meta>;\n` : ''}
+${stories}`;
+
+  return { filename, code };
+}
+
+/**
+ * Storybook preview for the generated components, loading the design
+ * tokens' custom properties when they are generated
+ */
+export function generateStoryPreview(support: StorySupport, options: GeneratorOptions): GeneratedFile {
+  const typed = isTypeScript(support.extension(options));
+  const code = `${typed ? `import type { Preview } from '${support.renderer}';\n` : ''}${options.tokens ? "import './tokens.css';\n" : ''}${keepRegion('imports')}
+
+/**
+ * Storybook preview for the generated components; re-export it from
+ * \`.storybook/preview\` with \`export { default } from '<output>/storybook-preview';\`
+ */
+const preview${typed ? ': Preview' : ''} = {
+  parameters: {
+    controls: { expanded: true }
+  }
+};
+
+export default preview;
+`;
+  return { filename: `storybook-preview.${typed ? 'ts' : 'js'}`, code };
+}
+
+/**
+ * Storybook title of a node: the pages and frames above it, then its
+ * own slash-separated name, e.g. `Components/Buttons/Button/Primary`
+ */
+export function storyTitle(path: string[], name: string): string {
+  return [...path, ...name.split('/')]
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .join('/');
+}
+
+/**
+ * One story per variant of a component set, named after its values, e.g.
+ * `SmHover` for `Size=sm, State=hover`; other components get a `Default` story
+ */
+function variantStories(ir: ComponentIR): Story[] {
+  const variants = ir.node.type === 'COMPONENT_SET'
+    ? (ir.node.children || []).filter(child => child.type === 'COMPONENT')
+    : [];
+  if (variants.length === 0) return [{ name: 'Default', args: {} }];
+
+  const used = new Set<string>();
+  return variants.map(variant => {
+    const args = variantArgs(variant, ir.props);
+    const base = storyName(Object.values(args).join(' '));
+    let name = base;
+    for (let i = 2; used.has(name); i++) {
+      name = `${base}${i}`;
+    }
+    used.add(name);
+    return { name, args };
+  });
+}
+
+function variantArgs(variant: FigmaNode, props: ComponentProp[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const [figmaName, value] of Object.entries(variantValues(variant))) {
+    const prop = props.find(p => p.kind === 'variant' && p.figmaName === figmaName);
+    if (prop) args[prop.name] = value;
+  }
+  return args;
+}
+
+function storyName(values: string): string {
+  const name = pascalCase(values);
+  if (!name) return 'Default';
+  return /^[0-9]/.test(name) ? `Variant${name}` : name;
+}
+
+function argType(prop: ComponentProp): string {
+  switch (prop.kind) {
+    case 'variant':
+      return `{ control: 'select', options: [${(prop.options || []).map(option => jsLiteral(option)).join(', ')}] }`;
+    case 'boolean':
+      return "{ control: 'boolean' }";
+    case 'text':
+      return "{ control: 'text' }";
+    case 'instance':
+      // Swapped instances are markup, which controls can't edit
+      return '{ control: false }';
+  }
+}
+
+function isTypeScript(extension: string): boolean {
+  return extension === 'ts' || extension === 'tsx';
+}
+
+function figmaUrl(fileKey: string, nodeId: string): string {
+  return `https://www.figma.com/design/${fileKey}/?node-id=${nodeId.replace(/:/g, '-')}`;
+}
@@ -0,0 +1,422 @@
+import type { FigmaNode } from './index';
+import { extractLayoutStyles } from './layout';
+import { extractTextStyles } from './typography';
+
+export type CSSDeclarations = Record<string, string>;
+
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export interface Paint {
+  type: string;
+  visible?: boolean;
+  opacity?: number;
+  color?: RGBA;
+  blendMode?: string;
+  /** Start, end and width handles in the node's normalized coordinates */
+  gradientHandlePositions?: Array<{ x: number; y: number }>;
+  gradientStops?: Array<{ position: number; color: RGBA }>;
+  /** Image of an IMAGE paint, resolved through the file's images */
+  imageRef?: string;
+  scaleMode?: 'FILL' | 'FIT' | 'TILE' | 'STRETCH';
+}
+
+/**
+ * Resolves an IMAGE paint's imageRef to the URL of its exported file
+ */
+export type ImageResolver = (imageRef: string) => string | undefined;
+
+export interface Effect {
+  type: string;
+  visible?: boolean;
+  color?: RGBA;
+  offset?: { x: number; y: number };
+  radius?: number;
+  spread?: number;
+}
+
+/**
+ * Paint, stroke, corner and effect properties shared by every Figma node model
+ */
+export interface VisualProperties {
+  fills?: Paint[];
+  strokes?: Paint[];
+  strokeWeight?: number;
+  individualStrokeWeights?: { top: number; right: number; bottom: number; left: number };
+  strokeAlign?: 'INSIDE' | 'OUTSIDE' | 'CENTER';
+  strokeDashes?: number[];
+  cornerRadius?: number;
+  /** Top-left, top-right, bottom-right and bottom-left radii */
+  rectangleCornerRadii?: [number, number, number, number];
+  opacity?: number;
+  blendMode?: string;
+  effects?: Effect[];
+  /** Whether the layer masks the layers above it */
+  isMask?: boolean;
+}
+
+/**
+ * Extract the CSS declarations for a single Figma node. Image fills are only
+ * drawn when `images` can resolve them to exported files.
+ */
+export function extractStyles(node: FigmaNode, parent?: FigmaNode, images?: ImageResolver): CSSDeclarations {
+  const css: CSSDeclarations = extractLayoutStyles(node, parent);
+
+  if (node.type === 'TEXT') {
+    Object.assign(css, extractTextStyles(node));
+  } else if (!isVectorNode(node)) {
+    Object.assign(css, backgroundStyles(node, images));
+  }
+
+  if (node.type === 'ELLIPSE') {
+    css['border-radius'] = '50%';
+  } else {
+    const radius = radiusToCSS(node);
+    if (radius) css['border-radius'] = radius;
+  }
+
+  let strokeShadow: string | undefined;
+  if (node.type === 'TEXT') {
+    Object.assign(css, textStroke(node));
+  } else if (!isVectorNode(node)) {
+    const stroke = strokeStyles(node);
+    Object.assign(css, stroke.css);
+    strokeShadow = stroke.insetShadow;
+  }
+  Object.assign(css, effectStyles(node));
+
+  // Inside strokes and shadows share box-shadow
+  if (strokeShadow) {
+    css['box-shadow'] = css['box-shadow'] ? `${strokeShadow}, ${css['box-shadow']}` : strokeShadow;
+  }
+
+  if (node.opacity !== undefined && node.opacity < 1) {
+    css['opacity'] = `${Math.round(node.opacity * 100) / 100}`;
+  }
+  const blendMode = blendModeToCSS(node.blendMode);
+  if (blendMode) {
+    css['mix-blend-mode'] = blendMode;
+  }
+
+  return css;
+}
+
+function visiblePaints(paints: Paint[] | undefined): Paint[] {
+  return (paints || []).filter(p => p.visible !== false && (p.type === 'SOLID' ? p.color : p.gradientStops));
+}
+
+const IMAGE_SIZE: Record<string, string> = {
+  FILL: 'cover',
+  FIT: 'contain',
+  TILE: 'auto',
+  STRETCH: '100% 100%'
+};
+
+/**
+ * Stack the visible fills as backgrounds. Figma lists fills bottom to top
+ * and CSS lists backgrounds top to bottom; a solid bottom fill becomes the
+ * background color and any other solid layer a flat gradient.
+ */
+function backgroundStyles(node: FigmaNode, images?: ImageResolver): CSSDeclarations {
+  const css: CSSDeclarations = {};
+  const layers = (node.fills || [])
+    .filter(p => p.type === 'IMAGE'
+      ? p.visible !== false && p.imageRef && images?.(p.imageRef)
+      : visiblePaints([p]).length > 0)
+    .reverse();
+  if (layers.length === 0) return css;
+  const blendModes = layers.map(p => blendModeToCSS(p.blendMode) || 'normal');
+
+  const bottom = layers[layers.length - 1];
+  if (bottom.type === 'SOLID') {
+    css['background-color'] = paintToCSS(bottom, node)!;
+    layers.pop();
+  }
+
+  if (layers.length > 0) {
+    css['background-image'] = layers
+      .map(paint => {
+        if (paint.type === 'IMAGE') return `url(${images!(paint.imageRef!)})`;
+        const value = paintToCSS(paint, node)!;
+        return paint.type === 'SOLID' ? `linear-gradient(${value}, ${value})` : value;
+      })
+      .join(', ');
+  }
+
+  // Images are placed per layer; gradients fill the box either way
+  if (layers.some(p => p.type === 'IMAGE')) {
+    css['background-size'] = backgroundList(layers.map(p => (p.type === 'IMAGE' ? IMAGE_SIZE[p.scaleMode || 'FILL'] : 'auto')));
+    css['background-position'] = 'center';
+    css['background-repeat'] = backgroundList(layers.map(p => (p.scaleMode === 'TILE' ? 'repeat' : 'no-repeat')));
+  }
+
+  if (blendModes.some(mode => mode !== 'normal')) {
+    css['background-blend-mode'] = blendModes.join(', ');
+  }
+
+  return css;
+}
+
+/**
+ * One value per background layer, or a single value when they all agree
+ */
+function backgroundList(values: string[]): string {
+  return values.every(value => value === values[0]) ? values[0] : values.join(', ');
+}
+
+/**
+ * Convert a SOLID or gradient paint to a CSS color or gradient
+ */
+export function paintToCSS(paint: Paint, node?: FigmaNode): string | null {
+  if (paint.type === 'SOLID') {
+    return paint.color ? colorToCSS(paint.color, paint.opacity) : null;
+  }
+  if (!paint.gradientStops || !paint.gradientHandlePositions || paint.gradientHandlePositions.length < 2) {
+    return null;
+  }
+
+  const box = node?.absoluteBoundingBox || { width: 1, height: 1 };
+  const [start, end] = paint.gradientHandlePositions;
+  const dx = (end.x - start.x) * box.width;
+  const dy = (end.y - start.y) * box.height;
+  const at = `${percent(start.x)} ${percent(start.y)}`;
+
+  switch (paint.type) {
+    case 'GRADIENT_LINEAR': {
+      // Stops are placed along the handle line; CSS measures them along a
+      // line through the center whose length depends on the angle
+      const angle = Math.atan2(dy, dx) + Math.PI / 2;
+      const length = Math.abs(box.width * Math.sin(angle)) + Math.abs(box.height * Math.cos(angle));
+      const handle = Math.hypot(dx, dy);
+      const offset = (start.x - 0.5) * box.width * Math.sin(angle) - (start.y - 0.5) * box.height * Math.cos(angle);
+      const position = (stop: number) => length ? (offset + stop * handle + length / 2) / length : stop;
+      return `linear-gradient(${round(degrees(angle))}deg, ${gradientStops(paint, position, percent)})`;
+    }
+    case 'GRADIENT_RADIAL':
+    case 'GRADIENT_DIAMOND': {
+      // Diamond gradients have no CSS equivalent; a radial gradient is the closest match
+      const width = paint.gradientHandlePositions[2] || end;
+      const rx = Math.hypot(end.x - start.x, end.y - start.y);
+      const ry = Math.hypot(width.x - start.x, width.y - start.y);
+      return `radial-gradient(ellipse ${percent(rx)} ${percent(ry)} at ${at}, ${gradientStops(paint, stop => stop, percent)})`;
+    }
+    case 'GRADIENT_ANGULAR': {
+      const from = degrees(Math.atan2(dy, dx) + Math.PI / 2);
+      return `conic-gradient(from ${round(from)}deg at ${at}, ${gradientStops(paint, stop => stop, stop => `${round(stop * 360)}deg`)})`;
+    }
+    default:
+      return null;
+  }
+}
+
+function gradientStops(paint: Paint, position: (stop: number) => number, format: (value: number) => string): string {
+  return paint.gradientStops!
+    .map(stop => `${colorToCSS(stop.color, paint.opacity)} ${format(position(stop.position))}`)
+    .join(', ');
+}
+
+function degrees(radians: number): number {
+  return ((radians * 180) / Math.PI + 360) % 360;
+}
+
+function percent(value: number): string {
+  return `${round(value * 100)}%`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Uniform or per-corner border radius
+ */
+function radiusToCSS(node: FigmaNode): string | null {
+  const corners = node.rectangleCornerRadii;
+  if (corners && corners.some(r => r !== corners[0])) {
+    return corners.map(r => px(r)).join(' ');
+  }
+  const radius = corners ? corners[0] : node.cornerRadius;
+  return radius ? px(radius) : null;
+}
+
+/**
+ * Draw strokes without changing the box size: inside strokes as an inset
+ * shadow, outside and center strokes as an outline. Dashed strokes and
+ * per-side weights need a real border, which the border-box sizing absorbs.
+ */
+function strokeStyles(node: FigmaNode): { css: CSSDeclarations; insetShadow?: string } {
+  const css: CSSDeclarations = {};
+  const stroke = visiblePaints(node.strokes).pop();
+  const weight = node.strokeWeight ?? 1;
+  if (!stroke || (!weight && !node.individualStrokeWeights)) return { css };
+
+  const color = stroke.type === 'SOLID' ? paintToCSS(stroke, node)! : null;
+  const sides = node.individualStrokeWeights;
+
+  if (sides || node.strokeDashes?.length || !color) {
+    const widths = sides ? [sides.top, sides.right, sides.bottom, sides.left] : [weight];
+    css['border-width'] = widths.every(w => w === widths[0]) ? px(widths[0]) : widths.map(w => px(w)).join(' ');
+    css['border-style'] = node.strokeDashes?.length ? 'dashed' : 'solid';
+    if (color) {
+      css['border-color'] = color;
+    } else {
+      css['border-image'] = `${paintToCSS(stroke, node)} 1`;
+    }
+    css['box-sizing'] = 'border-box';
+    return { css };
+  }
+
+  switch (node.strokeAlign || 'INSIDE') {
+    case 'INSIDE':
+      return { css, insetShadow: `inset 0 0 0 ${px(weight)} ${color}` };
+    case 'OUTSIDE':
+      css['outline'] = `${px(weight)} solid ${color}`;
+      break;
+    case 'CENTER':
+      css['outline'] = `${px(weight)} solid ${color}`;
+      css['outline-offset'] = px(-weight / 2);
+      break;
+  }
+  return { css };
+}
+
+function textStroke(node: FigmaNode): CSSDeclarations {
+  const stroke = visiblePaints(node.strokes).pop();
+  if (!stroke || stroke.type !== 'SOLID' || !node.strokeWeight) return {};
+  return { '-webkit-text-stroke': `${px(node.strokeWeight)} ${paintToCSS(stroke, node)}` };
+}
+
+/**
+ * Shadows, layer blur and background blur. Figma blur radii are roughly
+ * twice the CSS standard deviation.
+ */
+function effectStyles(node: FigmaNode): CSSDeclarations {
+  const css: CSSDeclarations = {};
+  const effects = (node.effects || []).filter(e => e.visible !== false);
+
+  if (node.type === 'TEXT') {
+    const shadows = effects
+      .filter(e => e.type === 'DROP_SHADOW')
+      .map(e => `${px(e.offset?.x || 0)} ${px(e.offset?.y || 0)} ${px(e.radius || 0)} ${e.color ? colorToCSS(e.color) : 'rgba(0, 0, 0, 0.25)'}`);
+    if (shadows.length > 0) css['text-shadow'] = shadows.join(', ');
+  } else if (!isVectorNode(node)) {
+    const shadow = shadowToCSS(effects);
+    if (shadow) css['box-shadow'] = shadow;
+  } else if (effects.some(e => e.type === 'DROP_SHADOW')) {
+    // Vectors follow their outline rather than their box
+    css['filter'] = effects
+      .filter(e => e.type === 'DROP_SHADOW')
+      .map(e => `drop-shadow(${px(e.offset?.x || 0)} ${px(e.offset?.y || 0)} ${px((e.radius || 0) / 2)} ${e.color ? colorToCSS(e.color) : 'rgba(0, 0, 0, 0.25)'})`)
+      .join(' ');
+  }
+
+  const layerBlur = effects.find(e => e.type === 'LAYER_BLUR');
+  if (layerBlur) {
+    css['filter'] = [css['filter'], `blur(${px((layerBlur.radius || 0) / 2)})`].filter(Boolean).join(' ');
+  }
+  const backgroundBlur = effects.find(e => e.type === 'BACKGROUND_BLUR');
+  if (backgroundBlur) {
+    css['backdrop-filter'] = `blur(${px((backgroundBlur.radius || 0) / 2)})`;
+  }
+
+  return css;
+}
+
+const UNSUPPORTED_BLEND_MODES = ['PASS_THROUGH', 'NORMAL', 'LINEAR_BURN'];
+
+/**
+ * Map a Figma blend mode onto `mix-blend-mode`; LINEAR_BURN has no CSS counterpart
+ */
+export function blendModeToCSS(mode: string | undefined): string | null {
+  if (!mode || UNSUPPORTED_BLEND_MODES.includes(mode)) return null;
+  if (mode === 'LINEAR_DODGE') return 'plus-lighter';
+  return mode.toLowerCase().replace(/_/g, '-');
+}
+
+/**
+ * Whether the node can be drawn from its exported path geometry
+ */
+export function isVectorNode(node: FigmaNode): boolean {
+  return Boolean(node.fillGeometry?.length || node.strokeGeometry?.length) &&
+    VECTOR_TYPES.includes(node.type);
+}
+
+const VECTOR_TYPES = ['VECTOR', 'BOOLEAN_OPERATION', 'STAR', 'POLYGON', 'LINE', 'ELLIPSE', 'REGULAR_POLYGON'];
+
+/**
+ * Convert color object to hex
+ */
+export function colorToHex(fill: any): string {
+  if (fill.type !== 'SOLID' || !fill.color) return '#000000';
+
+  const { r, g, b } = fill.color;
+  const toHex = (n: number) => {
+    const hex = Math.round(n * 255).toString(16);
+    return hex.length === 1 ? '0' + hex : hex;
+  };
+
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
+}
+
+/**
+ * Convert a Figma color to hex, or to rgba() when it is translucent
+ */
+export function colorToCSS(
+  color: { r: number; g: number; b: number; a?: number },
+  opacity = 1
+): string {
+  const alpha = Math.round((color.a ?? 1) * opacity * 100) / 100;
+  if (alpha >= 1) {
+    return colorToHex({ type: 'SOLID', color });
+  }
+  const channel = (n: number) => Math.round(n * 255);
+  return `rgba(${channel(color.r)}, ${channel(color.g)}, ${channel(color.b)}, ${alpha})`;
+}
+
+/**
+ * Declarations turning `from` into `to`; those `to` leaves out go back to the browser's
+ */
+export function styleChanges(from: CSSDeclarations, to: CSSDeclarations): CSSDeclarations {
+  const changes: CSSDeclarations = {};
+  for (const [property, value] of Object.entries(to)) {
+    if (from[property] !== value) changes[property] = value;
+  }
+  for (const property of Object.keys(from)) {
+    if (!(property in to)) changes[property] = 'revert';
+  }
+  return changes;
+}
+
+/**
+ * Convert DROP_SHADOW/INNER_SHADOW effects to a `box-shadow` value
+ */
+export function shadowToCSS(effects: Effect[]): string | null {
+  const shadows = effects
+    .filter(e => e.visible !== false && (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW'))
+    .map(e => {
+      const offset = e.offset || { x: 0, y: 0 };
+      const color = e.color ? colorToCSS(e.color) : 'rgba(0, 0, 0, 0.25)';
+      const inset = e.type === 'INNER_SHADOW' ? 'inset ' : '';
+      return `${inset}${px(offset.x)} ${px(offset.y)} ${px(e.radius || 0)} ${px(e.spread || 0)} ${color}`;
+    });
+
+  return shadows.length > 0 ? shadows.join(', ') : null;
+}
+
+/**
+ * Quote font family names that need it
+ */
+export function fontFamilyToCSS(family: string): string {
+  return /^[a-zA-Z-]+$/.test(family) ? family : `"${family}"`;
+}
+
+/**
+ * Format a pixel value, trimming floating point noise from Figma coordinates
+ */
+export function px(value: number): string {
+  return `${Math.round(value * 100) / 100}px`;
+}
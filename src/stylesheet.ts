@@ -0,0 +1,201 @@
+import { hasStateStyles, RenderElement } from './renderer';
+import type { CSSDeclarations } from './styles';
+
+export interface StyleRule {
+  className: string;
+  selector: string;
+  declarations: CSSDeclarations;
+  /** Viewport width, in px, from which the rule applies; always when unset */
+  minWidth?: number;
+}
+
+/**
+ * Stylesheet classes an element renders with, replacing its inline styles
+ */
+export interface ElementClasses {
+  name?: string;
+  /** Class name lookups that switch on component props; '' where nothing applies */
+  variants: Array<{ props: string[]; cases: Record<string, any> }>;
+}
+
+export interface StylesheetOptions {
+  naming: 'camelCase' | 'kebab-case';
+  /**
+   * Target instances through their parent with `:global()`, for frameworks
+   * whose scoped styles don't reach child component roots (Svelte)
+   */
+  globalInstances?: boolean;
+}
+
+/**
+ * Move the styles of every element in the tree into stylesheet rules, with one
+ * class per styled layer named after the layer, e.g. "Login Card" → `loginCard`
+ */
+export function extractStylesheet(tree: RenderElement, options: StylesheetOptions): StyleRule[] {
+  const rules: StyleRule[] = [];
+  const used = new Set<string>();
+
+  const reserve = (base: string) => {
+    let name = base;
+    for (let i = 2; used.has(name); i++) {
+      name = options.naming === 'camelCase' ? `${base}${i}` : `${base}-${i}`;
+    }
+    used.add(name);
+    return name;
+  };
+
+  // Hover and press rules of the layers select them under the root's class
+  let root: string | undefined;
+  const anchorsStates = (element: RenderElement) => element === tree && hasStateStyles(tree);
+
+  const visit = (element: RenderElement, parent?: RenderElement) => {
+    const styled = Object.keys(element.styles).length > 0 ||
+      Boolean(element.variantStyles?.length) ||
+      Boolean(element.mediaStyles?.length) ||
+      Boolean(element.stateStyles?.length);
+    const hasInstances = options.globalInstances && element.children.some(child => child.instance);
+
+    if (styled || hasInstances || anchorsStates(element)) {
+      // Scoped styles also reach the roots of child components, so instance
+      // classes are qualified by their parent to stay clear of the child's own classes
+      const base = reserve(className(
+        element.instance && parent ? [parent.classes?.name || parent.node.name, element.node.name] : [element.node.name],
+        options.naming
+      ));
+      const classes: ElementClasses = { variants: [] };
+      const selector = (name: string) =>
+        options.globalInstances && element.instance && parent?.classes?.name
+          ? `.${parent.classes.name} > :global(.${name})`
+          : `.${name}`;
+      const stateSelector = (name: string, state: string) => {
+        if (element === tree) return `${selector(name)}:${state}`;
+        const plain = selector(name);
+        // Layers right below the root are already selected through it
+        return plain.startsWith(`.${root} `)
+          ? plain.replace(`.${root} `, `.${root}:${state} `)
+          : `.${root}:${state} ${plain}`;
+      };
+      const states = element.stateStyles || [];
+
+      if (Object.keys(element.styles).length > 0 || element.mediaStyles?.length || hasInstances ||
+          anchorsStates(element) || states.some(state => state.props.length === 0)) {
+        classes.name = base;
+        if (element === tree) root = base;
+        if (Object.keys(element.styles).length > 0) {
+          rules.push({ className: base, selector: selector(base), declarations: element.styles });
+        }
+        for (const { breakpoint, styles } of element.mediaStyles || []) {
+          rules.push({ className: base, selector: selector(base), declarations: styles, minWidth: breakpoint.minWidth });
+        }
+      }
+
+      for (const variant of element.variantStyles || []) {
+        classes.variants.push({
+          props: variant.props,
+          cases: nameCases(variant.cases, variant.props.length, [], (path, declarations) => {
+            if (Object.keys(declarations).length === 0) return '';
+            const name = reserve(className([base, ...path], options.naming));
+            rules.push({ className: name, selector: selector(name), declarations });
+            return name;
+          })
+        });
+      }
+
+      for (const { state, props, cases } of states) {
+        if (props.length === 0) {
+          rules.push({ className: base, selector: stateSelector(base, state), declarations: cases });
+          continue;
+        }
+        classes.variants.push({
+          props,
+          cases: nameCases(cases, props.length, [], (path, declarations) => {
+            if (Object.keys(declarations).length === 0) return '';
+            const name = reserve(className([base, ...path, state], options.naming));
+            rules.push({ className: name, selector: stateSelector(name, state), declarations });
+            return name;
+          })
+        });
+      }
+
+      element.classes = classes;
+      element.styles = {};
+      element.variantStyles = undefined;
+      element.mediaStyles = undefined;
+      element.stateStyles = undefined;
+    }
+
+    for (const span of element.spans || []) {
+      visit(span, element);
+    }
+    for (const child of element.children) {
+      visit(child, element);
+    }
+    for (const slot of Object.values(element.instance?.slots || {})) {
+      visit(slot, element);
+    }
+  };
+
+  visit(tree);
+  return rules;
+}
+
+function nameCases(
+  cases: Record<string, any>,
+  depth: number,
+  path: string[],
+  toName: (path: string[], declarations: CSSDeclarations) => string
+): any {
+  if (depth === 0) return toName(path, cases);
+  const named: Record<string, any> = {};
+  for (const [key, value] of Object.entries(cases)) {
+    named[key] = nameCases(value, depth - 1, [...path, key], toName);
+  }
+  return named;
+}
+
+/**
+ * Build a class name from layer names and variant values
+ */
+function className(parts: string[], naming: StylesheetOptions['naming']): string {
+  const words = parts.flatMap(part => part.split(/[^a-zA-Z0-9]+/)).filter(Boolean);
+  if (words.length === 0) words.push('layer');
+  if (/^[0-9]/.test(words[0])) words.unshift('layer');
+
+  if (naming === 'kebab-case') {
+    return words
+      .flatMap(word => word.split(/(?<=[a-z0-9])(?=[A-Z])/))
+      .map(word => word.toLowerCase())
+      .join('-');
+  }
+  return words
+    .map(word => (word === word.toUpperCase() ? word.toLowerCase() : word))
+    .map((word, i) => i === 0
+      ? word.charAt(0).toLowerCase() + word.slice(1)
+      : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+}
+
+/**
+ * Serialize rules as CSS, with the rules of each breakpoint in one media
+ * query after the rules that always apply, narrowest breakpoint first
+ */
+export function generateStylesheet(rules: StyleRule[], indent = ''): string {
+  const serialize = (group: StyleRule[], indent: string) => group
+    .map(rule => [
+      `${indent}${rule.selector} {`,
+      ...Object.entries(rule.declarations).map(([property, value]) => `${indent}  ${property}: ${value};`),
+      `${indent}}`
+    ].join('\n'))
+    .join('\n\n');
+
+  const widths = Array.from(new Set(rules.flatMap(rule => (rule.minWidth === undefined ? [] : [rule.minWidth]))))
+    .sort((a, b) => a - b);
+  return [
+    serialize(rules.filter(rule => rule.minWidth === undefined), indent),
+    ...widths.map(width => [
+      `${indent}@media (min-width: ${width}px) {`,
+      serialize(rules.filter(rule => rule.minWidth === width), `${indent}  `),
+      `${indent}}`
+    ].join('\n'))
+  ].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,171 @@
+import { svgMarkup } from './assets';
+import { objectLiteral } from './component-tests';
+import type { FrameworkGenerator, GeneratorOptions } from './generator';
+import { stateVariable } from './interactions';
+import { ComponentIR, importPath } from './ir';
+import { keepRegion } from './manifest';
+import { DIALECTS, jsLiteral, MarkupDialect, renderMarkup } from './renderer';
+import { presentationRole } from './semantics';
+import { defaultExportStories } from './stories';
+import { generateStylesheet } from './stylesheet';
+import { propTypeScript } from './variants';
+
+/**
+ * Svelte 5 markup: instance swaps are snippet props, rendered with `{@render}`
+ * and passed to child components as `{#snippet}` blocks
+ */
+const RUNES_DIALECT: MarkupDialect = {
+  ...DIALECTS.svelte,
+  instanceSlot: (name, slot, options, depth) => {
+    const indent = '  '.repeat(depth);
+    return { child: `${indent}{#snippet ${name}()}\n${renderMarkup(slot, options, depth + 1)}\n${indent}{/snippet}` };
+  },
+  wrap: (element, markup, indent) => {
+    let wrapped = markup;
+    const inner = element.condition ? `${indent}  ` : indent;
+    if (element.slot) {
+      wrapped = `${inner}{#if ${element.slot}}\n${inner}  {@render ${element.slot}()}\n${inner}{:else}\n${wrapped}\n${inner}{/if}`;
+    }
+    return element.condition ? `${indent}{#if ${element.condition}}\n${wrapped}\n${indent}{/if}` : wrapped;
+  },
+  clickHandler: statement => `onclick={() => ${statement}}`
+};
+
+/**
+ * Svelte components with scoped styles, with Svelte 5 runes (the default)
+ * or Svelte 3/4 `export let` props and slots
+ */
+export const svelteGenerator: FrameworkGenerator = {
+  name: 'svelte',
+  extension: () => 'svelte',
+  dialects: ['runes', 'legacy'],
+  // Scoped styles don't reach the roots of child components
+  stylesheet: { naming: 'kebab-case', globalInstances: true },
+  stories: defaultExportStories('@storybook/svelte', options => (options.typescript ? 'ts' : 'js')),
+  tests: {
+    library: '@testing-library/svelte',
+    extension: options => (options.typescript ? 'test.ts' : 'test.js'),
+    imports: (ir, testFile) => `import ${ir.name} from '${importPath(testFile, ir.filename)}';\n`,
+    render: (ir, props, className) => {
+      const all = className ? { ...props, class: jsLiteral(className) } : props;
+      return Object.keys(all).length ? `render(${ir.name}, { props: ${objectLiteral(all)} })` : `render(${ir.name})`;
+    },
+    forwardsClass: true
+  },
+  indexExport: ({ name, filename }) => `export { default as ${name} } from '${importPath('index', filename)}';`,
+
+  generate(ir, options) {
+    const runes = options.dialect !== 'legacy';
+    const inlineStyles = options.styling === 'inline';
+    const markup = renderMarkup(ir.tree, {
+      dialect: runes ? RUNES_DIALECT : DIALECTS.svelte,
+      tailwind: options.styling === 'tailwind',
+      // Overlays set their open prop, bound by the parent with `bind:menuOpen`
+      interactions: {
+        states: Object.fromEntries(ir.states.map(p => [p.name, stateVariable(p.name)])),
+        setState: (prop, value) => `${stateVariable(prop)} = ${value}`,
+        setOpen: (prop, open) => `${prop} = ${open}`
+      }
+    }, 0, {
+      classProp: 'className',
+      attributes: [...presentationRole(ir.tree), 'data-testid="{testId}"'],
+      slot: runes ? '{@render children?.()}' : '<slot></slot>',
+      styleProp: inlineStyles ? 'style' : undefined
+    });
+    const imports = [
+      ...ir.components.map(c => `  import ${c.name} from '${importPath(ir.filename, c.filename)}';\n`),
+      ...ir.assets.map(a => `  import ${a.importName} from '${importPath(ir.filename, a.filename)}';\n`)
+    ].join('');
+
+    const code = `${runes ? runesScript(ir, imports, options) : legacyScript(ir, imports, options)}
+
+${markup}
+${ir.rules.length ? `
+<style>
+${generateStylesheet(ir.rules, '  ')}
+
+${keepRegion('styles', '  ', 'css')}
+</style>
+` : ''}`;
+
+    return [{ filename: ir.filename, code }];
+  },
+
+  generateIcon(icon, options) {
+    if (options.dialect === 'legacy') {
+      return [{ filename: icon.filename, code: `${svgMarkup(icon.svg, '{...$$restProps}')}\n` }];
+    }
+    const code = `<script${options.typescript ? ' lang="ts"' : ''}>
+  const props = $props();
+</script>
+
+${svgMarkup(icon.svg, '{...props}')}
+`;
+    return [{ filename: icon.filename, code }];
+  }
+};
+
+/**
+ * Props destructured from `$props()`, with instance swaps and children as snippets
+ */
+function runesScript(ir: ComponentIR, imports: string, options: GeneratorOptions): string {
+  const isTS = options.typescript;
+  const inlineStyles = options.styling === 'inline';
+
+  const bindings = [
+    ...ir.props.map(p => {
+      if (p.kind === 'instance') return p.name;
+      return p.overlay ? `${p.name} = $bindable(${jsLiteral(p.defaultValue)})` : `${p.name} = ${jsLiteral(p.defaultValue)}`;
+    }),
+    'children',
+    "class: className = ''",
+    ...(inlineStyles ? ["style = ''"] : [])
+  ];
+  const destructure = bindings.join(', ').length > 60
+    ? `{\n${bindings.map(b => `    ${b}`).join(',\n')}\n  }`
+    : `{ ${bindings.join(', ')} }`;
+  const propsInterface = isTS ? `
+  interface Props {
+${ir.props.map(p => `    ${p.name}?: ${propTypeScript(p, 'Snippet')};\n`).join('')}    children?: Snippet;
+    class?: string;${inlineStyles ? '\n    style?: string;' : ''}
+  }
+` : '';
+
+  return `<script${isTS ? ' lang="ts"' : ''}>
+${isTS ? "  import type { Snippet } from 'svelte';\n" : ''}${imports}${keepRegion('imports', '  ')}
+${propsInterface}
+  let ${destructure}${isTS ? ': Props' : ''} = $props();
+
+  const testId = '${ir.testId}';
+${ir.states.map(p => `  let ${stateVariable(p.name)} = $state(${p.name});\n`).join('')}
+${keepRegion('logic', '  ')}
+</script>`;
+}
+
+/**
+ * Svelte 3/4 `export let` props, with `class` exported under another name
+ */
+function legacyScript(ir: ComponentIR, imports: string, options: GeneratorOptions): string {
+  const isTS = options.typescript;
+  const inlineStyles = options.styling === 'inline';
+  const propDeclarations = ir.props
+    .filter(p => p.kind !== 'instance')
+    .map(p => `  export let ${p.name}${isTS ? `: ${propTypeScript(p, '')}` : ''} = ${jsLiteral(p.defaultValue)};\n`)
+    .join('');
+
+  return `<script${isTS ? ' lang="ts"' : ''}>
+${imports}${propDeclarations}  let className = '';
+  export { className as class };${inlineStyles ? `
+  export let style = '';` : ''}
+
+  ${isTS ? `
+  interface Props {
+    class?: string;
+  }
+  ` : ''}
+
+  const testId = '${ir.testId}';
+${ir.states.map(p => `  let ${stateVariable(p.name)} = ${p.name};\n`).join('')}
+${keepRegion('logic', '  ')}
+</script>`;
+}
@@ -0,0 +1,309 @@
+import type { PointerState } from './interactions';
+import type { CSSDeclarations } from './styles';
+import { parseTokenReference } from './tokens';
+
+const FONT_SIZES: Record<string, string> = {
+  '12px': 'xs',
+  '14px': 'sm',
+  '16px': 'base',
+  '18px': 'lg',
+  '20px': 'xl',
+  '24px': '2xl',
+  '30px': '3xl',
+  '36px': '4xl',
+  '48px': '5xl',
+  '60px': '6xl',
+  '72px': '7xl',
+  '96px': '8xl',
+  '128px': '9xl'
+};
+
+const FONT_WEIGHTS: Record<string, string> = {
+  '100': 'thin',
+  '200': 'extralight',
+  '300': 'light',
+  '400': 'normal',
+  '500': 'medium',
+  '600': 'semibold',
+  '700': 'bold',
+  '800': 'extrabold',
+  '900': 'black'
+};
+
+const SPACING_SCALE = [
+  0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16,
+  20, 24, 28, 32, 36, 40, 44, 48, 52, 56, 60, 64, 72, 80, 96
+];
+
+const FLEX_ALIGN: Record<string, string> = {
+  'flex-start': 'start',
+  'flex-end': 'end',
+  'center': 'center',
+  'baseline': 'baseline',
+  'stretch': 'stretch',
+  'space-between': 'between',
+  'start': 'start',
+  'end': 'end'
+};
+
+const TRANSFORMS: Record<string, string> = {
+  'translate(-50%, -50%)': '-translate-x-1/2 -translate-y-1/2',
+  'translateX(-50%)': '-translate-x-1/2',
+  'translateY(-50%)': '-translate-y-1/2'
+};
+
+/**
+ * Translate CSS declarations into Tailwind utility classes.
+ * Anything without a dedicated utility falls back to an arbitrary property.
+ */
+export function cssToTailwind(css: CSSDeclarations): string[] {
+  const classes: string[] = [];
+
+  for (const [property, value] of Object.entries(css)) {
+    const utility = toUtility(property, value);
+    if (utility) {
+      classes.push(utility);
+    }
+  }
+
+  return classes;
+}
+
+const THEME_PREFIXES: Record<string, string> = {
+  'background-color': 'bg',
+  'color': 'text',
+  'border-color': 'border',
+  'fill': 'fill',
+  'stroke': 'stroke',
+  'font-size': 'text',
+  'font-family': 'font',
+  'font-weight': 'font',
+  'line-height': 'leading',
+  'letter-spacing': 'tracking',
+  'border-radius': 'rounded',
+  'box-shadow': 'shadow'
+};
+
+/**
+ * Tailwind screens by the viewport width they start at
+ */
+const SCREENS: Record<number, string> = {
+  640: 'sm',
+  768: 'md',
+  1024: 'lg',
+  1280: 'xl',
+  1536: '2xl'
+};
+
+/**
+ * Utility classes applying CSS declarations from a viewport width up,
+ * e.g. `md:flex-row`, with an arbitrary `min-[900px]:` off the default screens
+ */
+export function screenClasses(css: CSSDeclarations, minWidth: number): string[] {
+  const prefix = SCREENS[minWidth] || `min-[${minWidth}px]`;
+  return cssToTailwind(css)
+    .flatMap(utility => utility.split(' '))
+    .map(utility => `${prefix}:${utility}`);
+}
+
+/**
+ * Utility classes applying CSS declarations while the component is hovered or
+ * pressed: `hover:` on its root, `group-hover/<group>:` on the layers below it
+ */
+export function stateClasses(css: CSSDeclarations, state: PointerState, group?: string): string[] {
+  const prefix = group ? `group-${state}/${group}` : state;
+  return cssToTailwind(css)
+    .flatMap(utility => utility.split(' '))
+    .map(utility => `${prefix}:${utility}`);
+}
+
+function toUtility(property: string, value: string): string | null {
+  // Declarations undone at a breakpoint have no utility of their own
+  if (value === 'revert') return `[${property}:revert]`;
+  const token = parseTokenReference(value);
+  if (token && THEME_PREFIXES[property]) {
+    return `${THEME_PREFIXES[property]}-${token.key}`;
+  }
+  if (token && !['gap', 'padding', 'top', 'right', 'bottom', 'left'].includes(property)) {
+    return `[${property}:${value}]`;
+  }
+
+  switch (property) {
+    case 'width':
+      return `w-${arbitrary(value)}`;
+    case 'height':
+      return `h-${arbitrary(value)}`;
+    case 'background-color':
+      return value === 'transparent' ? 'bg-transparent' : `bg-${arbitrary(value)}`;
+    case 'color':
+      return ['transparent', 'inherit'].includes(value) ? `text-${value}` : `text-${arbitrary(value)}`;
+    case 'background-size':
+      return ['cover', 'contain', 'auto'].includes(value) ? `bg-${value}` : `bg-[length:${escapeArbitrary(value)}]`;
+    case 'background-position':
+      return value === 'center' ? 'bg-center' : `bg-[position:${escapeArbitrary(value)}]`;
+    case 'background-repeat':
+      return ['repeat', 'no-repeat'].includes(value) ? `bg-${value}` : `[background-repeat:${escapeArbitrary(value)}]`;
+    case 'background-clip':
+      return value === 'text' ? 'bg-clip-text' : `[background-clip:${value}]`;
+    case '-webkit-background-clip':
+      // Emitted alongside background-clip, which bg-clip-text already covers
+      return null;
+    case 'font-size':
+      return `text-${FONT_SIZES[value] || arbitrary(value)}`;
+    case 'font-weight':
+      return `font-${FONT_WEIGHTS[value] || arbitrary(value)}`;
+    case 'font-family':
+      // Single quotes keep quoted families valid inside class attributes
+      return `font-${arbitrary(value.replace(/"/g, "'"))}`;
+    case 'font-style':
+      return value === 'italic' ? 'italic' : 'not-italic';
+    case 'line-height':
+      return value === 'normal' ? 'leading-normal' : `leading-${arbitrary(value)}`;
+    case 'letter-spacing':
+      return `tracking-${arbitrary(value)}`;
+    case 'text-align':
+      return value === 'inherit' ? '[text-align:inherit]' : `text-${value}`;
+    case 'text-transform':
+      return value === 'none' ? 'normal-case' : value;
+    case 'text-decoration':
+      return value === 'none' ? 'no-underline' : value;
+    case 'white-space':
+      return `whitespace-${value}`;
+    case 'overflow':
+      return `overflow-${value}`;
+    case 'text-overflow':
+      return value === 'ellipsis' ? 'text-ellipsis' : 'text-clip';
+    case '-webkit-line-clamp':
+      return `line-clamp-${value}`;
+    case '-webkit-box-orient':
+      // Part of line-clamp-*
+      return null;
+    case 'margin':
+      return value === '0' ? 'm-0' : `m-${arbitrary(value)}`;
+    case 'border-radius':
+      return value === '50%' ? 'rounded-full' : `rounded-${arbitrary(value)}`;
+    case 'border-width':
+      return value === '1px' ? 'border' : `border-${arbitrary(value)}`;
+    case 'border-style':
+      return `border-${value}`;
+    case 'border-color':
+      return `border-${arbitrary(value)}`;
+    case 'opacity': {
+      const percent = Math.round(parseFloat(value) * 100);
+      return percent % 5 === 0 ? `opacity-${percent}` : `opacity-${arbitrary(value)}`;
+    }
+    case 'mix-blend-mode':
+      return `mix-blend-${value}`;
+    case 'filter':
+    case 'backdrop-filter': {
+      const blur = value.match(/^blur\((.+)\)$/);
+      const prefix = property === 'filter' ? 'blur' : 'backdrop-blur';
+      return blur ? `${prefix}-${arbitrary(blur[1])}` : `[${property}:${escapeArbitrary(value)}]`;
+    }
+    case 'display':
+      if (value === '-webkit-box') return null;
+      return value === 'none' ? 'hidden' : value;
+    case 'flex-direction':
+      return value === 'column' ? 'flex-col' : 'flex-row';
+    case 'flex-wrap':
+      return value === 'wrap' ? 'flex-wrap' : 'flex-nowrap';
+    case 'flex':
+      return value === '1 1 0' ? 'flex-1' : `flex-${arbitrary(value)}`;
+    case 'flex-shrink':
+      return value === '0' ? 'shrink-0' : 'shrink';
+    case 'gap':
+      return boxUtility(value, ['gap', 'gap-y', 'gap-x']);
+    case 'padding':
+      return boxUtility(value, ['p', 'py', 'px', 'pt', 'pr', 'pb', 'pl']);
+    case 'justify-content':
+      return FLEX_ALIGN[value] ? `justify-${FLEX_ALIGN[value]}` : null;
+    case 'align-items':
+      return FLEX_ALIGN[value] ? `items-${FLEX_ALIGN[value]}` : null;
+    case 'align-content':
+      return FLEX_ALIGN[value] ? `content-${FLEX_ALIGN[value]}` : null;
+    case 'align-self':
+      return FLEX_ALIGN[value] ? `self-${FLEX_ALIGN[value]}` : null;
+    case 'justify-self':
+      return FLEX_ALIGN[value] ? `justify-self-${FLEX_ALIGN[value]}` : null;
+    case 'min-width':
+      return value === '0' ? 'min-w-0' : `min-w-${arbitrary(value)}`;
+    case 'min-height':
+      return value === '0' ? 'min-h-0' : `min-h-${arbitrary(value)}`;
+    case 'box-sizing':
+      return value === 'border-box' ? 'box-border' : 'box-content';
+    case 'position':
+      return value;
+    case 'inset':
+      return `inset-${spacing(value)}`;
+    case 'top':
+    case 'right':
+    case 'bottom':
+    case 'left':
+      return `${property}-${spacing(value)}`;
+    case 'transform':
+      return TRANSFORMS[value] || `[transform:${escapeArbitrary(value)}]`;
+    case 'grid-template-columns':
+      return `grid-cols-${gridTracks(value)}`;
+    case 'grid-template-rows':
+      return `grid-rows-${gridTracks(value)}`;
+    case 'grid-column':
+      return gridPlacement('col', value);
+    case 'grid-row':
+      return gridPlacement('row', value);
+    default:
+      return `[${property}:${escapeArbitrary(value)}]`;
+  }
+}
+
+/**
+ * Map a spacing value onto the default scale, e.g. `16px` → `4`
+ */
+export function spacing(value: string): string {
+  const token = parseTokenReference(value);
+  if (token?.category === 'spacing') return token.key;
+
+  const match = value.match(/^(-?[\d.]+)px$/);
+  if (match) {
+    const step = parseFloat(match[1]) / 4;
+    if (SPACING_SCALE.includes(step)) return `${step}`;
+  }
+  if (value === '0') return '0';
+  return arbitrary(value);
+}
+
+/**
+ * Expand a 1-4 value shorthand (padding, gap) into the tightest utilities.
+ * `prefixes` lists the all/vertical/horizontal/top/right/bottom/left forms.
+ */
+function boxUtility(value: string, prefixes: string[]): string {
+  const parts = value.split(/\s+/);
+  const [all, y, x, top, right, bottom, left] = prefixes;
+
+  if (parts.length === 1) return `${all}-${spacing(parts[0])}`;
+  if (parts.length === 2) return `${y}-${spacing(parts[0])} ${x}-${spacing(parts[1])}`;
+
+  const [t, r, b = t, l = r] = parts;
+  return `${top}-${spacing(t)} ${right}-${spacing(r)} ${bottom}-${spacing(b)} ${left}-${spacing(l)}`;
+}
+
+function gridTracks(value: string): string {
+  const match = value.match(/^repeat\((\d+), minmax\(0, 1fr\)\)$/);
+  return match ? match[1] : arbitrary(value);
+}
+
+function gridPlacement(axis: 'col' | 'row', value: string): string {
+  const match = value.match(/^(\d+) \/ span (\d+)$/);
+  if (!match) return `${axis}-${arbitrary(value)}`;
+  return `${axis}-start-${match[1]} ${axis}-span-${match[2]}`;
+}
+
+/**
+ * Wrap a raw value as a Tailwind arbitrary value, e.g. `[12px]`
+ */
+export function arbitrary(value: string): string {
+  return `[${escapeArbitrary(value)}]`;
+}
+
+function escapeArbitrary(value: string): string {
+  return value.replace(/\s+/g, '_');
+}
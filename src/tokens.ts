@@ -0,0 +1,597 @@
+import type { FigmaNode } from './index';
+import type {
+  FigmaFile,
+  FigmaStyleMeta,
+  FigmaVariable,
+  FigmaVariableCollection,
+  FigmaVariableValue
+} from './figma-client';
+import { CSSDeclarations, colorToCSS, fontFamilyToCSS, px, shadowToCSS } from './styles';
+import { lineHeightToCSS } from './typography';
+
+export type TokenCategory =
+  | 'color'
+  | 'font-family'
+  | 'font-size'
+  | 'font-weight'
+  | 'line-height'
+  | 'letter-spacing'
+  | 'radius'
+  | 'spacing'
+  | 'shadow'
+  | 'grid'
+  | 'number'
+  | 'string'
+  | 'boolean';
+
+export interface DesignToken {
+  /** Dash-separated name within its category, e.g. `primary-500` */
+  key: string;
+  category: TokenCategory;
+  /** CSS value in the default mode */
+  value: string;
+  /** CSS values for the other variable modes, keyed by mode name */
+  modes?: Record<string, string>;
+  description?: string;
+  source: 'style' | 'variable' | 'raw';
+  styleId?: string;
+  variableId?: string;
+}
+
+export interface TokenSet {
+  tokens: DesignToken[];
+}
+
+/**
+ * Everything token extraction reads from a Figma file
+ */
+export interface TokenSource {
+  document: FigmaNode;
+  styles?: Record<string, FigmaStyleMeta>;
+  variables?: Record<string, FigmaVariable>;
+  variableCollections?: Record<string, FigmaVariableCollection>;
+}
+
+const CATEGORIES: TokenCategory[] = [
+  'color', 'font-family', 'font-size', 'font-weight', 'line-height', 'letter-spacing',
+  'radius', 'spacing', 'shadow', 'grid', 'number', 'string', 'boolean'
+];
+
+/**
+ * Build a token source from a file fetched with `fetchFigmaFile`
+ */
+export function tokenSourceFromFile(file: FigmaFile): TokenSource {
+  return {
+    document: file.raw,
+    styles: file.styles,
+    variables: file.variables,
+    variableCollections: file.variableCollections
+  };
+}
+
+/**
+ * Build a token source from an exported Figma JSON file. Variables are read
+ * from either the top level or the `meta` block of a `/variables/local` response.
+ */
+export function tokenSourceFromJSON(data: any): TokenSource {
+  return {
+    document: data.document,
+    styles: data.styles,
+    variables: data.variables ?? data.meta?.variables,
+    variableCollections: data.variableCollections ?? data.meta?.variableCollections
+  };
+}
+
+/**
+ * Combine the token sources of several files, e.g. the exports of a batch,
+ * into one: their documents side by side, their styles and variables together.
+ */
+export function mergeTokenSources(sources: TokenSource[]): TokenSource {
+  return {
+    document: {
+      id: '0:0',
+      name: 'Document',
+      type: 'DOCUMENT',
+      children: sources.map(source => source.document).filter(Boolean)
+    } as FigmaNode,
+    styles: Object.assign({}, ...sources.map(source => source.styles)),
+    variables: Object.assign({}, ...sources.map(source => source.variables)),
+    variableCollections: Object.assign({}, ...sources.map(source => source.variableCollections))
+  };
+}
+
+/**
+ * Collect tokens from Figma Variables, published styles and, last, the raw
+ * values used across the document. A raw value that equals a named token is
+ * folded into it instead of producing a duplicate.
+ */
+export function extractTokens(source: TokenSource): TokenSet {
+  const registry = new TokenRegistry();
+
+  collectVariableTokens(source, registry);
+  collectStyleTokens(source, registry);
+  collectRawTokens(source.document, registry);
+
+  return { tokens: registry.tokens };
+}
+
+class TokenRegistry {
+  readonly tokens: DesignToken[] = [];
+  private names = new Set<string>();
+  private values = new Set<string>();
+
+  add(token: DesignToken): DesignToken {
+    let key = token.key || token.category;
+    for (let i = 2; this.names.has(`${token.category}-${key}`); i++) {
+      key = `${token.key}-${i}`;
+    }
+    const added = { ...token, key };
+    this.names.add(`${token.category}-${key}`);
+    this.tokens.push(added);
+    this.trackValue(added);
+    return added;
+  }
+
+  /**
+   * Record a token's value so later raw values fold into it
+   */
+  trackValue(token: DesignToken): void {
+    if (token.value) {
+      this.values.add(`${token.category}|${token.value}`);
+    }
+  }
+
+  hasValue(category: TokenCategory, value: string): boolean {
+    return this.values.has(`${category}|${value}`);
+  }
+}
+
+function collectVariableTokens(source: TokenSource, registry: TokenRegistry): void {
+  const variables = Object.values(source.variables || {});
+  const collections = source.variableCollections || {};
+  const byId = new Map<string, DesignToken>();
+
+  // First pass names every variable so aliases can point at any of them
+  for (const variable of variables) {
+    const category = variableCategory(variable);
+    byId.set(variable.id, registry.add({
+      key: tokenKey(variable.name, category),
+      category,
+      value: '',
+      description: variable.description || undefined,
+      source: 'variable',
+      variableId: variable.id
+    }));
+  }
+
+  for (const variable of variables) {
+    const token = byId.get(variable.id)!;
+    const collection = collections[variable.variableCollectionId];
+    const defaultMode = collection?.defaultModeId ?? Object.keys(variable.valuesByMode)[0];
+    const format = (value: FigmaVariableValue) => variableValueToCSS(value, token.category, byId);
+
+    token.value = format(variable.valuesByMode[defaultMode]);
+    registry.trackValue(token);
+
+    for (const mode of collection?.modes || []) {
+      if (mode.modeId === defaultMode || !(mode.modeId in variable.valuesByMode)) continue;
+      const value = format(variable.valuesByMode[mode.modeId]);
+      if (value !== token.value) {
+        token.modes = { ...token.modes, [slugify(mode.name)]: value };
+      }
+    }
+  }
+}
+
+function variableCategory(variable: FigmaVariable): TokenCategory {
+  const name = variable.name.toLowerCase();
+
+  switch (variable.resolvedType) {
+    case 'COLOR':
+      return 'color';
+    case 'BOOLEAN':
+      return 'boolean';
+    case 'STRING':
+      return /font|family|typeface/.test(name) ? 'font-family' : 'string';
+    default:
+      if (/radius|corner|round/.test(name)) return 'radius';
+      if (/font.?size|text.?size/.test(name)) return 'font-size';
+      if (/weight/.test(name)) return 'font-weight';
+      if (/line.?height|leading/.test(name)) return 'line-height';
+      if (/letter|tracking/.test(name)) return 'letter-spacing';
+      if (/spac|gap|padding|margin|inset/.test(name)) return 'spacing';
+      return 'number';
+  }
+}
+
+function variableValueToCSS(
+  value: FigmaVariableValue,
+  category: TokenCategory,
+  byId: Map<string, DesignToken>
+): string {
+  if (value === undefined || value === null) return '';
+
+  if (typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS') {
+    const target = byId.get(value.id);
+    return target ? tokenReference(target) : '';
+  }
+  if (typeof value === 'object' && 'r' in value) {
+    return colorToCSS(value);
+  }
+  if (typeof value === 'number') {
+    return ['radius', 'spacing', 'font-size', 'line-height', 'letter-spacing'].includes(category)
+      ? px(value)
+      : `${value}`;
+  }
+  if (typeof value === 'string') {
+    return category === 'font-family' ? fontFamilyToCSS(value) : JSON.stringify(value);
+  }
+  return value ? '1' : '0';
+}
+
+function collectStyleTokens(source: TokenSource, registry: TokenRegistry): void {
+  const styles = source.styles || {};
+  const usages = new Map<string, FigmaNode>();
+
+  walk(source.document, node => {
+    for (const styleId of Object.values(node.styles || {})) {
+      if (styleId && !usages.has(styleId)) {
+        usages.set(styleId, node);
+      }
+    }
+  });
+
+  for (const [styleId, meta] of Object.entries(styles)) {
+    const node = usages.get(styleId);
+    if (!node) continue;
+
+    const add = (category: TokenCategory, value: string | null | undefined, suffix = '') => {
+      if (!value || (category !== 'grid' && registry.hasValue(category, value))) return;
+      registry.add({
+        key: tokenKey(meta.name, category) + suffix,
+        category,
+        value,
+        description: meta.description || undefined,
+        source: 'style',
+        styleId
+      });
+    };
+
+    switch (meta.styleType) {
+      case 'FILL': {
+        const fill = node.fills?.filter(f => f.type === 'SOLID' && f.color && f.visible !== false).pop();
+        add('color', fill ? colorToCSS(fill.color!, fill.opacity) : null);
+        break;
+      }
+      case 'TEXT': {
+        const style = node.style || {};
+        add('font-family', style.fontFamily ? fontFamilyToCSS(style.fontFamily) : null);
+        add('font-size', fontSizeOf(node) ? px(fontSizeOf(node)!) : null);
+        add('font-weight', style.fontWeight ? `${style.fontWeight}` : null);
+        add('line-height', lineHeightToCSS(style));
+        add('letter-spacing', style.letterSpacing ? px(style.letterSpacing) : null);
+        break;
+      }
+      case 'EFFECT':
+        add('shadow', node.effects ? shadowToCSS(node.effects) : null);
+        break;
+      case 'GRID': {
+        const grid = node.layoutGrids?.[0];
+        if (!grid) break;
+        add('grid', grid.count ? `${grid.count}` : null, '-count');
+        add('grid', grid.gutterSize !== undefined ? px(grid.gutterSize) : null, '-gutter');
+        add('grid', grid.offset !== undefined ? px(grid.offset) : null, '-offset');
+        break;
+      }
+    }
+  }
+}
+
+function collectRawTokens(document: FigmaNode, registry: TokenRegistry): void {
+  const colors: string[] = [];
+  const fontSizes = new Set<number>();
+  const radii = new Set<number>();
+
+  walk(document, node => {
+    // Text runs styled apart from the rest of their layer have fills of their own
+    const runFills = Object.values(node.styleOverrideTable || {}).flatMap(style => style.fills || []);
+    for (const paint of [...(node.fills || []), ...(node.strokes || []), ...runFills]) {
+      // Translucent colors only become tokens through styles and variables
+      const color = paint.type === 'SOLID' && paint.color ? colorToCSS(paint.color, paint.opacity) : null;
+      if (color?.startsWith('#') && !colors.includes(color)) colors.push(color);
+    }
+    const fontSize = fontSizeOf(node);
+    if (node.type === 'TEXT' && fontSize) fontSizes.add(fontSize);
+    if (node.cornerRadius) radii.add(node.cornerRadius);
+    node.rectangleCornerRadii?.forEach(radius => radius && radii.add(radius));
+  });
+
+  for (const hex of colors) {
+    if (!registry.hasValue('color', hex)) {
+      registry.add({ key: hex.slice(1).toLowerCase(), category: 'color', value: hex, source: 'raw' });
+    }
+  }
+
+  for (const [category, values] of [['font-size', fontSizes], ['radius', radii]] as const) {
+    for (const value of Array.from(values).sort((a, b) => a - b)) {
+      if (!registry.hasValue(category, px(value))) {
+        registry.add({ key: slugify(`${value}`), category, value: px(value), source: 'raw' });
+      }
+    }
+  }
+}
+
+function fontSizeOf(node: FigmaNode): number | undefined {
+  return node.style?.fontSize ?? node.fontSize;
+}
+
+function walk(node: FigmaNode | undefined, visit: (node: FigmaNode) => void): void {
+  if (!node || node.visible === false) return;
+  visit(node);
+  for (const child of node.children || []) {
+    walk(child, visit);
+  }
+}
+
+/**
+ * Turn a Figma style/variable name into a token key, dropping a leading
+ * group that just repeats the category ("Colors/Primary" → `primary`)
+ */
+function tokenKey(name: string, category: TokenCategory): string {
+  const segments = name.split('/').map(slugify).filter(Boolean);
+  const redundant = [category, `${category}s`, category.split('-')[0], `${category.split('-')[0]}s`];
+  if (segments.length > 1 && redundant.includes(segments[0])) {
+    segments.shift();
+  }
+  return segments.join('-');
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/\./g, '_')
+    .replace(/[^a-z0-9_]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * CSS custom property name for a token, e.g. `--color-primary`
+ */
+export function cssVariableName(token: DesignToken): string {
+  return `--${token.category}-${token.key}`;
+}
+
+/**
+ * `var()` reference to a token
+ */
+export function tokenReference(token: DesignToken): string {
+  return `var(${cssVariableName(token)})`;
+}
+
+/**
+ * Split a `var(--category-key)` reference back into its parts
+ */
+export function parseTokenReference(value: string): { category: TokenCategory; key: string } | null {
+  const match = value.match(/^var\(--([a-z0-9_-]+)\)$/);
+  if (!match) return null;
+
+  const category = CATEGORIES
+    .filter(c => match[1].startsWith(`${c}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return category ? { category, key: match[1].slice(category.length + 1) } : null;
+}
+
+const PROPERTY_CATEGORIES: Record<string, TokenCategory> = {
+  'color': 'color',
+  'background-color': 'color',
+  'border-color': 'color',
+  'outline-color': 'color',
+  'fill': 'color',
+  'stroke': 'color',
+  'font-family': 'font-family',
+  'font-size': 'font-size',
+  'font-weight': 'font-weight',
+  'line-height': 'line-height',
+  'letter-spacing': 'letter-spacing',
+  'border-radius': 'radius',
+  'gap': 'spacing',
+  'padding': 'spacing',
+  'box-shadow': 'shadow'
+};
+
+const MULTI_VALUE_PROPERTIES = ['border-radius', 'gap', 'padding'];
+
+/**
+ * Replace raw values in a node's declarations with references to matching
+ * tokens. Styles and variables bound to the node win over value lookups.
+ */
+export function applyTokens(css: CSSDeclarations, node: FigmaNode, set: TokenSet): CSSDeclarations {
+  const index = indexTokens(set);
+  const bound = boundTokens(node, index);
+  const result: CSSDeclarations = {};
+
+  const lookup = (category: TokenCategory, value: string): string | null => {
+    const token = bound.find(t => t.category === category && t.value === value) ||
+      index.byValue.get(`${category}|${value}`);
+    return token ? tokenReference(token) : null;
+  };
+
+  for (const [property, value] of Object.entries(css)) {
+    const category = PROPERTY_CATEGORIES[property];
+    let tokenized = value;
+
+    if (category && MULTI_VALUE_PROPERTIES.includes(property)) {
+      tokenized = value.split(' ').map(part => lookup(category, part) || part).join(' ');
+    } else if (category) {
+      tokenized = lookup(category, value) || value;
+    }
+
+    // Colors embedded in composite values such as borders and gradients
+    tokenized = tokenized.replace(/#[0-9A-Fa-f]{6}\b/g, hex => lookup('color', hex) || hex);
+
+    result[property] = tokenized;
+  }
+
+  return result;
+}
+
+interface TokenIndex {
+  byValue: Map<string, DesignToken>;
+  byStyleId: Map<string, DesignToken[]>;
+  byVariableId: Map<string, DesignToken>;
+}
+
+const indexes = new WeakMap<TokenSet, TokenIndex>();
+
+function indexTokens(set: TokenSet): TokenIndex {
+  let index = indexes.get(set);
+  if (index) return index;
+
+  index = { byValue: new Map(), byStyleId: new Map(), byVariableId: new Map() };
+  for (const token of set.tokens) {
+    const valueKey = `${token.category}|${token.value}`;
+    if (!index.byValue.has(valueKey)) index.byValue.set(valueKey, token);
+    if (token.styleId) {
+      index.byStyleId.set(token.styleId, [...(index.byStyleId.get(token.styleId) || []), token]);
+    }
+    if (token.variableId) index.byVariableId.set(token.variableId, token);
+  }
+
+  indexes.set(set, index);
+  return index;
+}
+
+function boundTokens(node: FigmaNode, index: TokenIndex): DesignToken[] {
+  const tokens: DesignToken[] = [];
+
+  for (const styleId of Object.values(node.styles || {})) {
+    if (styleId) tokens.push(...(index.byStyleId.get(styleId) || []));
+  }
+
+  const collectAliases = (value: any) => {
+    if (!value || typeof value !== 'object') return;
+    if (value.type === 'VARIABLE_ALIAS' && index.byVariableId.has(value.id)) {
+      tokens.push(index.byVariableId.get(value.id)!);
+      return;
+    }
+    Object.values(value).forEach(collectAliases);
+  };
+  collectAliases(node.boundVariables);
+
+  return tokens;
+}
+
+/**
+ * Generate `tokens.css` with one custom property per token and a
+ * `[data-theme]` block per additional variable mode
+ */
+export function generateTokensCSS(set: TokenSet): string {
+  const cssTokens = set.tokens.filter(t => t.category !== 'boolean' && t.value);
+  const modes = new Map<string, string[]>();
+
+  for (const token of cssTokens) {
+    for (const [mode, value] of Object.entries(token.modes || {})) {
+      modes.set(mode, [...(modes.get(mode) || []), `  ${cssVariableName(token)}: ${value};`]);
+    }
+  }
+
+  const blocks = [
+    `:root {\n${cssTokens.map(t => `  ${cssVariableName(t)}: ${t.value};`).join('\n')}\n}`,
+    ...Array.from(modes.entries()).map(([mode, lines]) => `[data-theme="${mode}"] {\n${lines.join('\n')}\n}`)
+  ];
+
+  return `/* Design tokens - auto-generated from Figma */\n${blocks.join('\n\n')}\n`;
+}
+
+const TAILWIND_SECTIONS: Partial<Record<TokenCategory, string>> = {
+  'color': 'colors',
+  'font-family': 'fontFamily',
+  'font-size': 'fontSize',
+  'font-weight': 'fontWeight',
+  'line-height': 'lineHeight',
+  'letter-spacing': 'letterSpacing',
+  'radius': 'borderRadius',
+  'spacing': 'spacing',
+  'shadow': 'boxShadow'
+};
+
+/**
+ * Generate a Tailwind preset whose theme extension points at the CSS variables,
+ * so `bg-primary` resolves to `var(--color-primary)`
+ */
+export function generateTailwindTheme(set: TokenSet): string {
+  const extend: Record<string, Record<string, string>> = {};
+
+  for (const token of set.tokens) {
+    const section = TAILWIND_SECTIONS[token.category];
+    if (!section || !token.value) continue;
+    extend[section] = { ...extend[section], [token.key]: tokenReference(token) };
+  }
+
+  return `// Design tokens - auto-generated from Figma
+// Use as a preset: presets: [require('./tailwind.tokens.js')]
+module.exports = ${JSON.stringify({ theme: { extend } }, null, 2)};
+`;
+}
+
+const W3C_TYPES: Partial<Record<TokenCategory, string>> = {
+  'color': 'color',
+  'font-family': 'fontFamily',
+  'font-weight': 'fontWeight',
+  'font-size': 'dimension',
+  'line-height': 'dimension',
+  'letter-spacing': 'dimension',
+  'radius': 'dimension',
+  'spacing': 'dimension',
+  'shadow': 'shadow',
+  'number': 'number'
+};
+
+/**
+ * A CSS `box-shadow` as W3C shadow values: one object, or a list for layered
+ * shadows. Values that don't parse are kept as they are.
+ */
+function shadowToW3C(value: string): unknown {
+  const shadows = value.split(/,\s*(?![^(]*\))/).map(shadow => {
+    const match = shadow.trim().match(/^(inset\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s+(.+)$/);
+    if (!match) return null;
+    const [, inset, offsetX, offsetY, blur, spread, color] = match;
+    return { color, offsetX, offsetY, blur, spread, ...(inset && { inset: true }) };
+  });
+  if (shadows.some(shadow => !shadow)) return value;
+  return shadows.length === 1 ? shadows[0] : shadows;
+}
+
+/**
+ * Generate a W3C Design Tokens Community Group JSON document
+ */
+export function generateTokensJSON(set: TokenSet): string {
+  const groups: Record<string, Record<string, any>> = {};
+
+  const toW3C = (category: TokenCategory, value: string): unknown => {
+    const reference = parseTokenReference(value);
+    if (reference) return `{${reference.category}.${reference.key}}`;
+    if (category === 'shadow') return shadowToW3C(value);
+    if ((category === 'font-weight' || category === 'number') && value.trim() !== '' && !isNaN(Number(value))) {
+      return Number(value);
+    }
+    return value;
+  };
+
+  for (const token of set.tokens) {
+    const entry: Record<string, any> = { $value: toW3C(token.category, token.value) };
+    const type = W3C_TYPES[token.category];
+    if (type) entry.$type = type;
+    if (token.description) entry.$description = token.description;
+    if (token.modes) {
+      entry.$extensions = {
+        'com.figma': {
+          modes: Object.fromEntries(Object.entries(token.modes).map(([mode, value]) => [mode, toW3C(token.category, value)]))
+        }
+      };
+    }
+    groups[token.category] = { ...groups[token.category], [token.key]: entry };
+  }
+
+  return JSON.stringify(groups, null, 2) + '\n';
+}
@@ -0,0 +1,244 @@
+import type { FigmaNode } from './index';
+import { CSSDeclarations, fontFamilyToCSS, Paint, paintToCSS, px } from './styles';
+
+/**
+ * Figma's TypeStyle, as found in a TEXT node's `style` and its style override table
+ */
+export interface TypeStyle {
+  fontFamily?: string;
+  fontPostScriptName?: string;
+  fontSize?: number;
+  fontWeight?: number;
+  italic?: boolean;
+  lineHeightPx?: number;
+  lineHeightPercentFontSize?: number;
+  lineHeightUnit?: 'PIXELS' | 'FONT_SIZE_%' | 'INTRINSIC_%';
+  letterSpacing?: number;
+  textAlignHorizontal?: 'LEFT' | 'RIGHT' | 'CENTER' | 'JUSTIFIED';
+  textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
+  textCase?: 'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE' | 'SMALL_CAPS' | 'SMALL_CAPS_FORCED';
+  textDecoration?: 'NONE' | 'UNDERLINE' | 'STRIKETHROUGH';
+  textAutoResize?: 'NONE' | 'WIDTH_AND_HEIGHT' | 'HEIGHT' | 'TRUNCATE';
+  textTruncation?: 'DISABLED' | 'ENDING';
+  maxLines?: number;
+  /** Fills of a styled run, overriding the node's */
+  fills?: Paint[];
+}
+
+/**
+ * Text fields shared by every Figma node model
+ */
+export interface TextProperties {
+  characters?: string;
+  style?: TypeStyle;
+  /** Override table id for each character; 0 or missing means the base style */
+  characterStyleOverrides?: number[];
+  styleOverrideTable?: Record<string, TypeStyle>;
+}
+
+/**
+ * A run of characters sharing one style
+ */
+export interface TextRun {
+  text: string;
+  /** Declarations that differ from the node's own text styles */
+  styles: CSSDeclarations;
+}
+
+const TEXT_CASE: Record<string, [string, string]> = {
+  UPPER: ['text-transform', 'uppercase'],
+  LOWER: ['text-transform', 'lowercase'],
+  TITLE: ['text-transform', 'capitalize'],
+  SMALL_CAPS: ['font-variant-caps', 'small-caps'],
+  SMALL_CAPS_FORCED: ['font-variant-caps', 'all-small-caps']
+};
+
+const TEXT_DECORATION: Record<string, string> = {
+  UNDERLINE: 'underline',
+  STRIKETHROUGH: 'line-through'
+};
+
+const TEXT_ALIGN: Record<string, string> = {
+  CENTER: 'center',
+  RIGHT: 'right',
+  JUSTIFIED: 'justify'
+};
+
+/**
+ * Declarations for a TEXT node: its type style, fill, wrapping and truncation.
+ * Auto-resizing text boxes hug their content, which layout sizing handles.
+ */
+export function extractTextStyles(node: FigmaNode): CSSDeclarations {
+  // Older exports carry the font size and weight on the node itself
+  const style: TypeStyle = {
+    ...node.style,
+    fontSize: node.style?.fontSize ?? node.fontSize,
+    fontWeight: node.style?.fontWeight ?? node.fontWeight
+  };
+  const css: CSSDeclarations = {
+    ...typeStyleToCSS(style, node.fills, node),
+    margin: '0'
+  };
+
+  const resize = style.textAutoResize;
+  if (resize === 'WIDTH_AND_HEIGHT') {
+    css['white-space'] = 'nowrap';
+  }
+
+  if (node.characters?.includes('\n')) {
+    css['white-space'] = resize === 'WIDTH_AND_HEIGHT' ? 'pre' : 'pre-wrap';
+  }
+
+  if (style.textTruncation === 'ENDING' || resize === 'TRUNCATE') {
+    Object.assign(css, truncation(style.maxLines));
+  }
+
+  // A fixed-height box can align its text vertically, unless it holds styled runs
+  const alignVertical = style.textAlignVertical;
+  const fixedHeight = !resize || resize === 'NONE' || resize === 'TRUNCATE';
+  if (alignVertical && alignVertical !== 'TOP' && fixedHeight && !hasStyledRuns(node)) {
+    css['display'] = 'flex';
+    css['flex-direction'] = 'column';
+    css['justify-content'] = alignVertical === 'CENTER' ? 'center' : 'flex-end';
+  }
+
+  return css;
+}
+
+/**
+ * Convert the properties of a type style to declarations
+ */
+export function typeStyleToCSS(style: TypeStyle, fills: Paint[] | undefined, node?: FigmaNode): CSSDeclarations {
+  const css: CSSDeclarations = { ...textFill(fills, node) };
+
+  if (style.fontFamily) {
+    css['font-family'] = fontFamilyToCSS(style.fontFamily);
+  }
+  if (style.fontSize) {
+    css['font-size'] = px(style.fontSize);
+  }
+  if (style.fontWeight) {
+    css['font-weight'] = `${style.fontWeight}`;
+  }
+  if (style.italic) {
+    css['font-style'] = 'italic';
+  }
+
+  const lineHeight = lineHeightToCSS(style);
+  if (lineHeight) {
+    css['line-height'] = lineHeight;
+  }
+  if (style.letterSpacing) {
+    css['letter-spacing'] = px(style.letterSpacing);
+  }
+  if (style.textAlignHorizontal && TEXT_ALIGN[style.textAlignHorizontal]) {
+    css['text-align'] = TEXT_ALIGN[style.textAlignHorizontal];
+  }
+  if (style.textCase && TEXT_CASE[style.textCase]) {
+    const [property, value] = TEXT_CASE[style.textCase];
+    css[property] = value;
+  }
+  if (style.textDecoration && TEXT_DECORATION[style.textDecoration]) {
+    css['text-decoration'] = TEXT_DECORATION[style.textDecoration];
+  }
+
+  return css;
+}
+
+/**
+ * Line height as pixels, a unitless multiple of the font size, or `normal` for auto
+ */
+export function lineHeightToCSS(style: TypeStyle): string | null {
+  switch (style.lineHeightUnit) {
+    case 'INTRINSIC_%':
+      return 'normal';
+    case 'FONT_SIZE_%':
+      if (style.lineHeightPercentFontSize) {
+        return `${Math.round(style.lineHeightPercentFontSize) / 100}`;
+      }
+      break;
+  }
+  return style.lineHeightPx ? px(style.lineHeightPx) : null;
+}
+
+/**
+ * Text takes the top solid fill as its color; gradients are clipped to the glyphs
+ */
+function textFill(fills: Paint[] | undefined, node?: FigmaNode): CSSDeclarations {
+  const top = (fills || []).filter(p => p.visible !== false && (p.color || p.gradientStops)).pop();
+  const value = top && paintToCSS(top, node);
+  if (!value) return {};
+
+  if (top!.type === 'SOLID') {
+    return { color: value };
+  }
+  return {
+    'background-image': value,
+    '-webkit-background-clip': 'text',
+    'background-clip': 'text',
+    color: 'transparent'
+  };
+}
+
+function truncation(maxLines: number | undefined): CSSDeclarations {
+  if (maxLines && maxLines > 1) {
+    return {
+      display: '-webkit-box',
+      '-webkit-box-orient': 'vertical',
+      '-webkit-line-clamp': `${maxLines}`,
+      overflow: 'hidden'
+    };
+  }
+  return {
+    overflow: 'hidden',
+    'text-overflow': 'ellipsis',
+    'white-space': 'nowrap'
+  };
+}
+
+function hasStyledRuns(node: FigmaNode): boolean {
+  return Boolean(node.characterStyleOverrides?.some(id => id !== 0));
+}
+
+/**
+ * Split a TEXT node's characters into runs by its character style overrides.
+ * Returns null when the whole node shares one style.
+ */
+export function textRuns(node: FigmaNode): TextRun[] | null {
+  const text = node.characters;
+  const overrides = node.characterStyleOverrides;
+  if (!text || !overrides || !hasStyledRuns(node)) return null;
+
+  const base = typeStyleToCSS(node.style || {}, node.fills, node);
+  const runs: TextRun[] = [];
+  let start = 0;
+
+  for (let i = 1; i <= text.length; i++) {
+    const id = overrides[start] || 0;
+    if (i < text.length && (overrides[i] || 0) === id) continue;
+
+    const override = id ? node.styleOverrideTable?.[id] : undefined;
+    const styles: CSSDeclarations = {};
+    if (override) {
+      const css = typeStyleToCSS({ ...node.style, ...override }, override.fills || node.fills, node);
+      for (const [property, value] of Object.entries(css)) {
+        if (base[property] !== value) styles[property] = value;
+      }
+    }
+
+    const previous = runs[runs.length - 1];
+    if (previous && sameStyles(previous.styles, styles)) {
+      previous.text += text.slice(start, i);
+    } else {
+      runs.push({ text: text.slice(start, i), styles });
+    }
+    start = i;
+  }
+
+  return runs.length > 1 ? runs : null;
+}
+
+function sameStyles(a: CSSDeclarations, b: CSSDeclarations): boolean {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+}
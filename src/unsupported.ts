@@ -0,0 +1,54 @@
+import type { AssetSet } from './assets';
+import type { FigmaNode } from './index';
+import { isVectorNode } from './styles';
+
+/**
+ * A layer using a Figma feature generated code can't reproduce
+ */
+export interface UnsupportedFeature {
+  node: FigmaNode;
+  feature: 'mask' | 'boolean-operation' | 'fill';
+  /** What the generated code does instead, e.g. `is left empty: ...` */
+  detail: string;
+}
+
+/** Fill types with a CSS counterpart; IMAGE fills need their file exported */
+const SUPPORTED_FILLS = ['SOLID', 'GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'GRADIENT_ANGULAR', 'IMAGE'];
+
+/**
+ * Find the visible layers of a component that use masks, boolean operations
+ * without path geometry, or fills CSS can't draw. Layers exported as files
+ * are left out, as the file draws them.
+ */
+export function unsupportedFeatures(root: FigmaNode, assets?: AssetSet): UnsupportedFeature[] {
+  const features: UnsupportedFeature[] = [];
+
+  const visit = (node: FigmaNode, parent?: FigmaNode) => {
+    if (node.visible === false || (parent && assets?.nodes.has(node.id))) return;
+
+    if (node.isMask) {
+      features.push({ node, feature: 'mask', detail: 'is drawn as a regular layer, without clipping the layers above it' });
+    }
+    for (const fill of (node.fills || []).filter(paint => paint.visible !== false)) {
+      if (fill.type === 'GRADIENT_DIAMOND') {
+        features.push({ node, feature: 'fill', detail: 'has a diamond gradient, approximated with a radial gradient' });
+      } else if (!SUPPORTED_FILLS.includes(fill.type)) {
+        features.push({ node, feature: 'fill', detail: `has a ${fill.type} fill, which is left out` });
+      } else if (fill.type === 'IMAGE' && !(fill.imageRef && assets?.images.has(fill.imageRef))) {
+        features.push({ node, feature: 'fill', detail: 'has an image fill, left out as its file wasn\'t exported' });
+      }
+    }
+    // Without geometry the operands can't be combined, and none of them are drawn
+    if (node.type === 'BOOLEAN_OPERATION') {
+      if (!isVectorNode(node)) {
+        features.push({ node, feature: 'boolean-operation', detail: 'is left empty: the export has no path geometry for it' });
+      }
+      return;
+    }
+
+    node.children?.forEach(child => visit(child, node));
+  };
+  visit(root);
+
+  return features;
+}
@@ -0,0 +1,536 @@
+import type { FigmaNode } from './index';
+import { addTransition, POINTER_TRIGGERS, PointerState, Transition, variantChanges } from './interactions';
+import {
+  BuildContext,
+  buildElementTree,
+  jsLiteral,
+  lookupExpression,
+  RenderElement,
+  StateStyle,
+  VariantStyle
+} from './renderer';
+import { CSSDeclarations, styleChanges } from './styles';
+
+export interface ComponentPropertyDefinition {
+  type: 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP';
+  defaultValue: string | boolean;
+  variantOptions?: string[];
+  preferredValues?: Array<{ type: string; key: string }>;
+}
+
+/**
+ * Component property fields shared by every Figma node model
+ */
+export interface ComponentPropertyFields {
+  componentPropertyDefinitions?: Record<string, ComponentPropertyDefinition>;
+  componentPropertyReferences?: Partial<Record<'visible' | 'characters' | 'mainComponent', string>>;
+  componentProperties?: Record<string, { type: ComponentPropertyDefinition['type']; value: string | boolean }>;
+  variantProperties?: Record<string, string>;
+  /** Main component of an INSTANCE */
+  componentId?: string;
+  /** Layers of an INSTANCE that differ from its main component */
+  overrides?: Array<{ id: string; overriddenFields: string[] }>;
+}
+
+/**
+ * A Figma component property translated into a framework prop
+ */
+export interface ComponentProp {
+  /** Prop identifier in generated code */
+  name: string;
+  /** Property name as defined in Figma, including its `#id` suffix */
+  figmaName: string;
+  kind: 'variant' | 'boolean' | 'text' | 'instance';
+  defaultValue?: string | boolean;
+  /** Allowed values of a variant axis */
+  options?: string[];
+  /** Id of the frame a boolean prop shows as an overlay */
+  overlay?: string;
+}
+
+const RESERVED_PROPS = ['children', 'className', 'class'];
+
+/**
+ * Read the component properties of a COMPONENT_SET or COMPONENT node.
+ * Variant axes come first, then the remaining properties in definition order.
+ */
+export function extractComponentProps(node: FigmaNode): ComponentProp[] {
+  const props: ComponentProp[] = [];
+  const used = new Set<string>(RESERVED_PROPS);
+
+  const add = (figmaName: string, kind: ComponentProp['kind'], defaultValue?: string | boolean, options?: string[]) => {
+    let name = toPropName(figmaName);
+    for (let i = 2; used.has(name); i++) {
+      name = `${toPropName(figmaName)}${i}`;
+    }
+    used.add(name);
+    props.push({ name, figmaName, kind, defaultValue, options });
+  };
+
+  const definitions = Object.entries(node.componentPropertyDefinitions || {});
+  const observed = node.type === 'COMPONENT_SET' ? observedVariantValues(node) : {};
+
+  for (const [figmaName, definition] of definitions) {
+    if (definition.type !== 'VARIANT') continue;
+    const options = unique([...(definition.variantOptions || []), ...(observed[figmaName] || [])]);
+    add(figmaName, 'variant', definition.defaultValue as string, options);
+  }
+
+  // Older exports omit definitions on sets; fall back to the variant names
+  for (const [figmaName, options] of Object.entries(observed)) {
+    if (!definitions.some(([name]) => name === figmaName)) {
+      add(figmaName, 'variant', options[0], options);
+    }
+  }
+
+  for (const [figmaName, definition] of definitions) {
+    switch (definition.type) {
+      case 'BOOLEAN':
+        add(figmaName, 'boolean', Boolean(definition.defaultValue));
+        break;
+      case 'TEXT':
+        add(figmaName, 'text', String(definition.defaultValue ?? ''));
+        break;
+      case 'INSTANCE_SWAP':
+        add(figmaName, 'instance');
+        break;
+    }
+  }
+
+  return props;
+}
+
+/**
+ * Variant values of a COMPONENT inside a set, from `variantProperties`
+ * or its "Size=sm, State=hover" name
+ */
+export function variantValues(node: FigmaNode): Record<string, string> {
+  if (node.variantProperties) return node.variantProperties;
+
+  const values: Record<string, string> = {};
+  for (const pair of node.name.split(',')) {
+    const [key, value] = pair.split('=').map(part => part.trim());
+    if (key && value !== undefined) {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+function observedVariantValues(set: FigmaNode): Record<string, string[]> {
+  const observed: Record<string, string[]> = {};
+  for (const variant of set.children || []) {
+    if (variant.type !== 'COMPONENT') continue;
+    for (const [key, value] of Object.entries(variantValues(variant))) {
+      observed[key] = unique([...(observed[key] || []), value]);
+    }
+  }
+  return observed;
+}
+
+interface Variant {
+  /** Variant prop identifier → value */
+  values: Record<string, string>;
+  tree: RenderElement;
+  /** The COMPONENT of the variant */
+  component: FigmaNode;
+  /** Variants shown while the pointer is over or down on this one */
+  pointer: Partial<Record<PointerState, Variant>>;
+}
+
+/**
+ * A prototype trigger changing one variant into another
+ */
+interface Change {
+  from: Variant;
+  to: Variant;
+  /** Layer the trigger is on */
+  node: FigmaNode;
+  trigger: string;
+  transition?: Transition;
+}
+
+/**
+ * Build one element tree for a COMPONENT_SET. Layers are matched across
+ * variants by name; whatever differs between variants becomes conditional
+ * rendering, bound text or styles that switch on the variant props.
+ */
+export function buildVariantTree(set: FigmaNode, props: ComponentProp[], context: BuildContext): RenderElement | null {
+  const axes = props.filter(p => p.kind === 'variant');
+  const variants: Variant[] = [];
+
+  for (const component of set.children || []) {
+    if (component.type !== 'COMPONENT') continue;
+    const tree = buildElementTree({ ...component, visible: true }, undefined, { ...context, componentProps: props });
+    if (!tree) continue;
+
+    const figmaValues = variantValues(component);
+    const values: Record<string, string> = {};
+    for (const axis of axes) {
+      values[axis.name] = figmaValues[axis.figmaName] ?? String(axis.defaultValue);
+    }
+    variants.push({ values, tree, component, pointer: {} });
+  }
+
+  if (variants.length === 0) return null;
+
+  const changes: Change[] = [];
+  for (const from of variants) {
+    for (const change of variantChanges(from.component)) {
+      const to = variants.find(variant => variant.component.id === change.destinationId);
+      if (to && to !== from) changes.push({ ...change, from, to });
+    }
+  }
+  // Hovering or pressing the variant itself shows another variant for as long as it lasts
+  for (const change of changes) {
+    const state = POINTER_TRIGGERS[change.trigger];
+    if (state && change.node === change.from.component) {
+      change.from.pointer[state] ??= change.to;
+    }
+  }
+
+  // The default variant provides the base structure and layer order
+  const defaultIndex = variants.findIndex(v => axes.every(a => v.values[a.name] === a.defaultValue));
+  if (defaultIndex > 0) {
+    variants.unshift(...variants.splice(defaultIndex, 1));
+  }
+
+  const merged = mergeElements(
+    variants.map(variant => ({ variant, element: variant.tree })),
+    variants,
+    axes,
+    changes
+  );
+  merged.node = { ...merged.node, name: set.name, id: set.id };
+  return merged;
+}
+
+interface Occurrence {
+  variant: Variant;
+  element: RenderElement;
+}
+
+function mergeElements(
+  occurrences: Occurrence[],
+  variants: Variant[],
+  axes: ComponentProp[],
+  changes: Change[]
+): RenderElement {
+  const base = occurrences[0].element;
+  const find = (variant: Variant) => occurrences.find(o => o.variant === variant)?.element;
+  const present = (variant: Variant) => find(variant) !== undefined;
+
+  const merged: RenderElement = { ...base, styles: {}, children: [] };
+
+  // Styles: shared declarations stay static, the rest switch on the props they depend on
+  const groups = new Map<string, { props: string[]; properties: string[] }>();
+  const properties = unique(occurrences.flatMap(o => Object.keys(o.element.styles)));
+
+  for (const property of properties) {
+    const valueOf = (variant: Variant) => find(variant)?.styles[property];
+    const dependsOn = resolveDependency(variants, axes, valueOf, present);
+
+    if (!dependsOn) {
+      const value = valueOf(occurrences[0].variant);
+      if (value !== undefined) merged.styles[property] = value;
+      continue;
+    }
+
+    const key = dependsOn.join('|');
+    const group = groups.get(key) || { props: dependsOn, properties: [] };
+    group.properties.push(property);
+    groups.set(key, group);
+  }
+
+  const variantStyles: VariantStyle[] = [];
+  for (const group of groups.values()) {
+    variantStyles.push({
+      props: group.props,
+      cases: buildTable(group.props, variants, axes, variant => {
+        const styles = find(variant)?.styles || {};
+        const css: CSSDeclarations = {};
+        for (const property of group.properties) {
+          if (styles[property] !== undefined) css[property] = styles[property];
+        }
+        return css;
+      }, {})
+    });
+  }
+  if (variantStyles.length > 0) {
+    merged.variantStyles = [...(base.variantStyles || []), ...variantStyles];
+  }
+
+  // Layers missing from some variants render conditionally
+  if (occurrences.length < variants.length) {
+    const presence = (variant: Variant) => (present(variant) ? 'true' : 'false');
+    const dependsOn = resolveDependency(variants, axes, presence, () => true)!;
+    merged.condition = joinConditions(base.condition, conditionExpression(dependsOn, variants, axes, present));
+  }
+
+  // Static text that differs per variant becomes a lookup
+  if (base.text !== undefined && !base.textBinding) {
+    const textOf = (variant: Variant) => find(variant)?.text;
+    const dependsOn = resolveDependency(variants, axes, textOf, present);
+    if (dependsOn) {
+      merged.textBinding = lookupExpression(
+        buildTable(dependsOn, variants, axes, variant => textOf(variant) ?? base.text!, base.text!),
+        dependsOn
+      );
+    }
+  }
+
+  // Instance props that differ per variant become lookups
+  if (base.instance) {
+    const instance = base.instance;
+    const bindings: Record<string, string> = {};
+    for (const prop of instance.component.props) {
+      if (prop.kind === 'instance') continue;
+      const valueOf = (variant: Variant) => {
+        const element = find(variant);
+        return element?.instance ? element.instance.props[prop.name] ?? prop.defaultValue : undefined;
+      };
+      const dependsOn = resolveDependency(variants, axes, variant => stringify(valueOf(variant)), present);
+      if (dependsOn) {
+        bindings[prop.name] = lookupExpression(
+          buildTable(dependsOn, variants, axes, variant => valueOf(variant) ?? prop.defaultValue, prop.defaultValue),
+          dependsOn
+        );
+      }
+    }
+    if (Object.keys(bindings).length > 0) {
+      merged.instance = { ...instance, bindings: { ...instance.bindings, ...bindings } };
+    }
+  }
+
+  // Hover and press variants become styles under the root's `:hover` and `:active`
+  const stateStyles: StateStyle[] = [];
+  for (const state of ['hover', 'active'] as const) {
+    const changesOf = (variant: Variant): CSSDeclarations => {
+      // Pressing usually starts from the hover variant, which already applies
+      const from = state === 'active' ? variant.pointer.hover || variant : variant;
+      const target = variant.pointer[state] || (state === 'active' ? from.pointer.active : undefined);
+      if (!target || !present(from)) return {};
+      return present(target) ? styleChanges(find(from)!.styles, find(target)!.styles) : { display: 'none' };
+    };
+    const dependsOn = resolveDependency(variants, axes, variant => JSON.stringify(changesOf(variant)), () => true);
+    if (dependsOn) {
+      stateStyles.push({ state, props: dependsOn, cases: buildTable(dependsOn, variants, axes, changesOf, {}) });
+    } else if (Object.keys(changesOf(variants[0])).length > 0) {
+      stateStyles.push({ state, props: [], cases: changesOf(variants[0]) });
+    }
+  }
+  if (stateStyles.length > 0) {
+    merged.stateStyles = stateStyles;
+  }
+
+  // Clicking the layer moves the variant prop it changes on to the next value
+  const click = stateClick(occurrences, variants, axes, changes);
+  if (click) {
+    merged.click = click;
+  }
+
+  // Smart Animate eases the layer between the variants it changes in
+  for (const change of changes) {
+    const from = find(change.from);
+    const to = find(change.to);
+    if (from && to) {
+      merged.styles = addTransition(merged.styles, styleChanges(from.styles, to.styles), change.transition);
+    }
+  }
+
+  for (const childOccurrences of matchChildren(occurrences)) {
+    merged.children.push(mergeElements(childOccurrences, variants, axes, changes));
+  }
+
+  return merged;
+}
+
+/**
+ * Click action of a layer whose clicks change one variant prop, e.g. a
+ * toggle's `checked`, with the value each value changes to
+ */
+function stateClick(
+  occurrences: Occurrence[],
+  variants: Variant[],
+  axes: ComponentProp[],
+  changes: Change[]
+): RenderElement['click'] {
+  const clicks = changes.filter(change =>
+    change.trigger === 'ON_CLICK' && occurrences.some(o => o.variant === change.from && o.element.node.id === change.node.id)
+  );
+  // Hover and press variants only show through CSS, so clicking one is
+  // clicking the variant the pointer is over
+  const under = (variant: Variant) => variants.filter(base =>
+    base.pointer.hover === variant || base.pointer.active === variant || base.pointer.hover?.pointer.active === variant
+  );
+  const moves = [
+    ...clicks.map(change => [change.from, change.to]),
+    ...clicks.flatMap(change => under(change.from).map(base => [base, change.to]))
+  ];
+
+  let prop: ComponentProp | undefined;
+  const next: Record<string, string> = {};
+  for (const [from, to] of moves) {
+    const changed = axes.filter(axis => from.values[axis.name] !== to.values[axis.name]);
+    if (changed.length !== 1 || (prop && changed[0] !== prop)) continue;
+
+    prop = changed[0];
+    next[from.values[prop.name]] ??= to.values[prop.name];
+  }
+  if (!prop) return undefined;
+
+  // Values without a click stay as they are
+  const table = Object.fromEntries((prop.options || []).map(option => [option, next[option] ?? option]));
+  return { type: 'state', prop: prop.name, next: table };
+}
+
+/**
+ * Group children across variants by layer name (and repeat index for
+ * duplicate names), keeping the order they first appear in
+ */
+function matchChildren(occurrences: Occurrence[]): Occurrence[][] {
+  const order: string[] = [];
+  const groups = new Map<string, Occurrence[]>();
+
+  for (const { variant, element } of occurrences) {
+    const seen = new Map<string, number>();
+    let previous = -1;
+
+    for (const child of element.children) {
+      const name = `${child.node.type}:${child.node.name}`;
+      const index = seen.get(name) || 0;
+      seen.set(name, index + 1);
+
+      const key = `${name}#${index}`;
+      if (!groups.has(key)) {
+        groups.set(key, []);
+        order.splice(previous + 1, 0, key);
+      }
+      groups.get(key)!.push({ variant, element: child });
+      previous = order.indexOf(key);
+    }
+  }
+
+  return order.map(key => groups.get(key)!);
+}
+
+/**
+ * Find the variant props a value depends on: none when it is the same
+ * everywhere, a single axis when that axis alone determines it, else all axes
+ */
+function resolveDependency(
+  variants: Variant[],
+  axes: ComponentProp[],
+  valueOf: (variant: Variant) => string | undefined,
+  relevant: (variant: Variant) => boolean
+): string[] | null {
+  const considered = variants.filter(relevant);
+  const values = considered.map(valueOf);
+  if (values.every(value => value === values[0])) return null;
+
+  for (const axis of axes) {
+    const byOption = new Map<string, string | undefined>();
+    const consistent = considered.every(variant => {
+      const option = variant.values[axis.name];
+      if (!byOption.has(option)) {
+        byOption.set(option, valueOf(variant));
+        return true;
+      }
+      return byOption.get(option) === valueOf(variant);
+    });
+    if (consistent) return [axis.name];
+  }
+
+  return axes.map(axis => axis.name);
+}
+
+/**
+ * Build a nested lookup table indexed by each prop's value in turn,
+ * covering every option so indexing with the prop's union type is total
+ */
+function buildTable<T>(
+  props: string[],
+  variants: Variant[],
+  axes: ComponentProp[],
+  valueOf: (variant: Variant) => T,
+  fallback: T,
+  assigned: Record<string, string> = {}
+): any {
+  if (props.length === 0) {
+    const variant = variants.find(v => Object.entries(assigned).every(([prop, value]) => v.values[prop] === value));
+    return variant ? valueOf(variant) : fallback;
+  }
+
+  const [prop, ...rest] = props;
+  const axis = axes.find(a => a.name === prop)!;
+  const table: Record<string, any> = {};
+  for (const option of axis.options || []) {
+    table[option] = buildTable(rest, variants, axes, valueOf, fallback, { ...assigned, [prop]: option });
+  }
+  return table;
+}
+
+function conditionExpression(
+  props: string[],
+  variants: Variant[],
+  axes: ComponentProp[],
+  present: (variant: Variant) => boolean
+): string {
+  if (props.length === 1) {
+    const axis = axes.find(a => a.name === props[0])!;
+    const options = (axis.options || []).filter(option =>
+      variants.some(v => v.values[axis.name] === option && present(v))
+    );
+    return options.length === 1
+      ? `${axis.name} === ${jsLiteral(options[0])}`
+      : `${jsLiteral(options)}.includes(${axis.name})`;
+  }
+  return lookupExpression(buildTable(props, variants, axes, present, false), props);
+}
+
+function joinConditions(...conditions: Array<string | undefined>): string {
+  const present = conditions.filter((c): c is string => Boolean(c));
+  return present.length === 1 ? present[0] : present.map(c => `(${c})`).join(' && ');
+}
+
+/**
+ * Turn a Figma property name such as "Show icon#12:0" into `showIcon`
+ */
+export function toPropName(figmaName: string): string {
+  const words = figmaName
+    .replace(/#[^#]*$/, '')
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean);
+  const name = words
+    .map((word, i) => i === 0
+      ? word.charAt(0).toLowerCase() + word.slice(1)
+      : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('');
+
+  if (!name) return 'prop';
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+/**
+ * TypeScript type of a prop, e.g. `'sm' | 'md' | 'lg'`
+ */
+export function propTypeScript(prop: ComponentProp, slotType: string): string {
+  switch (prop.kind) {
+    case 'variant':
+      return (prop.options || []).map(option => jsLiteral(option)).join(' | ') || 'string';
+    case 'boolean':
+      return 'boolean';
+    case 'text':
+      return 'string';
+    case 'instance':
+      return slotType;
+  }
+}
+
+function stringify(value: string | boolean | undefined): string | undefined {
+  return value === undefined ? undefined : JSON.stringify(value);
+}
+
+function unique<T>(values: T[]): T[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,202 @@
+import { svgMarkup } from './assets';
+import { objectLiteral } from './component-tests';
+import type { FrameworkGenerator, GeneratorOptions } from './generator';
+import { stateVariable } from './interactions';
+import { ComponentIR, importPath } from './ir';
+import { keepRegion } from './manifest';
+import { DIALECTS, InteractionBindings, jsLiteral, renderMarkup } from './renderer';
+import { presentationRole } from './semantics';
+import { defaultExportStories } from './stories';
+import { generateStylesheet } from './stylesheet';
+import { ComponentProp, propTypeScript } from './variants';
+
+const PROP_TYPES = { variant: 'String', boolean: 'Boolean', text: 'String' };
+
+/**
+ * Vue single-file components with scoped styles, written with `<script setup>`
+ * (the default) or the Options API
+ */
+export const vueGenerator: FrameworkGenerator = {
+  name: 'vue',
+  extension: () => 'vue',
+  dialects: ['setup', 'options'],
+  stylesheet: { naming: 'kebab-case' },
+  stories: defaultExportStories('@storybook/vue3', options => (options.typescript ? 'ts' : 'js')),
+  // Classes fall through to the root element as attributes
+  tests: {
+    library: '@testing-library/vue',
+    extension: options => (options.typescript ? 'test.ts' : 'test.js'),
+    imports: (ir, testFile) =>
+      `${ir.routerLink ? "import { RouterLinkStub } from '@vue/test-utils';\n" : ''}import ${ir.name} from '${importPath(testFile, ir.filename)}';\n`,
+    render: (ir, props, className) => {
+      const options = {
+        ...(Object.keys(props).length ? { props: objectLiteral(props) } : {}),
+        ...(className ? { attrs: objectLiteral({ class: jsLiteral(className) }) } : {}),
+        // Rendered without the app's router, so its links are stubbed
+        ...(ir.routerLink ? { global: `{ stubs: { ${ir.routerLink.tag}: RouterLinkStub } }` } : {})
+      };
+      return Object.keys(options).length ? `render(${ir.name}, ${objectLiteral(options)})` : `render(${ir.name})`;
+    },
+    forwardsClass: true
+  },
+  indexExport: ({ name, filename }) => `export { default as ${name} } from '${importPath('index', filename)}';`,
+
+  generate(ir, options) {
+    const setup = options.dialect !== 'options';
+    // `<script setup>` components let class and style fall through to the root
+    const markup = renderMarkup(ir.tree, {
+      dialect: DIALECTS.vue,
+      tailwind: options.styling === 'tailwind',
+      interactions: interactionBindings(ir)
+    }, 1, {
+      classProp: setup ? undefined : 'className',
+      attributes: [...presentationRole(ir.tree), setup ? `data-testid="${ir.testId}"` : ':data-testid="testId"'],
+      slot: '<slot></slot>'
+    });
+    const imports = ir.components.map(c => `import ${c.name} from '${importPath(ir.filename, c.filename)}';\n`).join('');
+    const script = setup ? setupScript(ir, imports, options) : optionsScript(ir, imports, options);
+
+    const code = `<template>
+${markup}
+</template>
+
+${script}
+${ir.rules.length ? `
+<style scoped>
+${generateStylesheet(ir.rules)}
+
+${keepRegion('styles', '', 'css')}
+</style>
+` : ''}`;
+
+    return [{ filename: ir.filename, code }];
+  },
+
+  generateIcon(icon, options) {
+    // Vue passes class and other attributes through to the root element
+    const svg = svgMarkup(icon.svg, '').split('\n').map(line => `  ${line}`).join('\n');
+    const code = `<template>
+${svg}
+</template>
+${options.dialect === 'options' ? `
+<script${options.typescript ? ' lang="ts"' : ''}>
+export default {
+  name: '${icon.name}'
+};
+</script>
+` : ''}`;
+    return [{ filename: icon.filename, code }];
+  }
+};
+
+/**
+ * Clicks change a `ref` (or data field) started from the prop, and overlays
+ * ask the parent to change their open prop, so it binds with `v-model:menu-open`
+ */
+function interactionBindings(ir: ComponentIR): InteractionBindings {
+  return {
+    states: Object.fromEntries(ir.states.map(p => [p.name, stateVariable(p.name)])),
+    setState: (prop, value) => `${stateVariable(prop)} = ${value}`,
+    setOpen: (prop, open) => `$emit('update:${prop}', ${open})`
+  };
+}
+
+/**
+ * `<script setup>` declaring the props with `defineProps`, typed and defaulted
+ * through `withDefaults` in TypeScript. Instance swaps are slots, not props.
+ */
+function setupScript(ir: ComponentIR, imports: string, options: GeneratorOptions): string {
+  const isTS = options.typescript;
+  const componentProps = ir.props.filter(p => p.kind !== 'instance');
+  const overlays = ir.props.filter(p => p.overlay);
+  // State starts from the props, so they need a name in the script
+  const declare = ir.states.length ? 'const props = ' : '';
+
+  let props = '';
+  if (componentProps.length > 0 && isTS) {
+    const defaults = componentProps
+      .filter(p => p.defaultValue !== undefined)
+      .map(p => `  ${p.name}: ${jsLiteral(p.defaultValue)}`)
+      .join(',\n');
+    props = `
+interface Props {
+${componentProps.map(p => `  ${p.name}?: ${propTypeScript(p, '')};\n`).join('')}}
+
+${declare}withDefaults(defineProps<Props>(), {
+${defaults}
+});
+`;
+  } else if (componentProps.length > 0) {
+    props = `
+${declare}defineProps({
+${componentProps.map(p => propOption(p, false, '  ')).join(',\n')}
+});
+`;
+  }
+
+  if (overlays.length > 0) {
+    props += isTS
+      ? `
+defineEmits<{
+${overlays.map(p => `  'update:${p.name}': [open: boolean];\n`).join('')}}>();
+`
+      : `
+defineEmits([${overlays.map(p => `'update:${p.name}'`).join(', ')}]);
+`;
+  }
+  const state = ir.states.map(p => `const ${stateVariable(p.name)} = ref(props.${p.name});\n`).join('');
+
+  return `<script setup${isTS ? ' lang="ts"' : ''}>
+${state ? "import { ref } from 'vue';\n" : ''}${imports}${keepRegion('imports')}
+${props}${state ? `\n${state}` : ''}
+${keepRegion('logic')}
+</script>`;
+}
+
+/**
+ * Options API component object with runtime prop declarations
+ */
+function optionsScript(ir: ComponentIR, imports: string, options: GeneratorOptions): string {
+  const isTS = options.typescript;
+  const componentProps = ir.props.filter(p => p.kind !== 'instance');
+  const usesPropType = isTS && componentProps.some(p => p.kind === 'variant');
+  const overlays = ir.props.filter(p => p.overlay);
+
+  const propOptions = [
+    ...componentProps.map(p => propOption(p, isTS, '    ')),
+    `    className: {
+      type: String,
+      default: ''
+    }`
+  ].join(',\n');
+
+  return `<script${isTS ? ' lang="ts"' : ''}>
+${usesPropType ? "import { PropType } from 'vue';\n" : ''}${imports}${keepRegion('imports')}
+
+export default {
+  name: '${ir.name}',${ir.components.length ? `
+  components: { ${ir.components.map(c => c.name).join(', ')} },` : ''}
+  props: {
+${propOptions}
+  },
+${overlays.length ? `  emits: [${overlays.map(p => `'update:${p.name}'`).join(', ')}],\n` : ''}  data() {
+    return {
+      testId: '${ir.testId}'${ir.states.map(p => `,
+      ${stateVariable(p.name)}: this.${p.name}`).join('')}
+    };
+  },
+${keepRegion('options', '  ')}
+};
+</script>`;
+}
+
+/**
+ * Runtime declaration of a prop, with its union type through `PropType` in TypeScript
+ */
+function propOption(prop: ComponentProp, isTS: boolean, indent: string): string {
+  const type = PROP_TYPES[prop.kind as keyof typeof PROP_TYPES];
+  return `${indent}${prop.name}: {
+${indent}  type: ${prop.kind === 'variant' && isTS ? `${type} as PropType<${propTypeScript(prop, '')}>` : type},
+${indent}  default: ${jsLiteral(prop.defaultValue)}
+${indent}}`;
+}
@@ -0,0 +1,125 @@
+import fs from 'fs';
+import { axiosTransport, fetchFigmaVersion, FigmaFileVersion, FigmaTransport } from './figma-client';
+
+/**
+ * A running watch, stopped with `close`
+ */
+export interface Watcher {
+  close(): void;
+}
+
+export interface WatchOptions {
+  /** Milliseconds to wait after a change for more before handling them (default: 300) */
+  debounce?: number;
+  /** Watch a directory, calling the listener with the changed file's name when known; `fs.watch` by default */
+  watch?: (directory: string, listener: (filename: string | null) => void) => Watcher;
+  /** Called when `onChange` fails; watching goes on */
+  onError?: (error: unknown) => void;
+}
+
+export interface PollOptions {
+  /** Milliseconds between checks of the file's version (default: 30000) */
+  interval?: number;
+  transport?: FigmaTransport;
+  /** Version the file had when last generated; without it the first check only records the version */
+  since?: FigmaFileVersion;
+  /** Called when a check or `onChange` fails; polling goes on */
+  onError?: (error: unknown) => void;
+}
+
+const DEFAULT_DEBOUNCE = 300;
+const DEFAULT_INTERVAL = 30000;
+
+/**
+ * Call `onChange` with the files of a directory that changed, a burst of
+ * changes at a time. The directory is watched rather than the files, as
+ * editors often save by replacing a file. A change while `onChange` runs is
+ * handled once it is done, so runs never overlap. A `null` file name means
+ * the platform didn't say which file changed.
+ */
+export function watchFiles(
+  directory: string,
+  matches: (filename: string) => boolean,
+  onChange: (filenames: Array<string | null>) => Promise<void> | void,
+  options: WatchOptions = {}
+): Watcher {
+  const debounce = options.debounce ?? DEFAULT_DEBOUNCE;
+  const pending = new Set<string | null>();
+  let timer: NodeJS.Timeout | undefined;
+  let running: Promise<void> | undefined;
+
+  const flush = async () => {
+    timer = undefined;
+    if (running) return;
+    const filenames = Array.from(pending);
+    pending.clear();
+    const handle = async () => {
+      try {
+        await onChange(filenames);
+      } catch (error) {
+        options.onError?.(error);
+      }
+    };
+    running = handle().finally(() => {
+      running = undefined;
+      if (pending.size > 0 && !timer) timer = setTimeout(flush, debounce);
+    });
+    await running;
+  };
+
+  const watch = options.watch || ((dir, listener) => fs.watch(dir, (_, filename) => listener(filename ? String(filename) : null)));
+  const watcher = watch(directory, filename => {
+    if (filename !== null && !matches(filename)) return;
+    pending.add(filename);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(flush, debounce);
+  });
+
+  return {
+    close() {
+      if (timer) clearTimeout(timer);
+      watcher.close();
+    }
+  };
+}
+
+/**
+ * Check a Figma file's version every `interval` and call `onChange` when it
+ * differs from the one it had at the previous check. Checks only ask for the
+ * version, so they stay cheap however large the file is.
+ */
+export function pollFigmaFile(
+  urlOrId: string,
+  token: string,
+  onChange: (version: FigmaFileVersion) => Promise<void> | void,
+  options: PollOptions = {}
+): Watcher {
+  const interval = options.interval ?? DEFAULT_INTERVAL;
+  const transport = options.transport || axiosTransport;
+  let known = options.since;
+  let timer: NodeJS.Timeout | undefined;
+  let closed = false;
+
+  const check = async () => {
+    try {
+      const current = await fetchFigmaVersion(urlOrId, token, transport);
+      const changed = known !== undefined &&
+        (current.version !== known.version || current.lastModified !== known.lastModified);
+      if (changed && !closed) await onChange(current);
+      // Only once handled, so a version whose run failed is tried again on the next check
+      known = current;
+    } catch (error) {
+      options.onError?.(error);
+    }
+    // Scheduled after the check, so slow requests don't pile up
+    if (!closed) timer = setTimeout(check, interval);
+  };
+  timer = setTimeout(check, known ? interval : 0);
+
+  return {
+    close() {
+      closed = true;
+      if (timer) clearTimeout(timer);
+    }
+  };
+}